@@ -1,6 +1,7 @@
 import dotenv from "dotenv";
 import { fileURLToPath } from "node:url";
 import { dirname, resolve } from "node:path";
+import { QueueTimeoutError, RequestThrottle, type Slot } from "./throttle.js";
 
 // Load .env from the project root (not cwd), so it works when Claude Code
 // launches the server from any directory.
@@ -17,11 +18,50 @@ if (!TT_APP_PASSWORD || !TT_ACCOUNT_ID) {
   );
 }
 
-const BASE_URL = `https://app.trackingtime.co/api/v4/${TT_ACCOUNT_ID}`;
+// TT_BASE_URL overrides the API root (e.g. to point at a local fake server in tests).
+const API_ROOT = (process.env.TT_BASE_URL || "https://app.trackingtime.co/api/v4").replace(/\/+$/, "");
+const BASE_URL = `${API_ROOT}/${TT_ACCOUNT_ID}`;
 const AUTH_HEADER =
   "Basic " + Buffer.from(`API_TOKEN:${TT_APP_PASSWORD}`).toString("base64");
 const REQUEST_TIMEOUT_MS = 30_000;
 
+function envInt(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`Invalid ${name}: expected a non-negative integer, got "${raw}"`);
+  }
+  return value;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`Invalid ${name}: expected a non-negative number, got "${raw}"`);
+  }
+  return value;
+}
+
+// Retries cover transport failures and gateway errors only. TrackingTime's
+// own errors arrive as a JSON envelope and are never retried — notably the
+// envelope status 502 "timer already running", which is not a gateway error.
+const MAX_RETRIES = envInt("TT_MAX_RETRIES", 3);
+const RETRY_BASE_MS = envInt("TT_RETRY_BASE_MS", 500);
+const RETRY_MAX_MS = envInt("TT_RETRY_MAX_MS", 10_000);
+const IDEMPOTENT_METHODS = new Set(["GET", "PUT", "DELETE"]);
+const RETRYABLE_GATEWAY_STATUSES = new Set([500, 502, 503, 504]);
+
+// Shared by every request (including each retry attempt). Time spent queued
+// counts toward REQUEST_TIMEOUT_MS.
+const throttle = new RequestThrottle({
+  ratePerSecond: envNumber("TT_RATE_LIMIT", 10),
+  burst: envInt("TT_RATE_BURST", 20),
+  maxConcurrency: envInt("TT_MAX_CONCURRENCY", 4),
+});
+
 interface TTResponse {
   response: { status: number; message: string };
   data: unknown;
@@ -40,16 +80,21 @@ export class TrackingTimeError extends Error {
 const ERROR_HINTS: Record<number, string> = {
   401: "Check that your App Password is correct and hasn't been revoked.",
   403: "Your account may not have permission for this action.",
+  429: "TrackingTime is rate limiting requests. Wait a moment and try again.",
   502: "This usually means a timer is already running. " +
     "Use stop_running_task=true on tt_start_timer, or call tt_stop_timer first.",
 };
 
-export async function apiRequest(
-  method: string,
-  endpoint: string,
-  params?: Record<string, string>,
-  body?: unknown,
-): Promise<unknown> {
+export interface RequestOptions {
+  /**
+   * Retry transient failures for this request even though its method is not
+   * idempotent. Only set this for POST endpoints that are safe to repeat
+   * (e.g. read-only lookups like /tasks/times).
+   */
+  retry?: boolean;
+}
+
+function buildUrl(endpoint: string, params?: Record<string, string>): string {
   let url = `${BASE_URL}/${endpoint.replace(/^\//, "")}`;
 
   if (params && Object.keys(params).length > 0) {
@@ -57,12 +102,90 @@ export async function apiRequest(
     url += `?${searchParams.toString()}`;
   }
 
+  return url;
+}
+
+function isJson(res: Response): boolean {
+  return (res.headers.get("content-type") ?? "").includes("application/json");
+}
+
+// 429 is always worth retrying. 5xx only when the body is not JSON — a JSON
+// body means TrackingTime itself answered, so repeating won't change anything.
+function isRetryableResponse(res: Response): boolean {
+  if (res.status === 429) return true;
+  return RETRYABLE_GATEWAY_STATUSES.has(res.status) && !isJson(res);
+}
+
+/** Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds. */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - Date.now());
+}
+
+/** Exponential backoff with full jitter, capped at RETRY_MAX_MS. */
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function fetchOnce(url: string, init: RequestInit): Promise<Response> {
+  let slot: Slot;
+  try {
+    slot = await throttle.acquire(REQUEST_TIMEOUT_MS);
+  } catch (err) {
+    if (err instanceof QueueTimeoutError) {
+      throw new TrackingTimeError(
+        0,
+        `Request timed out after waiting ${(err.waitedMs / 1000).toFixed(1)}s in the client queue. ` +
+          "Too many requests are in flight — lower the fan-out or raise TT_MAX_CONCURRENCY / TT_RATE_LIMIT.",
+      );
+    }
+    throw err;
+  }
+
   const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  const budget = Math.max(REQUEST_TIMEOUT_MS - slot.waitedMs, 1);
+  const timeout = setTimeout(() => controller.abort(), budget);
 
-  const options: RequestInit = {
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (err) {
+    if (err instanceof DOMException && err.name === "AbortError") {
+      const queued = slot.waitedMs > 0 ? ` (${(slot.waitedMs / 1000).toFixed(1)}s of it queued)` : "";
+      throw new TrackingTimeError(
+        0,
+        `Request timed out after 30s${queued}. TrackingTime may be unavailable.`,
+      );
+    }
+    throw new TrackingTimeError(0, `Network error: ${err instanceof Error ? err.message : String(err)}`);
+  } finally {
+    clearTimeout(timeout);
+    slot.release();
+  }
+}
+
+/**
+ * Send a request, retrying network errors, timeouts, HTTP 429 and non-JSON
+ * gateway errors with backoff. Only idempotent methods are retried unless the
+ * caller opts in via options.retry. Once retries are exhausted the last
+ * response is returned (or the last error thrown) for the caller to handle.
+ */
+async function sendRequest(
+  method: string,
+  url: string,
+  body: unknown,
+  options: RequestOptions = {},
+): Promise<Response> {
+  const init: RequestInit = {
     method,
-    signal: controller.signal,
     headers: {
       Authorization: AUTH_HEADER,
       "Content-Type": "application/json",
@@ -71,27 +194,44 @@ export async function apiRequest(
   };
 
   if (body && (method === "POST" || method === "PUT")) {
-    options.body = JSON.stringify(body);
+    init.body = JSON.stringify(body);
   }
 
-  let res: Response;
-  try {
-    res = await fetch(url, options);
-  } catch (err) {
-    if (err instanceof DOMException && err.name === "AbortError") {
-      throw new TrackingTimeError(0, "Request timed out after 30s. TrackingTime may be unavailable.");
+  const maxRetries = options.retry || IDEMPOTENT_METHODS.has(method) ? MAX_RETRIES : 0;
+
+  for (let attempt = 0; ; attempt++) {
+    let res: Response;
+    try {
+      res = await fetchOnce(url, init);
+    } catch (err) {
+      if (attempt >= maxRetries) throw err;
+      await sleep(backoffDelay(attempt));
+      continue;
     }
-    throw new TrackingTimeError(0, `Network error: ${err instanceof Error ? err.message : String(err)}`);
-  } finally {
-    clearTimeout(timeout);
+
+    if (attempt >= maxRetries || !isRetryableResponse(res)) return res;
+
+    const retryAfter = parseRetryAfter(res.headers.get("retry-after"));
+    await res.body?.cancel();
+    await sleep(retryAfter !== undefined ? Math.min(retryAfter, RETRY_MAX_MS) : backoffDelay(attempt));
   }
+}
+
+export async function apiRequest(
+  method: string,
+  endpoint: string,
+  params?: Record<string, string>,
+  body?: unknown,
+  options?: RequestOptions,
+): Promise<unknown> {
+  const res = await sendRequest(method, buildUrl(endpoint, params), body, options);
 
   // Handle non-JSON responses (HTML error pages, 502 gateway errors, etc.)
-  const contentType = res.headers.get("content-type") ?? "";
-  if (!contentType.includes("application/json")) {
+  if (!isJson(res)) {
+    const hint = res.status === 429 ? ` ${ERROR_HINTS[429]}` : "";
     throw new TrackingTimeError(
       res.status,
-      `TrackingTime returned HTTP ${res.status} with non-JSON response. The service may be temporarily unavailable.`,
+      `TrackingTime returned HTTP ${res.status} with non-JSON response. The service may be temporarily unavailable.${hint}`,
     );
   }
 
@@ -115,41 +255,13 @@ export async function rawApiRequest(
   method: string,
   endpoint: string,
   params?: Record<string, string>,
+  options?: RequestOptions,
 ): Promise<string> {
-  let url = `${BASE_URL}/${endpoint.replace(/^\//, "")}`;
-
-  if (params && Object.keys(params).length > 0) {
-    const searchParams = new URLSearchParams(params);
-    url += `?${searchParams.toString()}`;
-  }
-
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
-
-  const options: RequestInit = {
-    method,
-    signal: controller.signal,
-    headers: {
-      Authorization: AUTH_HEADER,
-      "Content-Type": "application/json",
-      "User-Agent": "TrackingTimeMCP/1.0",
-    },
-  };
-
-  let res: Response;
-  try {
-    res = await fetch(url, options);
-  } catch (err) {
-    if (err instanceof DOMException && err.name === "AbortError") {
-      throw new TrackingTimeError(0, "Request timed out after 30s. TrackingTime may be unavailable.");
-    }
-    throw new TrackingTimeError(0, `Network error: ${err instanceof Error ? err.message : String(err)}`);
-  } finally {
-    clearTimeout(timeout);
-  }
+  const res = await sendRequest(method, buildUrl(endpoint, params), undefined, options);
 
   if (!res.ok) {
-    throw new TrackingTimeError(res.status, `TrackingTime returned HTTP ${res.status}`);
+    const hint = res.status === 429 ? `. ${ERROR_HINTS[429]}` : "";
+    throw new TrackingTimeError(res.status, `TrackingTime returned HTTP ${res.status}${hint}`);
   }
 
   return await res.text();
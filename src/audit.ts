@@ -0,0 +1,175 @@
+import { shiftDays, wallSeconds } from "./dates.js";
+import { fetchAllEvents, isFinished } from "./events.js";
+import type { FinishedEntry, TimeEntry } from "./events.js";
+
+/**
+ * Consistency checks for time entries: overlaps, suspiciously long or empty
+ * entries, entries crossing midnight and gaps in the working day. Times are
+ * TrackingTime's local "yyyy-MM-dd HH:mm:ss" strings, compared as wall-clock
+ * time.
+ */
+
+export type OverlapCheck = "off" | "warn" | "strict";
+
+const OVERLAP_CHECKS: readonly OverlapCheck[] = ["off", "warn", "strict"];
+
+/** Default pre-write overlap check for the add/update tools: TT_OVERLAP_CHECK, default off. */
+export function configuredOverlapCheck(): OverlapCheck {
+  const raw = process.env.TT_OVERLAP_CHECK?.trim().toLowerCase();
+  if (!raw) return "off";
+  if (!OVERLAP_CHECKS.includes(raw as OverlapCheck)) {
+    throw new Error(`Invalid TT_OVERLAP_CHECK "${raw}". Expected off, warn or strict`);
+  }
+  return raw as OverlapCheck;
+}
+
+export interface AuditOptions {
+  /** Entries longer than this are reported. */
+  longSeconds: number;
+  /** Gaps between entries on the same day longer than this are reported. */
+  gapSeconds: number;
+}
+
+export interface EntrySummary {
+  id: number;
+  user_id: number | null;
+  user: string | null;
+  task: string | null;
+  start: string;
+  end: string | null;
+  duration: number;
+}
+
+export interface AuditReport {
+  scanned: number;
+  issues: number;
+  overlaps: { user_id: number | null; date: string; entry_ids: [number, number]; overlap_seconds: number }[];
+  long_entries: EntrySummary[];
+  zero_length: EntrySummary[];
+  spans_midnight: EntrySummary[];
+  gaps: { user_id: number | null; date: string; from: string; to: string; gap_seconds: number; between: [number, number] }[];
+}
+
+function summarize(entry: TimeEntry): EntrySummary {
+  return {
+    id: entry.id,
+    user_id: entry.user_id ?? null,
+    user: entry.user ?? null,
+    task: entry.task ?? null,
+    start: entry.start,
+    end: entry.end ?? null,
+    duration: Number(entry.duration) || 0,
+  };
+}
+
+function byUser(entries: FinishedEntry[]): FinishedEntry[][] {
+  const groups = new Map<string, FinishedEntry[]>();
+  for (const entry of entries) {
+    const key = String(entry.user_id ?? "");
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  }
+  return [...groups.values()].map((group) => group.sort((a, b) => wallSeconds(a.start) - wallSeconds(b.start)));
+}
+
+/** Pairs of `entries` whose time ranges intersect, with the overlap in seconds. */
+function overlappingPairs(entries: FinishedEntry[]): [FinishedEntry, FinishedEntry, number][] {
+  const pairs: [FinishedEntry, FinishedEntry, number][] = [];
+  for (let i = 0; i < entries.length; i++) {
+    const a = entries[i];
+    for (let j = i + 1; j < entries.length; j++) {
+      const b = entries[j];
+      const overlap = Math.min(wallSeconds(a.end), wallSeconds(b.end)) - Math.max(wallSeconds(a.start), wallSeconds(b.start));
+      if (overlap > 0) pairs.push([a, b, overlap]);
+    }
+  }
+  return pairs;
+}
+
+/** Audit finished entries; running entries (no end yet) are only counted as scanned. */
+export function auditEntries(entries: TimeEntry[], options: AuditOptions): AuditReport {
+  const finished = entries.filter(isFinished);
+  const report: AuditReport = {
+    scanned: entries.length,
+    issues: 0,
+    overlaps: [],
+    long_entries: [],
+    zero_length: [],
+    spans_midnight: [],
+    gaps: [],
+  };
+
+  for (const entry of finished) {
+    const length = wallSeconds(entry.end) - wallSeconds(entry.start);
+    if (length <= 0 || Number(entry.duration) === 0) report.zero_length.push(summarize(entry));
+    else if (length > options.longSeconds) report.long_entries.push(summarize(entry));
+    if (String(entry.start).slice(0, 10) !== String(entry.end).slice(0, 10)) report.spans_midnight.push(summarize(entry));
+  }
+
+  for (const group of byUser(finished)) {
+    for (const [a, b, overlap] of overlappingPairs(group)) {
+      report.overlaps.push({
+        user_id: a.user_id ?? null,
+        date: String(b.start).slice(0, 10),
+        entry_ids: [a.id, b.id],
+        overlap_seconds: overlap,
+      });
+    }
+
+    let previous: FinishedEntry | undefined;
+    for (const entry of group) {
+      if (previous && String(previous.start).slice(0, 10) === String(entry.start).slice(0, 10)) {
+        const gap = wallSeconds(entry.start) - wallSeconds(previous.end);
+        if (gap > options.gapSeconds) {
+          report.gaps.push({
+            user_id: entry.user_id ?? null,
+            date: String(entry.start).slice(0, 10),
+            from: previous.end,
+            to: entry.start,
+            gap_seconds: gap,
+            between: [previous.id, entry.id],
+          });
+        }
+      }
+      if (!previous || wallSeconds(entry.end) > wallSeconds(previous.end)) previous = entry;
+    }
+  }
+
+  report.issues =
+    report.overlaps.length +
+    report.long_entries.length +
+    report.zero_length.length +
+    report.spans_midnight.length +
+    report.gaps.length;
+  return report;
+}
+
+/**
+ * Entries of `userId` that intersect [start, end), other than `excludeId`
+ * (the entry being updated). Fetches the days the range touches, plus the
+ * day before for entries running past midnight.
+ */
+export async function findOverlappingEntries(
+  userId: number,
+  start: string,
+  end: string,
+  excludeId?: number,
+): Promise<EntrySummary[]> {
+  const { entries } = await fetchAllEvents({
+    filter: "USER",
+    id: userId,
+    from: shiftDays(start.slice(0, 10), -1),
+    to: end.slice(0, 10),
+  });
+  const from = wallSeconds(start);
+  const to = wallSeconds(end);
+  return entries
+    .filter((e) => e.id !== excludeId && e.end && wallSeconds(e.start) < to && wallSeconds(e.end) > from)
+    .map(summarize);
+}
+
+/** One-line description of overlapping entries for warnings and errors. */
+export function describeOverlaps(overlaps: EntrySummary[]): string {
+  return overlaps
+    .map((e) => `${e.id} (${e.start.slice(0, 16)}–${String(e.end).slice(11, 16)}${e.task ? `, ${e.task}` : ""})`)
+    .join(", ");
+}
@@ -0,0 +1,135 @@
+import { shiftDays } from "./dates.js";
+
+/**
+ * Project budget status: tracked time against task estimates and the
+ * optional hour and money budgets from the local settings file, with the
+ * recent burn rate projected forward to an overrun date.
+ */
+
+export interface BudgetTask {
+  id: number;
+  name: string | null;
+  /** Hours. */
+  estimated_time: number;
+  /** Seconds. */
+  accumulated_time: number;
+}
+
+export interface BudgetInput {
+  project: { id: number; name: string | null; customer: string | null };
+  /** Sum of the project's task estimates, hours. */
+  estimateHours: number;
+  /** Everything tracked on the project, seconds. */
+  actualSeconds: number;
+  budget?: { hours?: number; amount?: number };
+  rate?: number;
+  currency?: string;
+  /** Seconds tracked in the burn-rate window. */
+  recentSeconds: number;
+  weeks: number;
+  /** Last day of the burn-rate window, YYYY-MM-DD. */
+  today: string;
+  tasks: BudgetTask[];
+}
+
+export interface BudgetStatus {
+  project_id: number;
+  project: string | null;
+  customer: string | null;
+  estimate_hours: number;
+  budget_hours: number | null;
+  actual_hours: number;
+  remaining_hours: number | null;
+  /** Of budget_hours, or of the estimates without a budget. */
+  percent_consumed: number | null;
+  rate: number | null;
+  currency: string | null;
+  budget_amount: number | null;
+  actual_amount: number | null;
+  percent_amount_consumed: number | null;
+  burn_rate: { weeks: number; from: string; to: string; hours_per_week: number; amount_per_week: number | null };
+  over_budget: boolean;
+  /** When the hour or money budget runs out at the current burn rate; null when over already or not burning. */
+  projected_overrun_date: string | null;
+  projected_overrun_by: "hours" | "amount" | null;
+  tasks_over_estimate: {
+    task_id: number;
+    task: string | null;
+    estimated_hours: number;
+    actual_hours: number;
+    over_hours: number;
+    percent_consumed: number;
+  }[];
+}
+
+const twoDecimals = (value: number) => Math.round(value * 100) / 100;
+const percent = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 1000) / 10 : null);
+
+/** The day `remaining` runs out at `perWeek`, counting from the day after `today`. */
+function runsOutOn(remaining: number, perWeek: number, today: string): string | null {
+  if (remaining <= 0 || perWeek <= 0) return null;
+  return shiftDays(today, Math.max(1, Math.ceil((remaining / perWeek) * 7)));
+}
+
+export function budgetStatus(input: BudgetInput): BudgetStatus {
+  const actualHours = twoDecimals(input.actualSeconds / 3600);
+  const budgetHours = input.budget?.hours ?? null;
+  const hourBasis = budgetHours ?? (input.estimateHours > 0 ? input.estimateHours : null);
+  const rate = input.rate ?? null;
+  const budgetAmount = input.budget?.amount ?? null;
+  const actualAmount = rate === null ? null : twoDecimals(actualHours * rate);
+  const hoursPerWeek = twoDecimals(input.recentSeconds / 3600 / input.weeks);
+  const amountPerWeek = rate === null ? null : twoDecimals(hoursPerWeek * rate);
+
+  const overHours = hourBasis !== null && actualHours > hourBasis;
+  const overAmount = budgetAmount !== null && actualAmount !== null && actualAmount > budgetAmount;
+  const projections: ["hours" | "amount", string | null][] = [];
+  if (hourBasis !== null) projections.push(["hours", runsOutOn(hourBasis - actualHours, hoursPerWeek, input.today)]);
+  if (budgetAmount !== null && actualAmount !== null && amountPerWeek !== null) {
+    projections.push(["amount", runsOutOn(budgetAmount - actualAmount, amountPerWeek, input.today)]);
+  }
+  const [first] = projections
+    .filter((p): p is ["hours" | "amount", string] => p[1] !== null)
+    .sort((a, b) => a[1].localeCompare(b[1]));
+  const over = overHours || overAmount;
+
+  return {
+    project_id: input.project.id,
+    project: input.project.name,
+    customer: input.project.customer,
+    estimate_hours: twoDecimals(input.estimateHours),
+    budget_hours: budgetHours,
+    actual_hours: actualHours,
+    remaining_hours: hourBasis === null ? null : twoDecimals(hourBasis - actualHours),
+    percent_consumed: hourBasis === null ? null : percent(actualHours, hourBasis),
+    rate,
+    currency: input.currency ?? null,
+    budget_amount: budgetAmount,
+    actual_amount: actualAmount,
+    percent_amount_consumed: budgetAmount === null || actualAmount === null ? null : percent(actualAmount, budgetAmount),
+    burn_rate: {
+      weeks: input.weeks,
+      from: shiftDays(input.today, 1 - input.weeks * 7),
+      to: input.today,
+      hours_per_week: hoursPerWeek,
+      amount_per_week: amountPerWeek,
+    },
+    over_budget: over,
+    projected_overrun_date: over || !first ? null : first[1],
+    projected_overrun_by: over || !first ? null : first[0],
+    tasks_over_estimate: input.tasks
+      .filter((t) => t.estimated_time > 0 && t.accumulated_time / 3600 > t.estimated_time)
+      .map((t) => {
+        const actual = twoDecimals(t.accumulated_time / 3600);
+        return {
+          task_id: t.id,
+          task: t.name,
+          estimated_hours: t.estimated_time,
+          actual_hours: actual,
+          over_hours: twoDecimals(actual - t.estimated_time),
+          percent_consumed: percent(actual, t.estimated_time) as number,
+        };
+      })
+      .sort((a, b) => b.over_hours - a.over_hours),
+  };
+}
@@ -0,0 +1,115 @@
+import { randomBytes } from "node:crypto";
+import { z } from "zod";
+import { rawShapeTool } from "./registration.js";
+import type { ToolHandler, ToolRegistrar } from "./registration.js";
+import { errorResult, toolResult } from "./tools/shared.js";
+
+/** Builds the "what would this affect" preview for a destructive tool call. */
+export type PreviewBuilder = (args: Record<string, unknown>) => Promise<unknown>;
+
+interface PendingConfirmation {
+  tool: string;
+  argsKey: string;
+  expiresAt: number;
+}
+
+const DEFAULT_TTL_SECONDS = 300;
+
+/** Stable key for a set of arguments, independent of property order. */
+function argsKey(args: Record<string, unknown>): string {
+  const sorted = Object.keys(args)
+    .filter((key) => key !== "confirm_token" && args[key] !== undefined)
+    .sort()
+    .map((key) => [key, args[key]]);
+  return JSON.stringify(sorted);
+}
+
+export class ConfirmationStore {
+  private pending = new Map<string, PendingConfirmation>();
+
+  constructor(private ttlSeconds = DEFAULT_TTL_SECONDS) {}
+
+  get ttl(): number {
+    return this.ttlSeconds;
+  }
+
+  issue(tool: string, args: Record<string, unknown>): string {
+    const now = Date.now();
+    for (const [token, entry] of this.pending) {
+      if (entry.expiresAt <= now) this.pending.delete(token);
+    }
+    const token = randomBytes(6).toString("base64url");
+    this.pending.set(token, { tool, argsKey: argsKey(args), expiresAt: now + this.ttlSeconds * 1000 });
+    return token;
+  }
+
+  /** Consume a token. Fails if it is unknown, expired, or was issued for a different call. */
+  redeem(token: string, tool: string, args: Record<string, unknown>): boolean {
+    const entry = this.pending.get(token);
+    if (!entry) return false;
+    this.pending.delete(token);
+    return entry.expiresAt > Date.now() && entry.tool === tool && entry.argsKey === argsKey(args);
+  }
+}
+
+/**
+ * Wrap a registrar so that destructive tools (destructiveHint: true) need two
+ * calls: the first returns a preview and a short-lived confirm_token, and only
+ * a second call with identical arguments plus that token runs the tool.
+ * Tools without a preview builder get a preview of their arguments.
+ */
+export function withConfirmation(
+  server: ToolRegistrar,
+  previews: Record<string, PreviewBuilder>,
+  store = new ConfirmationStore(),
+): ToolRegistrar {
+  return {
+    registerTool(name, config, cb) {
+      if (config.annotations?.destructiveHint !== true) {
+        server.registerTool(name, config, cb);
+        return;
+      }
+
+      const tool = rawShapeTool(config, cb);
+      const inputSchema = {
+        ...tool.inputSchema,
+        confirm_token: z
+          .string()
+          .optional()
+          .describe("Token from a previous call's preview. Omit to get a preview first."),
+      };
+      const description =
+        `${config.description ?? ""} Requires confirmation: the first call returns a preview ` +
+        "and a confirm_token; call again with the same arguments plus confirm_token to proceed.";
+
+      const handler: ToolHandler = async (args, extra) => {
+        const { confirm_token, ...rest } = args;
+        if (confirm_token === undefined) {
+          try {
+            const preview = previews[name] ? await previews[name](rest) : { arguments: rest };
+            return toolResult({
+              confirmation_required: true,
+              tool: name,
+              preview,
+              confirm_token: store.issue(name, rest),
+              expires_in_seconds: store.ttl,
+            });
+          } catch (err) {
+            return errorResult(err);
+          }
+        }
+        if (typeof confirm_token !== "string" || !store.redeem(confirm_token, name, rest)) {
+          return errorResult(
+            new Error(
+              `Invalid or expired confirm_token for ${name}, or the arguments changed. ` +
+                "Call it again without confirm_token to get a fresh preview.",
+            ),
+          );
+        }
+        return tool.cb(rest, extra);
+      };
+
+      server.registerTool(name, { ...config, description, inputSchema }, handler);
+    },
+  };
+}
@@ -0,0 +1,239 @@
+import { homedir } from "node:os";
+import { isAbsolute, join, relative, resolve } from "node:path";
+import type { TimeEntry } from "./events.js";
+import { policyFor, roundDuration } from "./rounding.js";
+import type { RoundingConfig } from "./rounding.js";
+
+/**
+ * Customer activity reports: a customer's time over a period as projects,
+ * tasks, hours and dated notes, rendered as Markdown or a self-contained HTML
+ * page to send to the client. Staff names and internal tags can be left out.
+ * Reports saved to disk go under one directory (TT_REPORTS_DIR, default
+ * ~/.trackingtime-mcp/reports).
+ */
+
+export const DEFAULT_REPORTS_DIR = join(homedir(), ".trackingtime-mcp", "reports");
+
+export interface ReportOptions {
+  hideStaff: boolean;
+  /** true hides every tag; a list hides the tags with those names (case-insensitive). */
+  hideTags: boolean | string[];
+  /** Round each entry with its rounding policy. */
+  rounding?: RoundingConfig;
+}
+
+export interface ReportEntry {
+  id: number;
+  date: string;
+  hours: number;
+  user?: string | null;
+  notes: string;
+  tags?: string[];
+}
+
+export interface ReportTask {
+  task_id: number | null;
+  task: string | null;
+  hours: number;
+  entries: ReportEntry[];
+}
+
+export interface ReportProject {
+  project_id: number | null;
+  project: string | null;
+  hours: number;
+  tasks: ReportTask[];
+}
+
+export interface CustomerReport {
+  customer_id: number;
+  customer: string | null;
+  from: string;
+  to: string;
+  rounded: boolean;
+  projects: ReportProject[];
+  totals: { entries: number; hours: number };
+}
+
+const twoDecimals = (value: number) => Math.round(value * 100) / 100;
+
+/** Where reports are written: TT_REPORTS_DIR (with ~/ expanded), or the default. */
+export function reportsDir(): string {
+  const value = process.env.TT_REPORTS_DIR?.trim();
+  if (!value) return DEFAULT_REPORTS_DIR;
+  return value.startsWith("~/") ? join(homedir(), value.slice(2)) : value;
+}
+
+/** The file `name` (relative to the reports directory) is written to. Paths that leave the directory are refused. */
+export function reportPath(name: string): string {
+  const dir = resolve(reportsDir());
+  const path = resolve(dir, name);
+  const inside = relative(dir, path);
+  if (isAbsolute(name) || !inside || inside.startsWith("..") || isAbsolute(inside)) {
+    throw new Error(`output_path must be a file name inside the reports directory ${dir}, e.g. "acme-2026-10.md".`);
+  }
+  return path;
+}
+
+function visibleTags(entry: TimeEntry, hide: boolean | string[]): string[] {
+  if (hide === true) return [];
+  const hidden = new Set((hide || []).map((name) => name.trim().toLowerCase()));
+  return (entry.tags ?? [])
+    .filter((tag) => tag.name && !hidden.has(String(tag.name).trim().toLowerCase()))
+    .map((tag) => (tag.value ? `${String(tag.name)}: ${String(tag.value)}` : String(tag.name)));
+}
+
+/** Group a customer's entries into projects and tasks, sorted by name, with entries by start time. */
+export function buildCustomerReport(
+  entries: TimeEntry[],
+  customer: { id: number; name: string | null },
+  range: { from: string; to: string },
+  options: ReportOptions,
+): CustomerReport {
+  const projects = new Map<string, ReportProject & { byTask: Map<string, ReportTask> }>();
+  const sorted = [...entries].sort((a, b) => a.start.localeCompare(b.start));
+  for (const entry of sorted) {
+    const projectKey = String(entry.project_id ?? "");
+    let project = projects.get(projectKey);
+    if (!project) {
+      project = {
+        project_id: entry.project_id ?? null,
+        project: entry.project ?? null,
+        hours: 0,
+        tasks: [],
+        byTask: new Map(),
+      };
+      projects.set(projectKey, project);
+    }
+    const taskKey = String(entry.task_id ?? "");
+    let task = project.byTask.get(taskKey);
+    if (!task) {
+      task = { task_id: entry.task_id ?? null, task: entry.task ?? null, hours: 0, entries: [] };
+      project.byTask.set(taskKey, task);
+    }
+
+    const duration = Number(entry.duration) || 0;
+    const policy = options.rounding && policyFor(options.rounding, entry);
+    const hours = twoDecimals((policy ? roundDuration(duration, policy) : duration) / 3600);
+    const line: ReportEntry = { id: entry.id, date: entry.start.slice(0, 10), hours, notes: String(entry.notes ?? "").trim() };
+    if (!options.hideStaff) line.user = entry.user ?? null;
+    const tags = visibleTags(entry, options.hideTags);
+    if (tags.length) line.tags = tags;
+    task.entries.push(line);
+    task.hours = twoDecimals(task.hours + hours);
+    project.hours = twoDecimals(project.hours + hours);
+  }
+
+  const byName = <T>(pick: (item: T) => string | null) => (a: T, b: T) =>
+    String(pick(a) ?? "").localeCompare(String(pick(b) ?? ""));
+  const list = [...projects.values()]
+    .map(({ byTask, ...project }) => ({ ...project, tasks: [...byTask.values()].sort(byName<ReportTask>((t) => t.task)) }))
+    .sort(byName<ReportProject>((p) => p.project));
+  return {
+    customer_id: customer.id,
+    customer: customer.name,
+    ...range,
+    rounded: Boolean(options.rounding),
+    projects: list,
+    totals: {
+      entries: sorted.length,
+      hours: twoDecimals(list.reduce((sum, p) => sum + p.hours, 0)),
+    },
+  };
+}
+
+const hours = (value: number) => value.toFixed(2);
+const title = (report: CustomerReport) => `Activity report — ${report.customer ?? `customer ${report.customer_id}`}`;
+const period = (report: CustomerReport) => `${report.from} – ${report.to}`;
+const oneLine = (text: string) => text.replace(/\s*\r?\n\s*/g, " ");
+
+function entryDetails(entry: ReportEntry): string[] {
+  return [entry.user ?? "", oneLine(entry.notes), entry.tags?.length ? `[${entry.tags.join(", ")}]` : ""].filter(Boolean);
+}
+
+/** Render a report as Markdown: a summary table, then each project's tasks with their dated notes. */
+export function renderReportMarkdown(report: CustomerReport): string {
+  const cell = (text: string | null) => (text ?? "—").replace(/\|/g, "\\|");
+  const lines = [`# ${title(report)}`, "", `${period(report)} · ${hours(report.totals.hours)} hours`, ""];
+  if (!report.projects.length) return [...lines, "No time was tracked in this period."].join("\n");
+
+  lines.push("| Project | Task | Hours |", "|---|---|---:|");
+  for (const project of report.projects) {
+    for (const task of project.tasks) lines.push(`| ${cell(project.project)} | ${cell(task.task)} | ${hours(task.hours)} |`);
+  }
+  lines.push(`| **Total** | | **${hours(report.totals.hours)}** |`);
+
+  for (const project of report.projects) {
+    lines.push("", `## ${project.project ?? "No project"} — ${hours(project.hours)} h`);
+    for (const task of project.tasks) {
+      lines.push("", `### ${task.task ?? "No task"} — ${hours(task.hours)} h`, "");
+      for (const entry of task.entries) {
+        lines.push(`- ${[`${entry.date} · ${hours(entry.hours)} h`, ...entryDetails(entry)].join(" — ")}`);
+      }
+    }
+  }
+  if (report.rounded) lines.push("", "_Hours are rounded per the billing rounding policy._");
+  return lines.join("\n") + "\n";
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const STYLE = [
+  "body{font-family:system-ui,-apple-system,'Segoe UI',sans-serif;max-width:56rem;margin:2rem auto;padding:0 1rem;color:#222}",
+  "table{border-collapse:collapse;width:100%;margin:1rem 0}",
+  "th,td{border-bottom:1px solid #ddd;padding:.4rem .6rem;text-align:left}",
+  "td.num,th.num{text-align:right}",
+  "tfoot td{font-weight:bold}",
+  "ul{padding-left:1.2rem}",
+  ".muted{color:#666}",
+].join("");
+
+/** Render a report as a self-contained HTML page (inline styles, no external assets). */
+export function renderReportHtml(report: CustomerReport): string {
+  const esc = (text: string | null, fallback: string) => escapeHtml(text ?? fallback);
+  const body = [`<h1>${escapeHtml(title(report))}</h1>`, `<p class="muted">${period(report)} · ${hours(report.totals.hours)} hours</p>`];
+  if (!report.projects.length) {
+    body.push("<p>No time was tracked in this period.</p>");
+  } else {
+    const rows = report.projects.flatMap((project) =>
+      project.tasks.map(
+        (task) =>
+          `<tr><td>${esc(project.project, "—")}</td><td>${esc(task.task, "—")}</td><td class="num">${hours(task.hours)}</td></tr>`,
+      ),
+    );
+    body.push(
+      "<table>",
+      '<thead><tr><th>Project</th><th>Task</th><th class="num">Hours</th></tr></thead>',
+      `<tbody>${rows.join("")}</tbody>`,
+      `<tfoot><tr><td>Total</td><td></td><td class="num">${hours(report.totals.hours)}</td></tr></tfoot>`,
+      "</table>",
+    );
+    for (const project of report.projects) {
+      body.push(`<h2>${esc(project.project, "No project")} — ${hours(project.hours)} h</h2>`);
+      for (const task of project.tasks) {
+        body.push(`<h3>${esc(task.task, "No task")} — ${hours(task.hours)} h</h3>`, "<ul>");
+        for (const entry of task.entries) {
+          const details = entryDetails(entry).map(escapeHtml);
+          body.push(`<li><strong>${entry.date}</strong> · ${hours(entry.hours)} h${details.map((d) => ` — ${d}`).join("")}</li>`);
+        }
+        body.push("</ul>");
+      }
+    }
+    if (report.rounded) body.push('<p class="muted"><em>Hours are rounded per the billing rounding policy.</em></p>');
+  }
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(`${title(report)}, ${period(report)}`)}</title>`,
+    `<style>${STYLE}</style>`,
+    "</head>",
+    "<body>",
+    ...body,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,370 @@
+/**
+ * Parsing for the date parameters tools accept. TrackingTime wants dates as
+ * YYYY-MM-DD and datetimes as "yyyy-MM-dd HH:mm:ss" in the user's local
+ * time; callers may also pass ISO 8601 timestamps with an offset or
+ * relative expressions ("yesterday 14:00", "last week", "3 hours ago"),
+ * which are resolved against the current time in TT_TIMEZONE (default: the
+ * system timezone).
+ */
+
+export class DateParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DateParseError";
+  }
+}
+
+export interface DateOptions {
+  /** IANA timezone; defaults to TT_TIMEZONE, then the system timezone. */
+  timeZone?: string;
+  /** Reference instant for relative expressions (default: now). */
+  now?: Date;
+}
+
+/** Which end of a period ("last week", "this month") a date stands for. */
+export type Edge = "start" | "end";
+
+interface Day {
+  y: number;
+  m: number;
+  d: number;
+}
+
+interface WallClock extends Day {
+  H: number;
+  M: number;
+  S: number;
+}
+
+const DATE_HINT =
+  "Use YYYY-MM-DD or an expression like today, yesterday, last monday, last week, this month or 3 days ago.";
+const DATETIME_HINT =
+  'Use "yyyy-MM-dd HH:mm:ss", ISO 8601 with an offset, or an expression like now, yesterday 14:00 or 30 minutes ago.';
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const UNIT_MS: Record<string, number> = { second: 1000, minute: 60_000, hour: 3_600_000, day: 86_400_000, week: 604_800_000 };
+
+export function configuredTimeZone(): string {
+  const zone = process.env.TT_TIMEZONE?.trim();
+  if (!zone) return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: zone });
+  } catch {
+    throw new Error(`Invalid TT_TIMEZONE "${zone}". Expected an IANA timezone such as Europe/Berlin`);
+  }
+  return zone;
+}
+
+function resolveOptions(options: DateOptions): { timeZone: string; now: Date } {
+  return { timeZone: options.timeZone ?? configuredTimeZone(), now: options.now ?? new Date() };
+}
+
+// ── Calendar helpers (plain dates, no timezone) ─────────────────────
+
+const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+
+function formatDay({ y, m, d }: Day): string {
+  return `${pad(y, 4)}-${pad(m)}-${pad(d)}`;
+}
+
+function formatWall(w: WallClock): string {
+  return `${formatDay(w)} ${pad(w.H)}:${pad(w.M)}:${pad(w.S)}`;
+}
+
+function addDays(day: Day, days: number): Day {
+  const t = new Date(Date.UTC(day.y, day.m - 1, day.d + days));
+  return { y: t.getUTCFullYear(), m: t.getUTCMonth() + 1, d: t.getUTCDate() };
+}
+
+function addMonths(day: Day, months: number): Day {
+  const index = day.y * 12 + (day.m - 1) + months;
+  return { y: Math.floor(index / 12), m: (index % 12) + 1, d: 1 };
+}
+
+function daysInMonth(y: number, m: number): number {
+  return new Date(Date.UTC(y, m, 0)).getUTCDate();
+}
+
+function weekday(day: Day): number {
+  return new Date(Date.UTC(day.y, day.m - 1, day.d)).getUTCDay();
+}
+
+/** Monday of the ISO week containing `day`. */
+function startOfWeek(day: Day): Day {
+  return addDays(day, -((weekday(day) + 6) % 7));
+}
+
+function validDay(y: number, m: number, d: number): Day | undefined {
+  if (m < 1 || m > 12 || d < 1 || d > daysInMonth(y, m)) return undefined;
+  return { y, m, d };
+}
+
+// ── Timezone helpers ────────────────────────────────────────────────
+
+function wallClock(instant: Date, timeZone: string): WallClock {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return { y: get("year"), m: get("month"), d: get("day"), H: get("hour"), M: get("minute"), S: get("second") };
+}
+
+/** The zone's UTC offset at `instant` in TrackingTime's "GMT+hh:mm" form. */
+export function utcOffset(options: DateOptions = {}): string {
+  const { timeZone, now } = resolveOptions(options);
+  const w = wallClock(now, timeZone);
+  const asUtc = Date.UTC(w.y, w.m - 1, w.d, w.H, w.M, w.S);
+  const minutes = Math.round((asUtc - Math.floor(now.getTime() / 1000) * 1000) / 60_000);
+  const sign = minutes < 0 ? "-" : "+";
+  return `GMT${sign}${pad(Math.floor(Math.abs(minutes) / 60))}:${pad(Math.abs(minutes) % 60)}`;
+}
+
+const ISO_WITH_OFFSET = /^\d{4}-\d{2}-\d{2}[t ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:z|[+-]\d{2}:?\d{2})$/;
+
+function parseInstant(input: string): Date | undefined {
+  if (!ISO_WITH_OFFSET.test(input)) return undefined;
+  const instant = new Date(input.toUpperCase().replace(" ", "T"));
+  return Number.isNaN(instant.getTime()) ? undefined : instant;
+}
+
+// ── Date expressions ────────────────────────────────────────────────
+
+function parseDay(text: string, edge: Edge, timeZone: string, now: Date): Day | undefined {
+  const today: Day = wallClock(now, timeZone);
+
+  const literal = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  if (literal) return validDay(Number(literal[1]), Number(literal[2]), Number(literal[3]));
+
+  const instant = parseInstant(text);
+  if (instant) return wallClock(instant, timeZone);
+
+  if (text === "today" || text === "now") return today;
+  if (text === "yesterday") return addDays(today, -1);
+  if (text === "tomorrow") return addDays(today, 1);
+
+  const ago = /^(\d+) (day|week|month)s? ago$/.exec(text);
+  if (ago) {
+    const n = Number(ago[1]);
+    if (ago[2] === "day") return addDays(today, -n);
+    if (ago[2] === "week") return addDays(today, -7 * n);
+    const month = addMonths(today, -n);
+    return { ...month, d: Math.min(today.d, daysInMonth(month.y, month.m)) };
+  }
+
+  const ahead = /^in (\d+) (day|week)s?$/.exec(text);
+  if (ahead) return addDays(today, Number(ahead[1]) * (ahead[2] === "week" ? 7 : 1));
+
+  const period = /^(this|current|last|previous|next) (week|month|year)$/.exec(text);
+  if (period) {
+    const shift = period[1] === "last" || period[1] === "previous" ? -1 : period[1] === "next" ? 1 : 0;
+    if (period[2] === "week") {
+      const monday = addDays(startOfWeek(today), 7 * shift);
+      return edge === "start" ? monday : addDays(monday, 6);
+    }
+    if (period[2] === "month") {
+      const first = addMonths(today, shift);
+      return edge === "start" ? first : { ...first, d: daysInMonth(first.y, first.m) };
+    }
+    const y = today.y + shift;
+    return edge === "start" ? { y, m: 1, d: 1 } : { y, m: 12, d: 31 };
+  }
+
+  const named = /^(?:(last|this|next) )?(sunday|monday|tuesday|wednesday|thursday|friday|saturday)$/.exec(text);
+  if (named) {
+    const target = WEEKDAYS.indexOf(named[2]);
+    const current = weekday(today);
+    if (named[1] === "this") return addDays(startOfWeek(today), (target + 6) % 7);
+    if (named[1] === "next") return addDays(today, (target - current + 7) % 7 || 7);
+    // Bare or "last": the most recent such day; bare includes today, "last" doesn't.
+    const back = (current - target + 7) % 7;
+    return addDays(today, -(named[1] === "last" ? back || 7 : back));
+  }
+
+  return undefined;
+}
+
+function normalizeInput(input: string): string {
+  return input.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Parse a date parameter into YYYY-MM-DD. Periods resolve to their first
+ * day, or their last day when `edge` is "end" (use that for `to`).
+ */
+export function parseDate(input: string, edge: Edge = "start", options: DateOptions = {}): string {
+  const { timeZone, now } = resolveOptions(options);
+  const text = normalizeInput(input);
+  // A full datetime is accepted where a date is expected; only its day is used.
+  const datetime = /^(\d{4}-\d{2}-\d{2}) \d{2}:\d{2}(?::\d{2})?$/.exec(text);
+  const day = parseDay(datetime ? datetime[1] : text, edge, timeZone, now);
+  if (!day) throw new DateParseError(`Invalid date "${input}". ${DATE_HINT}`);
+  return formatDay(day);
+}
+
+/** Parse a from/to pair (periods expand to their full span) and check the order. */
+export function parseRange(from: string, to: string, options: DateOptions = {}): { from: string; to: string } {
+  const range = { from: parseDate(from, "start", options), to: parseDate(to, "end", options) };
+  if (range.from > range.to) {
+    throw new DateParseError(`Invalid range: from (${range.from}) is after to (${range.to}).`);
+  }
+  return range;
+}
+
+function toDay(date: string): Day {
+  const [y, m, d] = date.slice(0, 10).split("-").map(Number);
+  return { y, m, d };
+}
+
+/** Whole days from one YYYY-MM-DD date to another (negative when `to` is earlier). */
+export function daysBetween(from: string, to: string): number {
+  const a = toDay(from);
+  const b = toDay(to);
+  return Math.round((Date.UTC(b.y, b.m - 1, b.d) - Date.UTC(a.y, a.m - 1, a.d)) / 86_400_000);
+}
+
+/**
+ * Seconds since the epoch for a "yyyy-MM-dd HH:mm:ss" wall-clock datetime,
+ * read as UTC: only good for comparing and subtracting wall-clock times.
+ */
+export function wallSeconds(datetime: string): number {
+  const [date, time = "00:00:00"] = String(datetime).split(" ");
+  const [y, m, d] = date.split("-").map(Number);
+  const [H, M, S] = time.split(":").map(Number);
+  return Date.UTC(y, m - 1, d, H, M, S || 0) / 1000;
+}
+
+/** A "yyyy-MM-dd HH:mm:ss" wall-clock datetime `seconds` later (earlier when negative). */
+export function addSeconds(datetime: string, seconds: number): string {
+  const t = new Date((wallSeconds(datetime) + seconds) * 1000);
+  return formatWall({
+    y: t.getUTCFullYear(),
+    m: t.getUTCMonth() + 1,
+    d: t.getUTCDate(),
+    H: t.getUTCHours(),
+    M: t.getUTCMinutes(),
+    S: t.getUTCSeconds(),
+  });
+}
+
+/** Move a YYYY-MM-DD date or "yyyy-MM-dd HH:mm:ss" datetime by whole days, keeping the time. */
+export function shiftDays(value: string, days: number): string {
+  return formatDay(addDays(toDay(value), days)) + value.slice(10);
+}
+
+/** ISO weekday of a YYYY-MM-DD date or datetime: 1 for Monday through 7 for Sunday. */
+export function isoWeekday(value: string): number {
+  return ((weekday(toDay(value)) + 6) % 7) + 1;
+}
+
+export interface IsoWeek {
+  /** ISO week label, e.g. "2026-W42". */
+  week: string;
+  /** Monday, YYYY-MM-DD. */
+  from: string;
+  /** Sunday, YYYY-MM-DD. */
+  to: string;
+  /** Monday through Sunday, YYYY-MM-DD. */
+  days: string[];
+}
+
+function isoWeekOf(monday: Day): IsoWeek {
+  const thursday = addDays(monday, 3);
+  const jan1 = Date.UTC(thursday.y, 0, 1);
+  const number = Math.floor((Date.UTC(thursday.y, thursday.m - 1, thursday.d) - jan1) / 86_400_000 / 7) + 1;
+  const days = Array.from({ length: 7 }, (_, i) => formatDay(addDays(monday, i)));
+  return { week: `${thursday.y}-W${pad(number)}`, from: days[0], to: days[6], days };
+}
+
+/**
+ * Parse a week parameter: an ISO week ("2026-W42"), or any date expression
+ * ("this week", "last week", "2026-10-14"), meaning the week containing it.
+ */
+export function parseWeek(input: string, options: DateOptions = {}): IsoWeek {
+  const { timeZone, now } = resolveOptions(options);
+  const text = normalizeInput(input);
+  const iso = /^(\d{4})-?w(\d{2})$/.exec(text);
+  if (iso) {
+    const week = Number(iso[2]);
+    const monday = addDays(startOfWeek({ y: Number(iso[1]), m: 1, d: 4 }), (week - 1) * 7);
+    const parsed = isoWeekOf(monday);
+    if (week < 1 || parsed.week !== `${iso[1]}-W${iso[2]}`) {
+      throw new DateParseError(`Invalid ISO week "${input}": ${iso[1]} has no week ${iso[2]}.`);
+    }
+    return parsed;
+  }
+  const datetime = /^(\d{4}-\d{2}-\d{2}) \d{2}:\d{2}(?::\d{2})?$/.exec(text);
+  const day = parseDay(datetime ? datetime[1] : text, "start", timeZone, now);
+  if (!day) throw new DateParseError(`Invalid week "${input}". Use an ISO week like 2026-W42, or a date in the week such as this week, last week or 2026-10-14.`);
+  return isoWeekOf(startOfWeek(day));
+}
+
+const TIME = /^(\d{1,2})(?::(\d{2}))?(?::(\d{2}))?\s*(am|pm)?$/;
+
+function parseTime(text: string): { H: number; M: number; S: number } | undefined {
+  const match = TIME.exec(text);
+  if (!match || (match[2] === undefined && !match[4])) return undefined;
+  let H = Number(match[1]);
+  const M = Number(match[2] ?? 0);
+  const S = Number(match[3] ?? 0);
+  if (match[4]) {
+    if (H < 1 || H > 12) return undefined;
+    H = (H % 12) + (match[4] === "pm" ? 12 : 0);
+  }
+  if (H > 23 || M > 59 || S > 59) return undefined;
+  return { H, M, S };
+}
+
+/** Parse a time of day ("09:00", "5:30pm") into seconds after midnight; `name` labels errors. */
+export function parseTimeOfDay(input: string, name = "time"): number {
+  const time = parseTime(normalizeInput(input));
+  if (!time) throw new DateParseError(`Invalid ${name} "${input}". Use HH:MM, e.g. 09:00`);
+  return time.H * 3600 + time.M * 60 + time.S;
+}
+
+/** "yyyy-MM-dd HH:mm:ss" for `seconds` after midnight on a YYYY-MM-DD date. */
+export function atTimeOfDay(date: string, seconds: number): string {
+  return formatWall({ ...toDay(date), H: Math.floor(seconds / 3600), M: Math.floor(seconds / 60) % 60, S: seconds % 60 });
+}
+
+/**
+ * Parse a datetime parameter into "yyyy-MM-dd HH:mm:ss" wall-clock time in
+ * the configured timezone. A date without a time means its start, or
+ * 23:59:59 when `edge` is "end".
+ */
+export function parseDateTime(input: string, edge: Edge = "start", options: DateOptions = {}): string {
+  const { timeZone, now } = resolveOptions(options);
+  const text = normalizeInput(input);
+  const fail = () => new DateParseError(`Invalid datetime "${input}". ${DATETIME_HINT}`);
+
+  if (text === "now") return formatWall(wallClock(now, timeZone));
+
+  const ago = /^(\d+) (second|minute|hour|day|week)s? ago$/.exec(text);
+  if (ago) return formatWall(wallClock(new Date(now.getTime() - Number(ago[1]) * UNIT_MS[ago[2]]), timeZone));
+
+  const instant = parseInstant(text);
+  if (instant) return formatWall(wallClock(instant, timeZone));
+
+  // "<date> <time>", "<date> at <time>", or a bare time meaning today.
+  const split = /^(?:(.*?) (?:at )?)?(\d{1,2}(?::\d{2}){0,2}\s*(?:am|pm)?)$/.exec(text);
+  if (split) {
+    const time = parseTime(split[2]);
+    if (time) {
+      const day = parseDay(split[1] ?? "today", "start", timeZone, now);
+      if (!day) throw fail();
+      return formatWall({ ...day, ...time });
+    }
+  }
+  const literal = /^(\d{4}-\d{2}-\d{2})t(\d{2}:\d{2}(?::\d{2})?)$/.exec(text);
+  if (literal) return parseDateTime(`${literal[1]} ${literal[2]}`, edge, options);
+
+  const day = parseDay(text, edge, timeZone, now);
+  if (!day) throw fail();
+  return formatWall(edge === "start" ? { ...day, H: 0, M: 0, S: 0 } : { ...day, H: 23, M: 59, S: 59 });
+}
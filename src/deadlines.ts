@@ -0,0 +1,87 @@
+import { daysBetween, isoWeekday, shiftDays } from "./dates.js";
+
+/**
+ * Task deadlines: open tasks bucketed by due date relative to today
+ * (overdue, today, the rest of this ISO week, later, no date) with their
+ * tracked time against the estimate.
+ */
+
+export interface DeadlineTask {
+  task_id: number;
+  task: string | null;
+  project_id: number | null;
+  project: string | null;
+  customer: string | null;
+  service: string | null;
+  assignees: { id: number; name: string | null }[];
+  due_date: string | null;
+  /** Negative when overdue; null without a due date. */
+  days_until_due: number | null;
+  estimated_hours: number | null;
+  tracked_hours: number;
+  remaining_hours: number | null;
+  percent_of_estimate: number | null;
+  over_estimate: boolean;
+}
+
+export type DeadlineSort = "urgency" | "project";
+
+export interface DeadlineBuckets {
+  overdue: DeadlineTask[];
+  due_today: DeadlineTask[];
+  due_this_week: DeadlineTask[];
+  due_later: DeadlineTask[];
+  no_due_date: DeadlineTask[];
+}
+
+const twoDecimals = (value: number) => Math.round(value * 100) / 100;
+
+/** Fill in the derived fields of a task from its due date, estimate (hours) and tracked seconds. */
+export function deadlineTask(
+  task: Omit<DeadlineTask, "days_until_due" | "estimated_hours" | "tracked_hours" | "remaining_hours" | "percent_of_estimate" | "over_estimate">,
+  estimatedHours: number,
+  trackedSeconds: number,
+  today: string,
+): DeadlineTask {
+  const tracked = twoDecimals(trackedSeconds / 3600);
+  const estimate = estimatedHours > 0 ? estimatedHours : null;
+  return {
+    ...task,
+    days_until_due: task.due_date === null ? null : daysBetween(today, task.due_date),
+    estimated_hours: estimate,
+    tracked_hours: tracked,
+    remaining_hours: estimate === null ? null : twoDecimals(estimate - tracked),
+    percent_of_estimate: estimate === null ? null : Math.round((tracked / estimate) * 1000) / 10,
+    over_estimate: estimate !== null && tracked > estimate,
+  };
+}
+
+/**
+ * Most urgent first: earliest due date, then the most work left (tasks
+ * without an estimate after those with one), then name.
+ */
+function byUrgency(a: DeadlineTask, b: DeadlineTask): number {
+  return (
+    (a.due_date ?? "9999").localeCompare(b.due_date ?? "9999") ||
+    (b.remaining_hours ?? -Infinity) - (a.remaining_hours ?? -Infinity) ||
+    String(a.task ?? "").localeCompare(String(b.task ?? ""))
+  );
+}
+
+function byProject(a: DeadlineTask, b: DeadlineTask): number {
+  return String(a.project ?? "").localeCompare(String(b.project ?? "")) || byUrgency(a, b);
+}
+
+export function bucketByDeadline(tasks: DeadlineTask[], today: string, sort: DeadlineSort = "urgency"): DeadlineBuckets {
+  const weekEnd = shiftDays(today, 7 - isoWeekday(today));
+  const buckets: DeadlineBuckets = { overdue: [], due_today: [], due_this_week: [], due_later: [], no_due_date: [] };
+  for (const task of tasks) {
+    if (task.due_date === null) buckets.no_due_date.push(task);
+    else if (task.due_date < today) buckets.overdue.push(task);
+    else if (task.due_date === today) buckets.due_today.push(task);
+    else if (task.due_date <= weekEnd) buckets.due_this_week.push(task);
+    else buckets.due_later.push(task);
+  }
+  for (const list of Object.values(buckets)) list.sort(sort === "project" ? byProject : byUrgency);
+  return buckets;
+}
@@ -0,0 +1,104 @@
+import { bucketByDeadline, deadlineTask } from "./deadlines.js";
+import type { DeadlineBuckets } from "./deadlines.js";
+import type { TimeEntry } from "./events.js";
+
+/**
+ * Daily digest pieces: a day's entries summed per task with their notes, and
+ * a user's open tasks that are due today or overdue. Kept small on purpose:
+ * notes are de-duplicated and clipped so a digest fits in a prompt.
+ */
+
+const NOTE_LIMIT = 200;
+
+export interface DigestTask {
+  task_id: number | null;
+  task: string | null;
+  project: string | null;
+  entries: number;
+  hours: number;
+  notes: string[];
+}
+
+/** A task row from /users/{id}/tasks, or a project group of them. */
+export interface UserTaskRow {
+  id?: number;
+  name?: string | null;
+  status?: string;
+  project_id?: number | null;
+  project?: string | null;
+  customer?: string | null;
+  service?: string | null;
+  due_date?: string | null;
+  estimated_time?: number | null;
+  accumulated_time?: number | null;
+  users?: { id: number; name?: string | null; surname?: string | null }[];
+  tasks?: UserTaskRow[];
+}
+
+const twoDecimals = (value: number) => Math.round(value * 100) / 100;
+const clip = (text: string) => (text.length > NOTE_LIMIT ? `${text.slice(0, NOTE_LIMIT - 1)}…` : text);
+
+/** A day's entries per task, most time first. */
+export function summarizeDay(entries: TimeEntry[]): { total_hours: number; tasks: DigestTask[] } {
+  const tasks = new Map<string, DigestTask & { seconds: number }>();
+  for (const entry of entries) {
+    const key = String(entry.task_id ?? `project:${entry.project_id ?? ""}`);
+    const task: DigestTask & { seconds: number } = tasks.get(key) ?? {
+      task_id: entry.task_id ?? null,
+      task: entry.task ?? null,
+      project: entry.project ?? null,
+      entries: 0,
+      hours: 0,
+      notes: [],
+      seconds: 0,
+    };
+    task.entries++;
+    task.seconds += Number(entry.duration) || 0;
+    const note = clip(String(entry.notes ?? "").replace(/\s+/g, " ").trim());
+    if (note && !task.notes.includes(note)) task.notes.push(note);
+    tasks.set(key, task);
+  }
+  const list = [...tasks.values()]
+    .map(({ seconds, ...task }) => ({ ...task, hours: twoDecimals(seconds / 3600) }))
+    .sort((a, b) => b.hours - a.hours);
+  return { total_hours: twoDecimals(list.reduce((sum, t) => sum + t.hours, 0)), tasks: list };
+}
+
+/**
+ * The open tasks from /users/{id}/tasks that are overdue or due today, in the
+ * deadline buckets tt_list_due_tasks uses. The endpoint groups tasks under
+ * their project; flat lists work too.
+ */
+export function dueTasks(rows: UserTaskRow[], today: string): Pick<DeadlineBuckets, "overdue" | "due_today"> {
+  const tasks = rows.flatMap((row) =>
+    Array.isArray(row.tasks)
+      ? row.tasks.map((task) => ({ project_id: row.project_id, project: row.project, ...task }))
+      : [row],
+  );
+  const { overdue, due_today } = bucketByDeadline(
+    tasks
+      .filter((t) => t.id !== undefined && t.due_date && t.status !== "CLOSED")
+      .map((t) =>
+        deadlineTask(
+          {
+            task_id: Number(t.id),
+            task: t.name ?? null,
+            project_id: t.project_id ?? null,
+            project: t.project ?? null,
+            customer: t.customer ?? null,
+            service: t.service ?? null,
+            assignees: (t.users ?? []).map((u) => ({
+              id: u.id,
+              name: [u.name, u.surname].filter(Boolean).join(" ") || null,
+            })),
+            due_date: String(t.due_date).slice(0, 10),
+          },
+          Number(t.estimated_time) || 0,
+          Number(t.accumulated_time) || 0,
+          today,
+        ),
+      ),
+    today,
+  );
+  return { overdue, due_today };
+}
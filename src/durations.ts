@@ -0,0 +1,103 @@
+import { z } from "zod";
+
+/**
+ * TrackingTime mixes units: `duration` and `accumulated_time` (and the
+ * `elapsed` time of running timers and the rounded durations we report) are
+ * seconds, `estimated_time` and `worked_hours` are hours. Duration
+ * parameters accept either a number in the parameter's own unit or a string
+ * with explicit units ("1h30m", "90m", "1.5h", "1:30"), and tool output gets
+ * HH:MM and decimal-hour companions next to every such field.
+ */
+
+export class DurationParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DurationParseError";
+  }
+}
+
+export type DurationUnit = "seconds" | "hours";
+
+const SECONDS_FIELDS = new Set(["duration", "accumulated_time", "elapsed", "rounded_duration", "original_duration"]);
+const HOURS_FIELDS = new Set(["estimated_time", "worked_hours"]);
+
+const UNIT_SECONDS: Record<string, number> = { h: 3600, m: 60, s: 1 };
+const UNIT_ALIASES: Record<string, string> = {
+  h: "h", hr: "h", hrs: "h", hour: "h", hours: "h",
+  m: "m", min: "m", mins: "m", minute: "m", minutes: "m",
+  s: "s", sec: "s", secs: "s", second: "s", seconds: "s",
+};
+
+/** Schema for duration parameters: a number in the parameter's unit, or a string with units. */
+export function durationParam() {
+  return z.union([z.number().nonnegative(), z.string().min(1)]);
+}
+
+function toSeconds(text: string, unit: DurationUnit): number | undefined {
+  const s = text.trim().toLowerCase();
+  if (/^\d+(\.\d+)?$/.test(s)) return Number(s) * (unit === "hours" ? 3600 : 1);
+
+  const clock = /^(\d+):([0-5]\d)(?::([0-5]\d))?$/.exec(s);
+  if (clock) return Number(clock[1]) * 3600 + Number(clock[2]) * 60 + Number(clock[3] ?? 0);
+
+  const part = /(\d+(?:\.\d+)?)\s*([a-z]+)\s*(?:and\s*)?/y;
+  let total = 0;
+  let matched = false;
+  part.lastIndex = 0;
+  while (part.lastIndex < s.length) {
+    const m = part.exec(s);
+    const canonical = m && UNIT_ALIASES[m[2]];
+    if (!canonical) return undefined;
+    total += Number(m[1]) * UNIT_SECONDS[canonical];
+    matched = true;
+  }
+  return matched ? total : undefined;
+}
+
+/** Whole seconds for a duration parameter whose plain numbers are in `unit`. */
+export function durationSeconds(value: number | string, unit: DurationUnit): number {
+  const seconds = typeof value === "number" ? value * (unit === "hours" ? 3600 : 1) : toSeconds(value, unit);
+  if (seconds === undefined || !Number.isFinite(seconds) || seconds < 0) {
+    throw new DurationParseError(
+      `Invalid duration "${value}". Use a number of ${unit} or a string like 1h30m, 90m, 1.5h or 1:30.`,
+    );
+  }
+  return Math.round(seconds);
+}
+
+/**
+ * Convert a duration parameter to `unit`: seconds are rounded to whole
+ * seconds, hours to two decimals.
+ */
+export function parseDuration(value: number | string, unit: DurationUnit): number {
+  const seconds = durationSeconds(value, unit);
+  return unit === "seconds" ? seconds : Math.round((seconds / 3600) * 100) / 100;
+}
+
+/** Format seconds as H:MM (hours can exceed 24), rounded to the nearest minute. */
+export function formatHoursMinutes(seconds: number): string {
+  const minutes = Math.round(Math.abs(seconds) / 60);
+  const sign = seconds < 0 && minutes > 0 ? "-" : "";
+  return `${sign}${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Return a copy of `data` where every numeric seconds field gets `_hhmm`
+ * and `_hours` companions and every hours field gets an `_hhmm` companion.
+ */
+export function withDurationCompanions(data: unknown): unknown {
+  if (Array.isArray(data)) return data.map(withDurationCompanions);
+  if (data === null || typeof data !== "object") return data;
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    out[key] = withDurationCompanions(value);
+    if (typeof value !== "number") continue;
+    if (SECONDS_FIELDS.has(key)) {
+      out[`${key}_hhmm`] = formatHoursMinutes(value);
+      out[`${key}_hours`] = Math.round((value / 3600) * 100) / 100;
+    } else if (HOURS_FIELDS.has(key)) {
+      out[`${key}_hhmm`] = formatHoursMinutes(value * 3600);
+    }
+  }
+  return out;
+}
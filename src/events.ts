@@ -0,0 +1,192 @@
+import { apiRequest } from "./api-client.js";
+import { withRoundedDuration } from "./rounding.js";
+import type { RoundingConfig } from "./rounding.js";
+
+/** A TrackingTime time entry ("event") as returned by GET /events. */
+export interface TimeEntry {
+  id: number;
+  duration: number;
+  start: string;
+  end?: string | null;
+  notes?: string | null;
+  billed?: boolean;
+  user_id?: number;
+  user?: string | null;
+  task_id?: number | null;
+  task?: string | null;
+  project_id?: number | null;
+  project?: string | null;
+  customer_id?: number | null;
+  customer?: string | null;
+  service_id?: number | null;
+  service?: string | null;
+  tags?: { name?: unknown; value?: unknown }[] | null;
+  [field: string]: unknown;
+}
+
+/** An entry whose timer has stopped, so it has an `end`. */
+export type FinishedEntry = TimeEntry & { end: string };
+
+export function isFinished(entry: TimeEntry): entry is FinishedEntry {
+  return typeof entry.end === "string" && entry.end !== "";
+}
+
+export type EventFilter = "USER" | "CUSTOMER" | "PROJECT" | "COMPANY" | "TASK";
+
+export interface EventQuery {
+  filter: EventFilter;
+  id?: number;
+  from: string;
+  to: string;
+  order?: "asc" | "desc";
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+
+function queryParams(query: EventQuery): Record<string, string> {
+  const params: Record<string, string> = { filter: query.filter, from: query.from, to: query.to };
+  if (query.id !== undefined) params.id = String(query.id);
+  if (query.order) params.order = query.order;
+  return params;
+}
+
+export async function countEvents(query: EventQuery): Promise<number> {
+  const { order: _order, ...rest } = query;
+  const result = (await apiRequest("GET", "/events/count", queryParams(rest))) as { count?: number } | null;
+  return Number(result?.count ?? 0);
+}
+
+export interface PageWalk {
+  expected: number;
+  fetched: number;
+  pages: number;
+  duplicates_skipped: number;
+}
+
+/**
+ * Walk every page of GET /events for `query`, calling `onEntry` once per
+ * distinct event ID. Stops on a short page, or on a page that adds nothing
+ * new (an API that ignores `page` would otherwise loop forever).
+ */
+export async function walkEvents(
+  query: EventQuery,
+  onEntry: (entry: TimeEntry) => void,
+  pageSize = DEFAULT_PAGE_SIZE,
+): Promise<PageWalk> {
+  const expected = await countEvents(query);
+  const seen = new Set<number>();
+  let pages = 0;
+  let duplicates = 0;
+  for (let page = 0; ; page++) {
+    const params = { ...queryParams(query), page: String(page), page_size: String(pageSize) };
+    const rows = await apiRequest("GET", "/events", params);
+    pages++;
+    const entries = Array.isArray(rows) ? (rows as TimeEntry[]) : [];
+    let added = 0;
+    for (const entry of entries) {
+      if (seen.has(entry.id)) {
+        duplicates++;
+        continue;
+      }
+      seen.add(entry.id);
+      added++;
+      onEntry(entry);
+    }
+    if (entries.length < pageSize || added === 0) break;
+  }
+  return { expected, fetched: seen.size, pages, duplicates_skipped: duplicates };
+}
+
+/** Fetch every page of GET /events for `query`, de-duplicated by ID. */
+export async function fetchAllEvents(
+  query: EventQuery,
+  pageSize?: number,
+): Promise<PageWalk & { entries: TimeEntry[] }> {
+  const entries: TimeEntry[] = [];
+  const walk = await walkEvents(query, (entry) => entries.push(entry), pageSize);
+  return { ...walk, entries };
+}
+
+interface Bucket {
+  entries: number;
+  duration: number;
+  [label: string]: unknown;
+}
+
+/**
+ * Running totals by user, project, task and day, fed one entry at a time.
+ * With rounding policies, every total also gets a `rounded_duration`.
+ */
+export class EventAggregator {
+  private total: Bucket = { entries: 0, duration: 0 };
+  private users = new Map<string, Bucket>();
+  private projects = new Map<string, Bucket>();
+  private tasks = new Map<string, Bucket>();
+  private days = new Map<string, Bucket>();
+
+  constructor(private rounding?: RoundingConfig) {
+    if (rounding) this.total.rounded_duration = 0;
+  }
+
+  add(entry: TimeEntry): void {
+    const duration = Number(entry.duration) || 0;
+    const rounded = this.rounding ? withRoundedDuration(entry, this.rounding).rounded_duration : undefined;
+    this.count(this.total, duration, rounded);
+    this.bump(
+      this.users,
+      entry.user_id,
+      () => ({ user_id: entry.user_id ?? null, user: entry.user ?? null }),
+      duration,
+      rounded,
+    );
+    this.bump(
+      this.projects,
+      entry.project_id,
+      () => ({ project_id: entry.project_id ?? null, project: entry.project ?? null, customer: entry.customer ?? null }),
+      duration,
+      rounded,
+    );
+    this.bump(
+      this.tasks,
+      entry.task_id,
+      () => ({ task_id: entry.task_id ?? null, task: entry.task ?? null, project: entry.project ?? null }),
+      duration,
+      rounded,
+    );
+    const day = String(entry.start).slice(0, 10);
+    this.bump(this.days, day, () => ({ date: day }), duration, rounded);
+  }
+
+  result() {
+    const byDuration = (a: Bucket, b: Bucket) => b.duration - a.duration;
+    return {
+      total: this.total,
+      by_user: [...this.users.values()].sort(byDuration),
+      by_project: [...this.projects.values()].sort(byDuration),
+      by_task: [...this.tasks.values()].sort(byDuration),
+      by_day: [...this.days.values()].sort((a, b) => String(a.date).localeCompare(String(b.date))),
+    };
+  }
+
+  private bump(
+    map: Map<string, Bucket>,
+    key: unknown,
+    labels: () => Record<string, unknown>,
+    duration: number,
+    rounded: number | undefined,
+  ) {
+    const k = String(key ?? "none");
+    let bucket = map.get(k);
+    if (!bucket) {
+      bucket = { ...labels(), entries: 0, duration: 0, ...(rounded !== undefined && { rounded_duration: 0 }) };
+      map.set(k, bucket);
+    }
+    this.count(bucket, duration, rounded);
+  }
+
+  private count(bucket: Bucket, duration: number, rounded: number | undefined) {
+    bucket.entries++;
+    bucket.duration += duration;
+    if (rounded !== undefined) bucket.rounded_duration = Number(bucket.rounded_duration) + rounded;
+  }
+}
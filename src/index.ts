@@ -1,15 +1,17 @@
 #!/usr/bin/env node
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { registerTools } from "./tools.js";
+import { registerTools } from "./tools/index.js";
+import { loadRegisterOptions } from "./registration.js";
 
 const server = new McpServer({
   name: "trackingtime-mcp-server",
   version: "1.0.0",
 });
 
-registerTools(server);
+const options = loadRegisterOptions();
+registerTools(server, options);
 
 const transport = new StdioServerTransport();
 await server.connect(transport);
-console.error("TrackingTime MCP server running via stdio");
+console.error(`TrackingTime MCP server running via stdio (mode: ${options.mode})`);
@@ -0,0 +1,273 @@
+import { randomBytes } from "node:crypto";
+import type { TimeEntry } from "./events.js";
+import { policyFor, roundDuration } from "./rounding.js";
+import type { RoundingConfig } from "./rounding.js";
+import { settingFor } from "./settings.js";
+import type { Settings } from "./settings.js";
+
+/**
+ * Invoice drafts: a customer's unbilled time entries grouped into
+ * project × service × task lines, priced with hourly rates from the local
+ * settings file or TrackingTime's project billing data. A draft remembers
+ * the event IDs it covers so finalizing bills exactly those.
+ */
+
+export type RateTable = NonNullable<Settings["rates"]>;
+
+export type RateSource = "project" | "service" | "customer" | "billing" | "default";
+
+export interface InvoiceLine {
+  project_id: number | null;
+  project: string | null;
+  service_id: number | null;
+  service: string | null;
+  task_id: number | null;
+  task: string | null;
+  entries: number;
+  hours: number;
+  /** Hours after rounding policies; equal to `hours` without them. */
+  billable_hours: number;
+  rate: number | null;
+  rate_source: RateSource | null;
+  amount: number | null;
+  event_ids: number[];
+}
+
+export interface InvoiceSubtotal {
+  project_id: number | null;
+  project: string | null;
+  hours: number;
+  billable_hours: number;
+  amount: number;
+}
+
+export interface InvoiceDraft {
+  draft_id: string;
+  customer_id: number;
+  customer: string | null;
+  from: string;
+  to: string;
+  currency: string | null;
+  lines: InvoiceLine[];
+  subtotals: InvoiceSubtotal[];
+  totals: { entries: number; hours: number; billable_hours: number; amount: number };
+  /** Lines without a rate, left out of the amounts. */
+  missing_rates: string[];
+  event_ids: number[];
+}
+
+/** The fields of an entry (or a project) that pick its rate. */
+type RateSubject = Pick<TimeEntry, "project_id" | "project" | "service_id" | "service" | "customer_id" | "customer">;
+
+const twoDecimals = (value: number) => Math.round(value * 100) / 100;
+const toHours = (seconds: number) => twoDecimals(seconds / 3600);
+
+/**
+ * The hourly rate for an entry (or anything with its project, service and
+ * customer fields): the local table's project, service or customer rate,
+ * else the project's rate from TrackingTime (`billingRates`, by project
+ * ID), else the local default.
+ */
+export function rateFor(
+  entry: RateSubject,
+  rates: RateTable,
+  billingRates: Map<number, number | null>,
+): { rate: number; source: RateSource } | undefined {
+  const candidates: [RateSource, number | undefined][] = [
+    ["project", settingFor(rates.projects, entry.project_id, entry.project)],
+    ["service", settingFor(rates.services, entry.service_id, entry.service)],
+    ["customer", settingFor(rates.customers, entry.customer_id, entry.customer)],
+    ["billing", entry.project_id == null ? undefined : (billingRates.get(entry.project_id) ?? undefined)],
+    ["default", rates.default],
+  ];
+  const found = candidates.find(([, rate]) => rate !== undefined);
+  return found && { rate: found[1] as number, source: found[0] };
+}
+
+const label = (line: Pick<InvoiceLine, "project" | "service" | "task">) =>
+  [line.project ?? "No project", line.service, line.task ?? "No task"].filter(Boolean).join(" / ");
+
+/**
+ * Build a draft from `entries`, which should be the customer's finished,
+ * unbilled entries. Lines are sorted by project, then task.
+ */
+export function buildInvoice(
+  entries: TimeEntry[],
+  customer: { id: number; name: string | null },
+  range: { from: string; to: string },
+  rates: RateTable,
+  billingRates: Map<number, number | null>,
+  rounding?: RoundingConfig,
+): InvoiceDraft {
+  const groups = new Map<string, { line: InvoiceLine; seconds: number; billable: number }>();
+  for (const entry of entries) {
+    const key = `${entry.project_id ?? ""}:${entry.service_id ?? ""}:${entry.task_id ?? ""}`;
+    let group = groups.get(key);
+    if (!group) {
+      const rate = rateFor(entry, rates, billingRates);
+      group = {
+        line: {
+          project_id: entry.project_id ?? null,
+          project: entry.project ?? null,
+          service_id: entry.service_id ?? null,
+          service: entry.service ?? null,
+          task_id: entry.task_id ?? null,
+          task: entry.task ?? null,
+          entries: 0,
+          hours: 0,
+          billable_hours: 0,
+          rate: rate?.rate ?? null,
+          rate_source: rate?.source ?? null,
+          amount: null,
+          event_ids: [],
+        },
+        seconds: 0,
+        billable: 0,
+      };
+      groups.set(key, group);
+    }
+    const duration = Number(entry.duration) || 0;
+    const policy = rounding && policyFor(rounding, entry);
+    group.seconds += duration;
+    group.billable += policy ? roundDuration(duration, policy) : duration;
+    group.line.entries++;
+    group.line.event_ids.push(entry.id);
+  }
+
+  const lines = [...groups.values()]
+    .map(({ line, seconds, billable }) => {
+      const billableHours = toHours(billable);
+      return {
+        ...line,
+        hours: toHours(seconds),
+        billable_hours: billableHours,
+        amount: line.rate === null ? null : twoDecimals(billableHours * line.rate),
+      };
+    })
+    .sort(
+      (a, b) =>
+        String(a.project ?? "").localeCompare(String(b.project ?? "")) ||
+        String(a.task ?? "").localeCompare(String(b.task ?? "")),
+    );
+
+  const subtotals = new Map<string, InvoiceSubtotal>();
+  for (const line of lines) {
+    const key = String(line.project_id ?? "");
+    const subtotal = subtotals.get(key) ?? {
+      project_id: line.project_id,
+      project: line.project,
+      hours: 0,
+      billable_hours: 0,
+      amount: 0,
+    };
+    subtotal.hours = twoDecimals(subtotal.hours + line.hours);
+    subtotal.billable_hours = twoDecimals(subtotal.billable_hours + line.billable_hours);
+    subtotal.amount = twoDecimals(subtotal.amount + (line.amount ?? 0));
+    subtotals.set(key, subtotal);
+  }
+
+  const sum = (pick: (line: InvoiceLine) => number) =>
+    twoDecimals(lines.reduce((total, line) => total + pick(line), 0));
+  return {
+    draft_id: randomBytes(4).toString("hex"),
+    customer_id: customer.id,
+    customer: customer.name,
+    from: range.from,
+    to: range.to,
+    currency: rates.currency ?? null,
+    lines,
+    subtotals: [...subtotals.values()],
+    totals: {
+      entries: sum((l) => l.entries),
+      hours: sum((l) => l.hours),
+      billable_hours: sum((l) => l.billable_hours),
+      amount: sum((l) => l.amount ?? 0),
+    },
+    missing_rates: lines.filter((l) => l.rate === null).map(label),
+    event_ids: lines.flatMap((l) => l.event_ids).sort((a, b) => a - b),
+  };
+}
+
+const money = (amount: number | null) => (amount === null ? "—" : amount.toFixed(2));
+const escape = (text: string | null) => (text ?? "—").replace(/\|/g, "\\|");
+
+/** Render a draft as Markdown: a line-item table with project subtotals and a total. */
+export function renderInvoiceMarkdown(draft: InvoiceDraft): string {
+  const currency = draft.currency ? `${draft.currency} ` : "";
+  const lines = [
+    `## Invoice draft — ${draft.customer ?? `customer ${draft.customer_id}`}, ${draft.from} – ${draft.to}`,
+    "",
+    "| Project | Service | Task | Hours | Rate | Amount |",
+    "|---|---|---|---:|---:|---:|",
+  ];
+  for (const subtotal of draft.subtotals) {
+    for (const line of draft.lines.filter((l) => l.project_id === subtotal.project_id)) {
+      const cells = [escape(line.project), escape(line.service), escape(line.task)];
+      lines.push(`| ${cells.join(" | ")} | ${line.billable_hours.toFixed(2)} | ${money(line.rate)} | ${money(line.amount)} |`);
+    }
+    if (draft.subtotals.length > 1) {
+      lines.push(
+        `| **${escape(subtotal.project)} subtotal** | | | **${subtotal.billable_hours.toFixed(2)}** | | **${money(subtotal.amount)}** |`,
+      );
+    }
+  }
+  lines.push(
+    `| **Total** | | | **${draft.totals.billable_hours.toFixed(2)}** | | **${currency}${money(draft.totals.amount)}** |`,
+    "",
+    `Covers ${draft.event_ids.length} entries: ${draft.event_ids.join(", ") || "none"}.`,
+  );
+  if (draft.missing_rates.length) lines.push(`⚠ No rate for: ${draft.missing_rates.join("; ")}.`);
+  lines.push(`Draft ${draft.draft_id}: run tt_finalize_invoice to mark these entries billed.`);
+  return lines.join("\n");
+}
+
+function csvField(value: unknown, separator: string): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return text.includes(separator) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Render a draft's line items as CSV, one row per line plus a total row; event IDs are space-separated. */
+export function renderInvoiceCsv(draft: InvoiceDraft, separator = ","): string {
+  const header = ["project", "service", "task", "entries", "hours", "billable_hours", "rate", "amount", "event_ids"];
+  const rows = draft.lines.map((l) => [
+    l.project,
+    l.service,
+    l.task,
+    l.entries,
+    l.hours,
+    l.billable_hours,
+    l.rate,
+    l.amount,
+    l.event_ids.join(" "),
+  ]);
+  const { totals } = draft;
+  rows.push(["Total", null, null, totals.entries, totals.hours, totals.billable_hours, null, totals.amount, null]);
+  return [header, ...rows].map((row) => row.map((v) => csvField(v, separator)).join(separator)).join("\n") + "\n";
+}
+
+/** Drafts generated by this server process, kept until finalized. */
+export class InvoiceDrafts {
+  private drafts = new Map<string, InvoiceDraft & { finalized_at?: string }>();
+
+  add(draft: InvoiceDraft): void {
+    this.drafts.set(draft.draft_id, draft);
+  }
+
+  /** The draft to finalize; fails when it is unknown or already finalized. */
+  get(id: string): InvoiceDraft {
+    const draft = this.drafts.get(id);
+    if (!draft) {
+      throw new Error(
+        `Unknown invoice draft "${id}". Drafts are kept until the server restarts; ` +
+          "generate a new one with tt_generate_invoice_draft.",
+      );
+    }
+    if (draft.finalized_at) throw new Error(`Invoice draft "${id}" was already finalized at ${draft.finalized_at}.`);
+    return draft;
+  }
+
+  markFinalized(id: string, at: string): void {
+    const draft = this.drafts.get(id);
+    if (draft) draft.finalized_at = at;
+  }
+}
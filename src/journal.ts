@@ -0,0 +1,190 @@
+import { randomBytes } from "node:crypto";
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { rawShapeTool } from "./registration.js";
+import type { ToolHandler, ToolRegistrar } from "./registration.js";
+
+/** One API call that reverts (part of) a journaled operation. */
+export interface InverseCall {
+  method: string;
+  endpoint: string;
+  params?: Record<string, string>;
+  body?: unknown;
+}
+
+/**
+ * How to revert an operation. `approximate` explains what the inverse can't
+ * restore (e.g. a deleted entity comes back with a new ID); `irreversible`
+ * says why there is no inverse at all. No calls means the operation changed
+ * nothing (a preview or dry run), so it is not journaled.
+ */
+export type Inverse = { calls: InverseCall[]; approximate?: string } | { irreversible: string };
+
+export interface UndoSpec {
+  /** Fetch the entity as it is before the tool runs. */
+  snapshot?: (args: Record<string, unknown>) => Promise<unknown>;
+  /** Build the inverse from the tool's arguments, the snapshot and the tool's result data. */
+  inverse: (args: Record<string, unknown>, before: unknown, result: unknown) => Inverse;
+}
+
+export interface JournalEntry {
+  id: string;
+  at: string;
+  tool: string;
+  args: Record<string, unknown>;
+  before: unknown;
+  inverse: InverseCall[] | null;
+  approximate?: string;
+  irreversible?: string;
+  undone_at?: string;
+  /** Set when an undo failed partway: the leading inverse calls that already ran. */
+  partially_undone?: { at: string; calls_done: number; error: string };
+}
+
+interface UndoMarker {
+  undo: string;
+  at: string;
+}
+
+interface UndoProgress {
+  undo_progress: string;
+  at: string;
+  calls_done: number;
+  error: string;
+}
+
+/** Append-only JSON-lines log of mutating tool calls and the calls that revert them. */
+export class UndoJournal {
+  constructor(readonly path: string) {}
+
+  async record(entry: Omit<JournalEntry, "id" | "at">): Promise<JournalEntry> {
+    const full: JournalEntry = { id: randomBytes(4).toString("hex"), at: new Date().toISOString(), ...entry };
+    await this.append(full);
+    return full;
+  }
+
+  async markUndone(id: string): Promise<void> {
+    const marker: UndoMarker = { undo: id, at: new Date().toISOString() };
+    await this.append(marker);
+  }
+
+  /** Note that the first `callsDone` inverse calls of an entry ran before the undo failed. */
+  async markPartiallyUndone(id: string, callsDone: number, error: string): Promise<void> {
+    const progress: UndoProgress = { undo_progress: id, at: new Date().toISOString(), calls_done: callsDone, error };
+    await this.append(progress);
+  }
+
+  /**
+   * All recorded operations, oldest first, with `undone_at` set on reverted
+   * ones and `partially_undone` on ones whose undo stopped partway.
+   */
+  async entries(): Promise<JournalEntry[]> {
+    let text: string;
+    try {
+      text = await readFile(this.path, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw err;
+    }
+    const entries: JournalEntry[] = [];
+    const byId = new Map<string, JournalEntry>();
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      let parsed: JournalEntry | UndoMarker | UndoProgress;
+      try {
+        parsed = JSON.parse(line);
+      } catch {
+        continue; // a torn write from a crash; skip it rather than lose the rest
+      }
+      if ("undo" in parsed) {
+        const target = byId.get(parsed.undo);
+        if (target) target.undone_at = parsed.at;
+      } else if ("undo_progress" in parsed) {
+        const target = byId.get(parsed.undo_progress);
+        if (target) target.partially_undone = { at: parsed.at, calls_done: parsed.calls_done, error: parsed.error };
+      } else {
+        entries.push(parsed);
+        byId.set(parsed.id, parsed);
+      }
+    }
+    return entries;
+  }
+
+  private async append(line: JournalEntry | UndoMarker | UndoProgress): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    await appendFile(this.path, JSON.stringify(line) + "\n", "utf8");
+  }
+}
+
+function resultData(result: CallToolResult): unknown {
+  const text = result.content.find((c) => c.type === "text")?.text;
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Wrap a registrar so that every mutating tool (readOnlyHint not true)
+ * snapshots what it is about to change and, once it succeeds, records the
+ * inverse calls in the journal. Tools without a spec are journaled as
+ * irreversible so the log still shows what happened; calls with nothing to
+ * revert are not journaled.
+ */
+export function withJournal(
+  server: ToolRegistrar,
+  journal: UndoJournal,
+  specs: Record<string, UndoSpec>,
+): ToolRegistrar {
+  return {
+    registerTool(name, config, cb) {
+      if (config.annotations?.readOnlyHint === true) {
+        server.registerTool(name, config, cb);
+        return;
+      }
+      const spec = specs[name];
+      const tool = rawShapeTool(config, cb);
+
+      const handler: ToolHandler = async (args, extra) => {
+        let before: unknown = null;
+        let snapshotError: string | undefined;
+        if (spec?.snapshot) {
+          try {
+            before = await spec.snapshot(args);
+          } catch (err) {
+            snapshotError = err instanceof Error ? err.message : String(err);
+          }
+        }
+
+        const result = await tool.cb(args, extra);
+        if (result.isError) return result;
+
+        let inverse: Inverse;
+        if (!spec) inverse = { irreversible: "No inverse is known for this operation." };
+        else if (snapshotError) inverse = { irreversible: `Could not snapshot before the change: ${snapshotError}` };
+        else inverse = spec.inverse(args, before, resultData(result));
+        if ("calls" in inverse && inverse.calls.length === 0) return result;
+
+        try {
+          await journal.record({
+            tool: name,
+            args,
+            before,
+            ...("irreversible" in inverse
+              ? { inverse: null, irreversible: inverse.irreversible }
+              : { inverse: inverse.calls, approximate: inverse.approximate }),
+          });
+        } catch (err) {
+          // The change already happened; losing the journal line must not turn it into an error.
+          console.error(`Failed to write undo journal ${journal.path}:`, err);
+        }
+        return result;
+      };
+
+      server.registerTool(name, { ...config, inputSchema: tool.inputSchema }, handler);
+    },
+  };
+}
@@ -0,0 +1,229 @@
+import { homedir } from "node:os";
+import { join } from "node:path";
+import type { ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { AnySchema, ZodRawShapeCompat } from "@modelcontextprotocol/sdk/server/zod-compat.js";
+import type { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import type { ZodRawShape } from "zod";
+
+/**
+ * How much of the API the server exposes:
+ * - readonly: only tools annotated readOnlyHint: true
+ * - safe: everything except tools annotated destructiveHint: true
+ * - full: every tool (default)
+ */
+export type ToolMode = "readonly" | "safe" | "full";
+
+export const TOOL_MODES: readonly ToolMode[] = ["readonly", "safe", "full"];
+
+/** Named groups of tools that can be enabled independently. */
+export const TOOLSET_NAMES = [
+  "projects",
+  "tasks",
+  "timer",
+  "time_entries",
+  "timesheets",
+  "invoices",
+  "tags",
+  "users",
+  "groups",
+  "customers",
+  "services",
+  "teams",
+  "reports",
+  "notifications",
+  "webhooks",
+] as const;
+
+export type ToolsetName = (typeof TOOLSET_NAMES)[number];
+
+export interface RegisterOptions {
+  mode?: ToolMode;
+  /** Toolsets to register (default: all). */
+  toolsets?: ToolsetName[];
+  /** Tool-name globs; when set, only matching tools are registered. */
+  allow?: string[];
+  /** Tool-name globs that are never registered. Wins over allow. */
+  deny?: string[];
+  /** Require a preview-then-confirm round trip for destructive tools. */
+  confirmDestructive?: boolean;
+  /** JSON-lines file for the undo journal; unset disables journaling and tt_undo. */
+  journalPath?: string;
+}
+
+export const DEFAULT_JOURNAL_PATH = join(homedir(), ".trackingtime-mcp", "journal.jsonl");
+
+/**
+ * The part of McpServer that toolsets register against: its registerTool
+ * signature, minus the returned handle, so a wrapper can decline a tool
+ * without registering it.
+ */
+export interface ToolRegistrar {
+  registerTool<
+    OutputArgs extends ZodRawShapeCompat | AnySchema,
+    InputArgs extends undefined | ZodRawShapeCompat | AnySchema = undefined,
+  >(
+    name: string,
+    config: {
+      title?: string;
+      description?: string;
+      inputSchema?: InputArgs;
+      outputSchema?: OutputArgs;
+      annotations?: ToolAnnotations;
+      _meta?: Record<string, unknown>;
+    },
+    cb: ToolCallback<InputArgs>,
+  ): void;
+}
+
+/** A tool callback as the registration wrappers see it: arguments parsed from a raw Zod shape. */
+export type ToolHandler = ToolCallback<ZodRawShape>;
+
+/**
+ * A registered tool's input schema and callback in the wrappers' terms. The
+ * SDK types the callback by a generic schema the wrappers can't narrow; every
+ * tool here declares its `inputSchema` as a raw shape (possibly empty), so the
+ * SDK always calls it with (args, extra).
+ */
+export function rawShapeTool<Args extends undefined | ZodRawShapeCompat | AnySchema>(
+  config: { inputSchema?: Args },
+  cb: ToolCallback<Args>,
+): { inputSchema: ZodRawShape; cb: ToolHandler } {
+  return { inputSchema: config.inputSchema as ZodRawShape, cb: cb as ToolHandler };
+}
+
+export function parseMode(raw: string | undefined): ToolMode {
+  if (!raw) return "full";
+  const mode = raw.trim().toLowerCase();
+  if (!(TOOL_MODES as readonly string[]).includes(mode)) {
+    throw new Error(`Invalid TT_MODE "${raw}". Expected one of: ${TOOL_MODES.join(", ")}`);
+  }
+  return mode as ToolMode;
+}
+
+function parseList(raw: string | undefined): string[] | undefined {
+  if (raw === undefined) return undefined;
+  const items = raw.split(",").map((s) => s.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+export function parseToolsets(raw: string | undefined): ToolsetName[] | undefined {
+  const names = parseList(raw);
+  if (!names || names.includes("all")) return undefined;
+  for (const name of names) {
+    if (!(TOOLSET_NAMES as readonly string[]).includes(name)) {
+      throw new Error(
+        `Unknown toolset "${name}". Expected a comma-separated list of: all, ${TOOLSET_NAMES.join(", ")}`,
+      );
+    }
+  }
+  return names as ToolsetName[];
+}
+
+export function parseBoolean(name: string, raw: string | undefined): boolean {
+  if (raw === undefined || raw.trim() === "") return false;
+  const value = raw.trim().toLowerCase();
+  if (["1", "true", "yes", "on"].includes(value)) return true;
+  if (["0", "false", "no", "off"].includes(value)) return false;
+  throw new Error(`Invalid ${name} "${raw}". Expected true or false`);
+}
+
+/** "off" disables the journal; anything else is a file path, with a leading ~/ expanded. */
+export function parseJournalPath(raw: string | undefined): string | undefined {
+  const value = raw?.trim();
+  if (!value) return DEFAULT_JOURNAL_PATH;
+  if (value.toLowerCase() === "off") return undefined;
+  return value.startsWith("~/") ? join(homedir(), value.slice(2)) : value;
+}
+
+/** Read a `--name value` or `--name=value` flag from the command line. */
+function cliFlag(argv: string[], name: string): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === `--${name}`) return argv[i + 1];
+    if (argv[i].startsWith(`--${name}=`)) return argv[i].slice(name.length + 3);
+  }
+  return undefined;
+}
+
+/**
+ * Read a boolean `--name` flag: bare (last, or followed by another flag) means
+ * "true", otherwise its value is returned for parsing like the env var.
+ */
+function cliBooleanFlag(argv: string[], name: string): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === `--${name}`) {
+      const next = argv[i + 1];
+      return next === undefined || next.startsWith("--") ? "true" : next;
+    }
+    if (argv[i].startsWith(`--${name}=`)) return argv[i].slice(name.length + 3);
+  }
+  return undefined;
+}
+
+/**
+ * Build registration options from env vars, with matching CLI flags taking
+ * precedence: --mode (TT_MODE), --toolsets (TT_TOOLSETS), --allow
+ * (TT_TOOLS_ALLOW), --deny (TT_TOOLS_DENY), --confirm-destructive
+ * (TT_CONFIRM_DESTRUCTIVE; the bare flag means true, `--confirm-destructive
+ * false` turns it off) and --journal (TT_JOURNAL_PATH).
+ */
+export function loadRegisterOptions(
+  env: NodeJS.ProcessEnv = process.env,
+  argv: string[] = process.argv.slice(2),
+): RegisterOptions {
+  const confirmFlag = cliBooleanFlag(argv, "confirm-destructive");
+  return {
+    mode: parseMode(cliFlag(argv, "mode") ?? env.TT_MODE),
+    toolsets: parseToolsets(cliFlag(argv, "toolsets") ?? env.TT_TOOLSETS),
+    allow: parseList(cliFlag(argv, "allow") ?? env.TT_TOOLS_ALLOW),
+    deny: parseList(cliFlag(argv, "deny") ?? env.TT_TOOLS_DENY),
+    confirmDestructive:
+      confirmFlag === undefined
+        ? parseBoolean("TT_CONFIRM_DESTRUCTIVE", env.TT_CONFIRM_DESTRUCTIVE)
+        : parseBoolean("--confirm-destructive", confirmFlag),
+    journalPath: parseJournalPath(cliFlag(argv, "journal") ?? env.TT_JOURNAL_PATH),
+  };
+}
+
+export function isAllowedInMode(mode: ToolMode, annotations: ToolAnnotations = {}): boolean {
+  switch (mode) {
+    case "readonly":
+      return annotations.readOnlyHint === true;
+    case "safe":
+      return annotations.destructiveHint !== true;
+    case "full":
+      return true;
+  }
+}
+
+/** Match a tool name against a glob where `*` is any run of characters and `?` one character. */
+export function matchesGlob(name: string, glob: string): boolean {
+  const pattern = glob.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+  return new RegExp(`^${pattern}$`).test(name);
+}
+
+/** Combine the mode and allow/deny globs into a single registration check. */
+export function createToolFilter(options: RegisterOptions) {
+  const mode = options.mode ?? "full";
+  return (name: string, annotations?: ToolAnnotations): boolean => {
+    if (!isAllowedInMode(mode, annotations)) return false;
+    if (options.deny?.some((glob) => matchesGlob(name, glob))) return false;
+    if (options.allow && !options.allow.some((glob) => matchesGlob(name, glob))) return false;
+    return true;
+  };
+}
+
+/**
+ * Wrap a server so that tools rejected by `allow` are never registered. The
+ * decision uses each tool's own annotations, so tool definitions don't need
+ * to know which modes they belong to.
+ */
+export function gateRegistrations(
+  server: ToolRegistrar,
+  allow: (name: string, annotations?: ToolAnnotations) => boolean,
+): ToolRegistrar {
+  return {
+    registerTool(name, config, cb) {
+      if (allow(name, config.annotations)) server.registerTool(name, config, cb);
+    },
+  };
+}
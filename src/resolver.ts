@@ -0,0 +1,238 @@
+import { z } from "zod";
+import { apiRequest } from "./api-client.js";
+
+export type EntityKind = "project" | "task" | "user" | "customer" | "service" | "group";
+
+interface Candidate {
+  id: number;
+  name: string;
+  /** Other strings that identify the entity, e.g. a user's email or first name. */
+  aliases: string[];
+  status?: string;
+  /** Extra context shown in "did you mean" lists, e.g. a task's project. */
+  context?: string;
+  scope?: number | null;
+}
+
+type Row = Record<string, unknown>;
+
+const DIRECTORY_TTL_MS = 5 * 60 * 1000;
+const MAX_SUGGESTIONS = 8;
+
+/** A non-empty string field, or undefined for anything else. */
+function text(value: unknown): string | undefined {
+  return typeof value === "string" && value !== "" ? value : undefined;
+}
+
+function named(row: Row): Pick<Candidate, "id" | "name" | "status"> {
+  return { id: Number(row.id), name: text(row.name) ?? "", status: text(row.status) };
+}
+
+const SOURCES: Record<EntityKind, { endpoint: string; toCandidate: (row: Row) => Candidate }> = {
+  project: {
+    endpoint: "/projects",
+    toCandidate: (p) => ({ ...named(p), aliases: [], context: text(p.customer) }),
+  },
+  task: {
+    endpoint: "/tasks",
+    toCandidate: (t) => ({
+      ...named(t),
+      aliases: [],
+      context: text(t.project),
+      scope: typeof t.project_id === "number" ? t.project_id : null,
+    }),
+  },
+  user: {
+    endpoint: "/users",
+    toCandidate: (u) => ({
+      ...named(u),
+      name: [text(u.name), text(u.surname)].filter(Boolean).join(" "),
+      aliases: [text(u.email), text(u.name)].filter((alias) => alias !== undefined),
+    }),
+  },
+  customer: {
+    endpoint: "/customers",
+    toCandidate: (c) => ({ ...named(c), aliases: [] }),
+  },
+  service: {
+    endpoint: "/services",
+    toCandidate: (s) => ({ ...named(s), aliases: [] }),
+  },
+  group: {
+    endpoint: "/users/groups",
+    toCandidate: (g) => ({ ...named(g), aliases: [] }),
+  },
+};
+
+export class NameResolutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NameResolutionError";
+  }
+}
+
+/** Schema for parameters that take either a numeric ID or a name. */
+export function idOrName() {
+  return z.union([z.number(), z.string().min(1)]);
+}
+
+const directory = new Map<EntityKind, { fetchedAt: number; candidates: Candidate[] }>();
+
+/** Forget cached names, e.g. in tests or after bulk renames. */
+export function clearDirectory(): void {
+  directory.clear();
+}
+
+async function loadDirectory(kind: EntityKind, refresh: boolean): Promise<Candidate[]> {
+  const cached = directory.get(kind);
+  if (cached && !refresh && Date.now() - cached.fetchedAt < DIRECTORY_TTL_MS) return cached.candidates;
+  const rows = await apiRequest("GET", SOURCES[kind].endpoint, { filter: "ALL" });
+  const candidates = Array.isArray(rows) ? rows.map(SOURCES[kind].toCandidate) : [];
+  directory.set(kind, { fetchedAt: Date.now(), candidates });
+  return candidates;
+}
+
+function normalize(s: string): string {
+  return s
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}@.]+/gu, " ")
+    .trim();
+}
+
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+function keys(c: Candidate): string[] {
+  return [c.name, ...c.aliases].map(normalize);
+}
+
+/** Every query word starts some word of the key, e.g. "web red" → "website redesign". */
+function wordsMatch(query: string, key: string): boolean {
+  const words = key.split(" ");
+  return query.split(" ").every((q) => words.some((w) => w.startsWith(q)));
+}
+
+function describe(c: Candidate): string {
+  const extras = [`id ${c.id}`, c.context, c.status && c.status !== "ACTIVE" ? c.status : undefined];
+  return `"${c.name}" (${extras.filter(Boolean).join(", ")})`;
+}
+
+/**
+ * Find candidates for `query`, trying progressively looser rules and
+ * stopping at the first that matches anything: exact (case- and
+ * accent-insensitive), substring or word prefixes, then small typos.
+ */
+function match(candidates: Candidate[], query: string): Candidate[] {
+  const q = normalize(query);
+  const tiers: ((key: string) => boolean)[] = [
+    (key) => key === q,
+    (key) => key.includes(q) || wordsMatch(q, key),
+    (key) => editDistance(q, key) <= Math.max(1, Math.floor(q.length / 4)),
+  ];
+  for (const test of tiers) {
+    const found = candidates.filter((c) => keys(c).some(test));
+    if (found.length > 0) return found;
+  }
+  return [];
+}
+
+function closest(candidates: Candidate[], query: string): Candidate[] {
+  const q = normalize(query);
+  return candidates
+    .map((c) => ({ c, d: Math.min(...keys(c).map((k) => editDistance(q, k))) }))
+    .filter(({ d }) => d <= Math.ceil(q.length / 2))
+    .sort((a, b) => a.d - b.d)
+    .slice(0, 3)
+    .map(({ c }) => c);
+}
+
+export interface ResolveOptions {
+  /** Only consider tasks in this project. */
+  projectId?: number;
+}
+
+/**
+ * Turn an ID-or-name parameter into an ID. Numbers (and numeric strings)
+ * pass through untouched; names are looked up in a cached directory that is
+ * refreshed once on a miss. Never guesses: several equally good matches
+ * produce an error listing them.
+ */
+export async function resolveId(kind: EntityKind, value: number | string, options: ResolveOptions = {}): Promise<number> {
+  if (typeof value === "number") return value;
+  if (/^\d+$/.test(value.trim())) return Number(value.trim());
+
+  let found: Candidate[] = [];
+  let all: Candidate[] = [];
+  for (const refresh of [false, true]) {
+    all = await loadDirectory(kind, refresh);
+    if (options.projectId !== undefined) all = all.filter((c) => c.scope === options.projectId);
+    found = match(all, value);
+    if (found.length > 0) break;
+  }
+
+  if (found.length === 1) return found[0].id;
+  if (found.length > 1) {
+    const listed = found.slice(0, MAX_SUGGESTIONS).map(describe).join(", ");
+    const more = found.length > MAX_SUGGESTIONS ? ` and ${found.length - MAX_SUGGESTIONS} more` : "";
+    throw new NameResolutionError(
+      `Ambiguous ${kind} "${value}": did you mean ${listed}${more}? Pass the ID or a more specific name.`,
+    );
+  }
+  const suggestions = closest(all, value);
+  const hint = suggestions.length ? ` Did you mean ${suggestions.map(describe).join(", ")}?` : "";
+  throw new NameResolutionError(`No ${kind} matches "${value}".${hint}`);
+}
+
+/** Resolve an optional parameter, leaving undefined alone. */
+export async function resolveOptional(
+  kind: EntityKind,
+  value: number | string | undefined,
+  options?: ResolveOptions,
+): Promise<number | undefined> {
+  return value === undefined ? undefined : resolveId(kind, value, options);
+}
+
+const FILTER_KINDS: Record<string, EntityKind | undefined> = {
+  USER: "user",
+  PROJECT: "project",
+  TASK: "task",
+  CUSTOMER: "customer",
+};
+
+/** Resolve the `id` of a USER/PROJECT/TASK/CUSTOMER time-entry filter. */
+export async function resolveFilterId(
+  filter: string | undefined,
+  id: number | string | undefined,
+): Promise<number | undefined> {
+  if (id === undefined) return undefined;
+  const kind = filter ? FILTER_KINDS[filter] : undefined;
+  if (kind) return resolveId(kind, id);
+  if (typeof id === "string" && !/^\d+$/.test(id.trim())) {
+    throw new NameResolutionError(`A name can only be used as id with filter USER, PROJECT, TASK or CUSTOMER.`);
+  }
+  return Number(id);
+}
+
+/**
+ * The user the App Password belongs to, whose timer /tasks/track and
+ * /tasks/stop act on. The API has no lookup for it, so it comes from
+ * TT_USER_ID (an ID, email or name).
+ */
+export async function resolveSessionUser(): Promise<number> {
+  const configured = process.env.TT_USER_ID?.trim();
+  if (!configured) {
+    throw new Error("TT_USER_ID is not set. Set it to your TrackingTime user ID or email so timer tools know whose timer to use.");
+  }
+  return resolveId("user", configured);
+}
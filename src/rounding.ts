@@ -0,0 +1,146 @@
+import { durationSeconds } from "./durations.js";
+import type { TimeEntry } from "./events.js";
+import { loadSettings, settingFor } from "./settings.js";
+import type { RoundingPolicy, Settings } from "./settings.js";
+
+/**
+ * Billing rounding: durations rounded up, down or to the nearest increment
+ * with a minimum billable duration, per project or customer from the local
+ * settings file. Rounded values are reported next to the originals, never
+ * instead of them.
+ */
+
+export type RoundingConfig = NonNullable<Settings["rounding"]>;
+
+/** What a policy is chosen by: an entry's (or task's) project and customer. */
+export interface RoundingTarget {
+  project_id?: number | null;
+  project?: string | null;
+  customer_id?: number | null;
+  customer?: string | null;
+  [field: string]: unknown;
+}
+
+/** The configured rounding policies, or undefined when there are none. */
+export async function loadRounding(): Promise<RoundingConfig | undefined> {
+  const { rounding } = await loadSettings();
+  if (!rounding) return undefined;
+  const hasPolicy =
+    rounding.default !== undefined ||
+    Object.keys(rounding.customers ?? {}).length > 0 ||
+    Object.keys(rounding.projects ?? {}).length > 0;
+  return hasPolicy ? rounding : undefined;
+}
+
+/** The policy for `target`: its project's, else its customer's, else the default. */
+export function policyFor(config: RoundingConfig, target: RoundingTarget): RoundingPolicy | undefined {
+  return (
+    settingFor(config.projects, target.project_id, target.project) ??
+    settingFor(config.customers, target.customer_id, target.customer) ??
+    config.default
+  );
+}
+
+/** Round `seconds` under `policy`. Zero stays zero; anything else is at least the minimum. */
+export function roundDuration(seconds: number, policy: RoundingPolicy): number {
+  if (seconds <= 0) return 0;
+  const increment = policy.increment_minutes * 60;
+  const steps = seconds / increment;
+  const rounded =
+    policy.mode === "up" ? Math.ceil(steps) : policy.mode === "down" ? Math.floor(steps) : Math.round(steps);
+  return Math.max(Math.round(rounded * increment), Math.round((policy.minimum_minutes ?? 0) * 60));
+}
+
+/** `entry` with a `rounded_duration` field (its own duration when no policy applies). */
+export function withRoundedDuration<T extends TimeEntry>(
+  entry: T,
+  config: RoundingConfig,
+): T & { rounded_duration: number } {
+  const duration = Number(entry.duration) || 0;
+  const policy = policyFor(config, entry);
+  return { ...entry, rounded_duration: policy ? roundDuration(duration, policy) : duration };
+}
+
+// ── CSV exports ─────────────────────────────────────────────────────
+
+interface CsvRecord {
+  raw: string;
+  fields: string[];
+}
+
+/** Split CSV text into records, keeping each record's raw text; quoted fields may hold separators and newlines. */
+function csvRecords(text: string, separator: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch !== '"') field += ch;
+      else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else quoted = false;
+    } else if (ch === '"') quoted = true;
+    else if (ch === separator) {
+      fields.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      fields.push(field);
+      records.push({ raw: text.slice(start, i), fields });
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      fields = [];
+      field = "";
+      start = i + 1;
+    } else field += ch;
+  }
+  if (start < text.length) {
+    fields.push(field);
+    records.push({ raw: text.slice(start), fields });
+  }
+  return records;
+}
+
+/**
+ * Append `rounded_duration` (seconds) and `rounded_hours` columns to a
+ * /events/export CSV. Each row's policy comes from its event in `events`
+ * (matched by the id column) when available, else from its project and
+ * customer columns; the duration column may be seconds or H:MM.
+ */
+export function addRoundedColumns(
+  csv: string,
+  separator: string,
+  config: RoundingConfig,
+  events: Map<number, TimeEntry> = new Map(),
+): string {
+  const records = csvRecords(csv, separator);
+  if (!records.length) return csv;
+  const header = records[0].fields.map((f) => f.trim().toLowerCase());
+  const column = (name: string) => header.indexOf(name);
+  const [idCol, durationCol, projectCol, customerCol] = ["id", "duration", "project", "customer"].map(column);
+  const eol = csv.includes("\r\n") ? "\r\n" : "\n";
+
+  const lines = records.map((record, index) => {
+    if (index === 0) return [record.raw, "rounded_duration", "rounded_hours"].join(separator);
+    if (!record.raw) return record.raw;
+    const event = idCol === -1 ? undefined : events.get(Number(record.fields[idCol]));
+    let duration: number | undefined = event ? Number(event.duration) || 0 : undefined;
+    if (duration === undefined && durationCol !== -1) {
+      try {
+        duration = durationSeconds(record.fields[durationCol] ?? "", "seconds");
+      } catch {
+        duration = undefined;
+      }
+    }
+    if (duration === undefined) return [record.raw, "", ""].join(separator);
+    const policy = policyFor(
+      config,
+      event ?? { project: record.fields[projectCol], customer: customerCol === -1 ? undefined : record.fields[customerCol] },
+    );
+    const rounded = policy ? roundDuration(duration, policy) : duration;
+    return [record.raw, String(rounded), String(Math.round((rounded / 3600) * 100) / 100)].join(separator);
+  });
+  return lines.join(eol) + (/\r?\n$/.test(csv) ? eol : "");
+}
@@ -0,0 +1,125 @@
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { z } from "zod";
+
+/**
+ * Local settings that TrackingTime has no place for, such as billing
+ * rounding policies, hourly rates, project budgets and staff capacity.
+ * They live in a JSON file (TT_SETTINGS_PATH, default
+ * ~/.trackingtime-mcp/settings.json) that is read on every call, so edits
+ * apply without a restart. A missing file means no settings.
+ */
+
+export const DEFAULT_SETTINGS_PATH = join(homedir(), ".trackingtime-mcp", "settings.json");
+
+const roundingPolicySchema = z.object({
+  mode: z.enum(["up", "nearest", "down"]),
+  increment_minutes: z.number().positive(),
+  minimum_minutes: z.number().nonnegative().optional(),
+});
+
+const rateMapSchema = z.record(z.string(), z.number().nonnegative());
+
+const settingsSchema = z.object({
+  rounding: z
+    .object({
+      default: roundingPolicySchema.optional(),
+      /** Keyed by customer ID or name. */
+      customers: z.record(z.string(), roundingPolicySchema).optional(),
+      /** Keyed by project ID or name. */
+      projects: z.record(z.string(), roundingPolicySchema).optional(),
+    })
+    .optional(),
+  /** Hourly rates keyed by ID or name; they take precedence over TrackingTime's billing data. */
+  rates: z
+    .object({
+      currency: z.string().optional(),
+      default: z.number().nonnegative().optional(),
+      customers: rateMapSchema.optional(),
+      projects: rateMapSchema.optional(),
+      services: rateMapSchema.optional(),
+    })
+    .optional(),
+  budgets: z
+    .object({
+      /** Keyed by project ID or name: hours and/or money (in the rates' currency). */
+      projects: z
+        .record(
+          z.string(),
+          z.object({ hours: z.number().nonnegative().optional(), amount: z.number().nonnegative().optional() }),
+        )
+        .optional(),
+    })
+    .optional(),
+  capacity: z
+    .object({
+      default_weekly_hours: z.number().nonnegative().max(168).optional(),
+      /** Contracted weekly hours keyed by user ID or name. */
+      users: z.record(z.string(), z.number().nonnegative().max(168)).optional(),
+    })
+    .optional(),
+  /** Service IDs or names whose time counts as billable in utilization reports. */
+  billable_services: z.array(z.string()).optional(),
+  /** Limits for tt_check_working_time; its parameters override them. */
+  working_time: z
+    .object({
+      max_daily_hours: z.number().positive().max(24).optional(),
+      max_weekly_hours: z.number().positive().max(168).optional(),
+      min_rest_hours: z.number().nonnegative().max(24).optional(),
+      max_consecutive_days: z.number().int().positive().optional(),
+      allow_weekend_work: z.boolean().optional(),
+      holidays: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD")).optional(),
+    })
+    .optional(),
+});
+
+export type RoundingPolicy = z.infer<typeof roundingPolicySchema>;
+export type Settings = z.infer<typeof settingsSchema>;
+
+/** Where the settings file lives: TT_SETTINGS_PATH (with ~/ expanded), or the default. */
+export function settingsPath(): string {
+  const value = process.env.TT_SETTINGS_PATH?.trim();
+  if (!value) return DEFAULT_SETTINGS_PATH;
+  return value.startsWith("~/") ? join(homedir(), value.slice(2)) : value;
+}
+
+/**
+ * The value `map` holds for an entity, keyed by its ID or (case-insensitively)
+ * its name.
+ */
+export function settingFor<T>(
+  map: Record<string, T> | undefined,
+  id: number | null | undefined,
+  name: string | null | undefined,
+): T | undefined {
+  if (!map) return undefined;
+  if (id !== null && id !== undefined && map[String(id)] !== undefined) return map[String(id)];
+  if (!name) return undefined;
+  const wanted = name.trim().toLowerCase();
+  const key = Object.keys(map).find((k) => k.trim().toLowerCase() === wanted);
+  return key === undefined ? undefined : map[key];
+}
+
+export async function loadSettings(): Promise<Settings> {
+  const path = settingsPath();
+  let text: string;
+  try {
+    text = await readFile(path, "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return {};
+    throw err;
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Invalid settings file ${path}: ${(err as Error).message}`);
+  }
+  const parsed = settingsSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid settings file ${path}: ${issue.path.join(".") || "(root)"}: ${issue.message}`);
+  }
+  return parsed.data;
+}
@@ -0,0 +1,24 @@
+import { apiRequest } from "./api-client.js";
+
+/** Tracked and estimated time per task, read from POST /tasks/times in batches. */
+
+/** A row of /tasks/times (or /projects/times): seconds tracked and hours estimated. */
+export interface TrackedTime {
+  id: number;
+  accumulated_time?: number | null;
+  estimated_time?: number | null;
+}
+
+/** Task IDs per POST /tasks/times request, so large accounts don't send one huge body. */
+const TASK_TIMES_BATCH_SIZE = 100;
+
+/** Accumulated and estimated time per task ID, from /tasks/times in batches of `batchSize` IDs. */
+export async function taskTimes(ids: number[], batchSize = TASK_TIMES_BATCH_SIZE): Promise<Map<number, TrackedTime>> {
+  const times = new Map<number, TrackedTime>();
+  for (let start = 0; start < ids.length; start += batchSize) {
+    const data = ids.slice(start, start + batchSize).map((id) => ({ id }));
+    const rows = await apiRequest("POST", "/tasks/times", undefined, { data }, { retry: true });
+    for (const row of Array.isArray(rows) ? (rows as TrackedTime[]) : []) times.set(row.id, row);
+  }
+  return times;
+}
@@ -0,0 +1,120 @@
+export interface ThrottleOptions {
+  /** Sustained requests per second. 0 disables rate limiting. */
+  ratePerSecond: number;
+  /** Bucket size: how many requests may go out back-to-back before the rate applies. */
+  burst: number;
+  /** Maximum requests in flight at once. 0 disables the limit. */
+  maxConcurrency: number;
+}
+
+export interface Slot {
+  /** How long the request waited for a concurrency slot and a rate-limit token. */
+  waitedMs: number;
+  release(): void;
+}
+
+export class QueueTimeoutError extends Error {
+  constructor(public waitedMs: number) {
+    super(`Timed out after ${(waitedMs / 1000).toFixed(1)}s waiting in the request queue`);
+    this.name = "QueueTimeoutError";
+  }
+}
+
+interface Waiter {
+  resolve(): void;
+  reject(err: Error): void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Token-bucket rate limiter combined with a FIFO concurrency pool. Every
+ * outgoing request acquires a slot first and releases it when the response
+ * arrives, so fan-out from the assistant can't flood TrackingTime.
+ */
+export class RequestThrottle {
+  private tokens: number;
+  private refilledAt = Date.now();
+  private active = 0;
+  private waiters: Waiter[] = [];
+
+  constructor(private options: ThrottleOptions) {
+    this.tokens = options.burst;
+  }
+
+  async acquire(timeoutMs: number): Promise<Slot> {
+    const startedAt = Date.now();
+    const deadline = startedAt + timeoutMs;
+
+    await this.acquireConcurrency(deadline, startedAt);
+
+    try {
+      const delay = this.reserveToken(deadline, startedAt);
+      if (delay > 0) await new Promise((resolve) => setTimeout(resolve, delay));
+    } catch (err) {
+      this.releaseConcurrency();
+      throw err;
+    }
+
+    let released = false;
+    return {
+      waitedMs: Date.now() - startedAt,
+      release: () => {
+        if (released) return;
+        released = true;
+        this.releaseConcurrency();
+      },
+    };
+  }
+
+  private acquireConcurrency(deadline: number, startedAt: number): Promise<void> {
+    const { maxConcurrency } = this.options;
+    if (maxConcurrency <= 0 || this.active < maxConcurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.waiters = this.waiters.filter((w) => w !== waiter);
+          reject(new QueueTimeoutError(Date.now() - startedAt));
+        }, deadline - Date.now()),
+      };
+      this.waiters.push(waiter);
+    });
+  }
+
+  private releaseConcurrency(): void {
+    const next = this.waiters.shift();
+    if (next) {
+      // Hand the slot straight to the next waiter; active count stays the same.
+      clearTimeout(next.timer);
+      next.resolve();
+    } else {
+      this.active--;
+    }
+  }
+
+  /**
+   * Take a token, letting the balance go negative so later callers queue
+   * behind earlier ones. Returns how long to wait before sending.
+   */
+  private reserveToken(deadline: number, startedAt: number): number {
+    const { ratePerSecond, burst } = this.options;
+    if (ratePerSecond <= 0) return 0;
+
+    const now = Date.now();
+    this.tokens = Math.min(burst, this.tokens + ((now - this.refilledAt) / 1000) * ratePerSecond);
+    this.refilledAt = now;
+
+    const delay = this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) / ratePerSecond) * 1000);
+    if (now + delay > deadline) {
+      throw new QueueTimeoutError(now - startedAt);
+    }
+
+    this.tokens -= 1;
+    return delay;
+  }
+}
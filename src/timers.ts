@@ -0,0 +1,49 @@
+import { apiRequest } from "./api-client.js";
+import { wallSeconds } from "./dates.js";
+
+/** Timers running right now, read from each user's /users/{id}/tasks/tracking. */
+
+export interface RunningTimer {
+  user_id: number;
+  user: string | null;
+  task_id: number;
+  task: string | null;
+  project: string | null;
+  start: string;
+  elapsed: number;
+}
+
+export interface TimerUser {
+  id: number;
+  name?: string | null;
+  surname?: string | null;
+}
+
+interface TrackedTask {
+  id: number;
+  name?: string | null;
+  project?: string | null;
+  tracking_event?: { start?: string | null } | null;
+}
+
+/** Timers running at `now` for each of `users`, with their elapsed seconds. */
+export async function runningTimers(users: TimerUser[], now: string): Promise<RunningTimer[]> {
+  const timers: RunningTimer[] = [];
+  for (const user of users) {
+    const tasks = await apiRequest("GET", `/users/${user.id}/tasks/tracking`);
+    for (const task of Array.isArray(tasks) ? (tasks as TrackedTask[]) : []) {
+      const start = task.tracking_event?.start;
+      if (!start) continue;
+      timers.push({
+        user_id: user.id,
+        user: [user.name, user.surname].filter(Boolean).join(" ") || null,
+        task_id: task.id,
+        task: task.name ?? null,
+        project: task.project ?? null,
+        start,
+        elapsed: wallSeconds(now) - wallSeconds(start),
+      });
+    }
+  }
+  return timers;
+}
@@ -0,0 +1,337 @@
+import { atTimeOfDay, shiftDays } from "./dates.js";
+import type { IsoWeek } from "./dates.js";
+import { formatHoursMinutes } from "./durations.js";
+import { isFinished } from "./events.js";
+import type { TimeEntry } from "./events.js";
+
+/**
+ * Weekly timesheets: a user's time entries for one ISO week laid out as a
+ * project × task × weekday grid. Cells are decimal hours.
+ */
+
+const WEEKDAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+const WEEKDAY_NAMES = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"];
+const WORKING_DAYS = 5;
+const DEFAULT_EXPECTED_HOURS = 8;
+
+/** Daily hours target: TT_EXPECTED_HOURS, default 8. */
+export function configuredExpectedHours(): number {
+  const raw = process.env.TT_EXPECTED_HOURS?.trim();
+  if (!raw) return DEFAULT_EXPECTED_HOURS;
+  const hours = Number(raw);
+  if (!Number.isFinite(hours) || hours < 0 || hours > 24) {
+    throw new Error(`Invalid TT_EXPECTED_HOURS "${raw}". Expected a number of hours between 0 and 24`);
+  }
+  return hours;
+}
+
+export interface TimesheetRow {
+  project_id: number | null;
+  project: string | null;
+  task_id: number | null;
+  task: string | null;
+  /** Hours per weekday, Monday first. */
+  hours: number[];
+  total_hours: number;
+}
+
+export interface TimesheetDay {
+  date: string;
+  weekday: string;
+  hours: number;
+  expected_hours: number;
+  under_target: boolean;
+}
+
+export interface Timesheet {
+  user_id: number;
+  user: string | null;
+  week: string;
+  from: string;
+  to: string;
+  days: TimesheetDay[];
+  rows: TimesheetRow[];
+  total_hours: number;
+  expected_hours: number;
+  /** Working days below their target, YYYY-MM-DD. */
+  under_target: string[];
+}
+
+const toHours = (seconds: number) => Math.round((seconds / 3600) * 100) / 100;
+
+/**
+ * Build the grid for `week` from `entries`. Entries count towards the day
+ * they start on; those starting outside the week are ignored. Monday to
+ * Friday are expected to reach `expectedHours`, weekends have no target.
+ */
+export function buildTimesheet(
+  entries: TimeEntry[],
+  week: IsoWeek,
+  user: { id: number; name: string | null },
+  expectedHours: number,
+): Timesheet {
+  const rows = new Map<string, { row: TimesheetRow; seconds: number[] }>();
+  const daySeconds = week.days.map(() => 0);
+  for (const entry of entries) {
+    const index = week.days.indexOf(String(entry.start).slice(0, 10));
+    if (index === -1) continue;
+    const duration = Number(entry.duration) || 0;
+    const key = `${entry.project_id ?? ""}:${entry.task_id ?? ""}`;
+    let item = rows.get(key);
+    if (!item) {
+      item = {
+        row: {
+          project_id: entry.project_id ?? null,
+          project: entry.project ?? null,
+          task_id: entry.task_id ?? null,
+          task: entry.task ?? null,
+          hours: [],
+          total_hours: 0,
+        },
+        seconds: week.days.map(() => 0),
+      };
+      rows.set(key, item);
+    }
+    item.seconds[index] += duration;
+    daySeconds[index] += duration;
+  }
+
+  const sorted = [...rows.values()]
+    .map(({ row, seconds }) => ({
+      ...row,
+      hours: seconds.map(toHours),
+      total_hours: toHours(seconds.reduce((a, b) => a + b, 0)),
+    }))
+    .sort(
+      (a, b) =>
+        String(a.project ?? "").localeCompare(String(b.project ?? "")) ||
+        String(a.task ?? "").localeCompare(String(b.task ?? "")),
+    );
+
+  const days = week.days.map((date, i) => {
+    const expected = i < WORKING_DAYS ? expectedHours : 0;
+    const hours = toHours(daySeconds[i]);
+    return { date, weekday: WEEKDAY_LABELS[i], hours, expected_hours: expected, under_target: hours < expected };
+  });
+
+  return {
+    user_id: user.id,
+    user: user.name,
+    week: week.week,
+    from: week.from,
+    to: week.to,
+    days,
+    rows: sorted,
+    total_hours: toHours(daySeconds.reduce((a, b) => a + b, 0)),
+    expected_hours: expectedHours * WORKING_DAYS,
+    under_target: days.filter((d) => d.under_target).map((d) => d.date),
+  };
+}
+
+const cell = (hours: number) => (hours ? formatHoursMinutes(hours * 3600) : "");
+const escape = (text: string | null) => (text ?? "—").replace(/\|/g, "\\|");
+
+/** Render a timesheet as a Markdown table (H:MM cells) with a totals row. */
+export function renderTimesheetMarkdown(sheet: Timesheet): string {
+  const header = ["Project", "Task", ...sheet.days.map((d) => `${d.weekday} ${d.date.slice(5)}`), "Total"];
+  const lines = [
+    `## Timesheet ${sheet.week} — ${sheet.user ?? `user ${sheet.user_id}`}`,
+    "",
+    `| ${header.join(" | ")} |`,
+    `|${header.map((_, i) => (i < 2 ? "---" : "---:")).join("|")}|`,
+  ];
+  for (const row of sheet.rows) {
+    lines.push(`| ${[escape(row.project), escape(row.task), ...row.hours.map(cell), cell(row.total_hours)].join(" | ")} |`);
+  }
+  const totals = sheet.days.map((d) => {
+    const text = cell(d.hours) || "0:00";
+    return d.under_target ? `**${text}** ⚠` : `**${text}**`;
+  });
+  lines.push(`| **Total** | | ${totals.join(" | ")} | **${cell(sheet.total_hours) || "0:00"}** |`);
+  if (sheet.under_target.length) {
+    const flagged = sheet.days
+      .filter((d) => d.under_target)
+      .map((d) => `${d.weekday} ${d.date} (${cell(d.hours) || "0:00"} of ${formatHoursMinutes(d.expected_hours * 3600)})`);
+    lines.push("", `⚠ Under target: ${flagged.join(", ")}`);
+  }
+  return lines.join("\n");
+}
+
+// ── Filling a week ──────────────────────────────────────────────────
+
+export interface FillCell {
+  /** Index into the week, 0 = Monday. */
+  day: number;
+  seconds: number;
+  task_id?: number;
+  project_id?: number;
+  notes?: string;
+}
+
+export interface PlannedEntry {
+  cell: number;
+  body: Record<string, unknown>;
+}
+
+export interface SkippedCell {
+  cell: number;
+  date: string;
+  reason: string;
+  existing_ids?: number[];
+}
+
+const DAY_SECONDS = 86_400;
+const DEFAULT_DAY_START = "09:00";
+
+/** Where filled-in days start: TT_DAY_START, default 09:00. */
+export function configuredDayStart(): string {
+  return process.env.TT_DAY_START?.trim() || DEFAULT_DAY_START;
+}
+
+/** A weekday name ("mon", "Tuesday") or a YYYY-MM-DD date inside `week`, as an index from Monday. */
+export function weekDayIndex(day: string, week: IsoWeek): number {
+  const text = day.trim().toLowerCase();
+  const byDate = week.days.indexOf(text);
+  if (byDate !== -1) return byDate;
+  const byName = WEEKDAY_NAMES.findIndex((name) => text.length >= 3 && name.startsWith(text));
+  if (byName !== -1) return byName;
+  throw new Error(`Invalid day "${day}". Use a weekday (mon … sun) or a date between ${week.from} and ${week.to}`);
+}
+
+function secondsOfDay(datetime: string, date: string): number {
+  const [day, time = "00:00:00"] = String(datetime).split(" ");
+  if (day < date) return 0;
+  if (day > date) return DAY_SECONDS;
+  const [h, m, s] = time.split(":").map(Number);
+  return h * 3600 + m * 60 + (s || 0);
+}
+
+/**
+ * Lay `cells` out as back-to-back blocks from `dayStart` on each day,
+ * stepping over time already taken by `existing` entries. A cell is
+ * skipped when its day already has an entry for the same task (or, for
+ * project-only cells, the same project), or when it would run past midnight.
+ */
+export function planTimesheetFill(
+  cells: FillCell[],
+  week: IsoWeek,
+  existing: TimeEntry[],
+  userId: number,
+  dayStart: number,
+): { planned: PlannedEntry[]; skipped: SkippedCell[] } {
+  const planned: PlannedEntry[] = [];
+  const skipped: SkippedCell[] = [];
+  const cursor = week.days.map(() => dayStart);
+  const busy = week.days.map((date) =>
+    existing
+      .filter(isFinished)
+      .filter((e) => e.start.slice(0, 10) <= date && e.end.slice(0, 10) >= date)
+      .map((e) => ({ start: secondsOfDay(e.start, date), end: secondsOfDay(e.end, date) })),
+  );
+
+  cells.forEach((cell, index) => {
+    const date = week.days[cell.day];
+    if (cell.seconds <= 0) return;
+    const matching = existing.filter(
+      (e) =>
+        String(e.start).slice(0, 10) === date &&
+        (cell.task_id !== undefined ? e.task_id === cell.task_id : e.project_id === cell.project_id),
+    );
+    if (matching.length) {
+      skipped.push({
+        cell: index,
+        date,
+        reason: `Already has time for this ${cell.task_id !== undefined ? "task" : "project"}`,
+        existing_ids: matching.map((e) => e.id),
+      });
+      return;
+    }
+
+    let start = cursor[cell.day];
+    for (;;) {
+      const clash = busy[cell.day].find((b) => b.start < start + cell.seconds && b.end > start);
+      if (!clash) break;
+      start = clash.end;
+    }
+    if (start + cell.seconds > DAY_SECONDS) {
+      skipped.push({ cell: index, date, reason: "Does not fit in the day after the other entries" });
+      return;
+    }
+    busy[cell.day].push({ start, end: start + cell.seconds });
+    cursor[cell.day] = start + cell.seconds;
+
+    const body: Record<string, unknown> = {
+      duration: cell.seconds,
+      user_id: userId,
+      start: atTimeOfDay(date, start),
+      end: atTimeOfDay(date, start + cell.seconds),
+    };
+    if (cell.task_id !== undefined) body.task_id = cell.task_id;
+    if (cell.project_id !== undefined) body.project_id = cell.project_id;
+    if (cell.notes) body.notes = cell.notes;
+    planned.push({ cell: index, body });
+  });
+  return { planned, skipped };
+}
+
+// ── Copying entries ─────────────────────────────────────────────────
+
+export interface CopyOptions {
+  userId: number;
+  clearNotes: boolean;
+  /** Skip entries landing on a day that already has time logged. */
+  skipDaysWithTime: boolean;
+}
+
+export interface PlannedCopy {
+  source_id: number;
+  body: Record<string, unknown>;
+  tags: { name: string; value: string }[];
+}
+
+export interface SkippedCopy {
+  source_id: number;
+  date: string;
+  reason: string;
+}
+
+/**
+ * Clone `entries` `shift` days later. `existing` holds the entries already
+ * in the target range; running entries (no end yet) are never copied.
+ */
+export function planCopy(
+  entries: TimeEntry[],
+  existing: TimeEntry[],
+  shift: number,
+  options: CopyOptions,
+): { planned: PlannedCopy[]; skipped: SkippedCopy[] } {
+  const busyDays = new Set(existing.map((e) => String(e.start).slice(0, 10)));
+  const planned: PlannedCopy[] = [];
+  const skipped: SkippedCopy[] = [];
+  for (const entry of entries) {
+    const start = shiftDays(String(entry.start), shift);
+    const date = start.slice(0, 10);
+    if (!entry.end) {
+      skipped.push({ source_id: entry.id, date, reason: "Still running" });
+      continue;
+    }
+    if (options.skipDaysWithTime && busyDays.has(date)) {
+      skipped.push({ source_id: entry.id, date, reason: "Day already has time" });
+      continue;
+    }
+    const body: Record<string, unknown> = {
+      duration: Number(entry.duration) || 0,
+      user_id: options.userId,
+      start,
+      end: shiftDays(String(entry.end), shift),
+    };
+    if (entry.task_id) body.task_id = entry.task_id;
+    if (entry.project_id) body.project_id = entry.project_id;
+    if (entry.notes && !options.clearNotes) body.notes = entry.notes;
+    const tags = (entry.tags ?? [])
+      .filter((t) => typeof t.name === "string")
+      .map((t) => ({ name: String(t.name), value: String(t.value ?? "") }));
+    planned.push({ source_id: entry.id, body, tags });
+  }
+  return { planned, skipped };
+}
@@ -0,0 +1,204 @@
+import { z } from "zod";
+import { apiRequest } from "../api-client.js";
+import type { ToolRegistrar } from "../registration.js";
+import { errorResult, toolResult } from "./shared.js";
+
+export function registerCustomerTools(server: ToolRegistrar) {
+  server.registerTool(
+    "tt_list_customers",
+    {
+      title: "List Customers",
+      description: "List TrackingTime customers. Returns active customers by default.",
+      inputSchema: {
+        filter: z
+          .enum(["ALL", "ACTIVE", "ARCHIVED"])
+          .optional()
+          .describe("Customer filter (default: ACTIVE)"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ filter }) => {
+      try {
+        const params: Record<string, string> = {};
+        if (filter) params.filter = filter;
+        return toolResult(await apiRequest("GET", "/customers", params));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_create_customer",
+    {
+      title: "Create Customer",
+      description:
+        "Create a new customer/client in TrackingTime. " +
+        "Customer names must be unique. " +
+        "Requires admin or project manager role.",
+      inputSchema: {
+        name: z.string().describe("Customer name (required, must be unique)"),
+        notes: z.string().optional().describe("Notes about the customer"),
+        contact_name: z.string().optional().describe("Primary contact name"),
+        contact_email: z.string().optional().describe("Primary contact email"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ name, notes, contact_name, contact_email }) => {
+      try {
+        const body: Record<string, unknown> = { name };
+        if (notes) body.notes = notes;
+        if (contact_name) body.contact_name = contact_name;
+        if (contact_email) body.contact_email = contact_email;
+        return toolResult(await apiRequest("POST", "/customers/add", undefined, body));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_update_customer",
+    {
+      title: "Update Customer",
+      description:
+        "Update an existing customer/client. The name field is required by the API even " +
+        "if you only want to change other fields. Requires admin or project manager role.",
+      inputSchema: {
+        id: z.number().describe("Customer ID to update"),
+        name: z.string().describe("Customer name (required by API, even if unchanged)"),
+        notes: z.string().optional().describe("Updated notes"),
+        contact_name: z.string().optional().describe("Updated contact name"),
+        contact_email: z.string().optional().describe("Updated contact email"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id, name, notes, contact_name, contact_email }) => {
+      try {
+        const body: Record<string, unknown> = { name };
+        if (notes) body.notes = notes;
+        if (contact_name) body.contact_name = contact_name;
+        if (contact_email) body.contact_email = contact_email;
+        return toolResult(await apiRequest("PUT", `/customers/update/${id}`, undefined, body));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  // tt_get_customer — get single customer details
+  server.registerTool(
+    "tt_get_customer",
+    {
+      title: "Get Customer",
+      description: "Get a single customer/client by ID.",
+      inputSchema: {
+        id: z.number().describe("Customer ID"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id }) => {
+      try {
+        return toolResult(await apiRequest("GET", `/customers/${id}`));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  // tt_delete_customer — permanently delete a customer
+  server.registerTool(
+    "tt_delete_customer",
+    {
+      title: "Delete Customer",
+      description:
+        "Permanently delete a customer. All project references to this customer will be set to null.",
+      inputSchema: {
+        id: z.number().describe("Customer ID to delete"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ id }) => {
+      try {
+        return toolResult(await apiRequest("DELETE", `/customers/delete/${id}`));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  // tt_archive_customer — archive a customer
+  server.registerTool(
+    "tt_archive_customer",
+    {
+      title: "Archive Customer",
+      description: "Archive a customer. Can be reactivated later.",
+      inputSchema: {
+        id: z.number().describe("Customer ID to archive"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id }) => {
+      try {
+        return toolResult(await apiRequest("PUT", `/customers/close/${id}`));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  // tt_reactivate_customer — reactivate an archived customer
+  server.registerTool(
+    "tt_reactivate_customer",
+    {
+      title: "Reactivate Customer",
+      description: "Reactivate a previously archived customer.",
+      inputSchema: {
+        id: z.number().describe("Customer ID to reactivate"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id }) => {
+      try {
+        return toolResult(await apiRequest("PUT", `/customers/open/${id}`));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+}
@@ -0,0 +1,176 @@
+import { z } from "zod";
+import { apiRequest } from "../api-client.js";
+import type { ToolRegistrar } from "../registration.js";
+import { errorResult, toolResult } from "./shared.js";
+
+export function registerGroupTools(server: ToolRegistrar) {
+  server.registerTool(
+    "tt_list_user_groups",
+    {
+      title: "List User Groups",
+      description:
+        "List user groups (teams/departments) in the account. " +
+        "Groups let you organize staff by team, department, or role.",
+      inputSchema: {
+        filter: z
+          .enum(["ALL", "ACTIVE", "ARCHIVED"])
+          .optional()
+          .describe("Group filter (default: ACTIVE)"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ filter }) => {
+      try {
+        const params: Record<string, string> = {};
+        if (filter) params.filter = filter;
+        return toolResult(await apiRequest("GET", "/users/groups", params));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_get_user_group",
+    {
+      title: "Get User Group",
+      description: "Get a single user group by ID.",
+      inputSchema: { id: z.number().describe("Group ID") },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id }) => {
+      try {
+        return toolResult(await apiRequest("GET", `/users/groups/${id}`));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_create_user_group",
+    {
+      title: "Create User Group",
+      description:
+        "Create a new user group. Both supervisor_id and users are required by the API. " +
+        "Use status='ARCHIVED' (or update_user_group later) to archive — there's no separate close endpoint. " +
+        "Requires admin or project manager role.",
+      inputSchema: {
+        name: z.string().describe("Group name (required)"),
+        supervisor_id: z.number().describe("User ID of the group supervisor (required)"),
+        users: z
+          .array(
+            z.object({
+              id: z.number(),
+              action: z.enum(["ADD", "REMOVE"]).optional(),
+            }),
+          )
+          .min(1)
+          .describe(
+            'Members (at least one required), e.g. [{"id":1,"action":"ADD"}]',
+          ),
+        notes: z.string().optional().describe("Notes about the group"),
+        status: z
+          .enum(["ACTIVE", "ARCHIVED"])
+          .optional()
+          .describe("Status (default: ACTIVE)"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ name, supervisor_id, users, notes, status }) => {
+      try {
+        const body: Record<string, unknown> = { name, supervisor_id, users };
+        if (notes) body.notes = notes;
+        if (status) body.status = status;
+        return toolResult(await apiRequest("POST", "/users/groups/add", undefined, body));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_update_user_group",
+    {
+      title: "Update User Group",
+      description:
+        "Update an existing user group. " +
+        "To archive a group set status='ARCHIVED'; to restore set status='ACTIVE'.",
+      inputSchema: {
+        id: z.number().describe("Group ID to update"),
+        name: z.string().optional().describe("New group name"),
+        notes: z.string().optional().describe("New notes"),
+        status: z
+          .enum(["ACTIVE", "ARCHIVED"])
+          .optional()
+          .describe("New status — use ARCHIVED to deactivate"),
+        supervisor_id: z.number().optional().describe("New supervisor user ID"),
+        users: z
+          .array(
+            z.object({
+              id: z.number(),
+              action: z.enum(["ADD", "REMOVE"]).optional(),
+            }),
+          )
+          .optional()
+          .describe("Members to add/remove"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id, name, notes, status, supervisor_id, users }) => {
+      try {
+        const body: Record<string, unknown> = {};
+        if (name) body.name = name;
+        if (notes) body.notes = notes;
+        if (status) body.status = status;
+        if (supervisor_id !== undefined) body.supervisor_id = supervisor_id;
+        if (users) body.users = users;
+        return toolResult(await apiRequest("PUT", `/users/groups/update/${id}`, undefined, body));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_delete_user_group",
+    {
+      title: "Delete User Group",
+      description: "Permanently delete a user group.",
+      inputSchema: { id: z.number().describe("Group ID to delete") },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ id }) => {
+      try {
+        return toolResult(await apiRequest("DELETE", `/users/groups/delete/${id}`));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+}
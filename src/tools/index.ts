@@ -0,0 +1,61 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { withConfirmation } from "../confirmation.js";
+import { UndoJournal, withJournal } from "../journal.js";
+import {
+  createToolFilter,
+  gateRegistrations,
+  TOOLSET_NAMES,
+  type RegisterOptions,
+  type ToolRegistrar,
+  type ToolsetName,
+} from "../registration.js";
+import { registerCustomerTools } from "./customers.js";
+import { registerGroupTools } from "./groups.js";
+import { UNDO_SPECS } from "./inverses.js";
+import { registerInvoiceTools } from "./invoices.js";
+import { registerJournalTools } from "./journal.js";
+import { registerNotificationTools } from "./notifications.js";
+import { DESTRUCTIVE_PREVIEWS } from "./previews.js";
+import { registerProjectTools } from "./projects.js";
+import { registerReportTools } from "./reports.js";
+import { registerServiceTools } from "./services.js";
+import { registerTagTools } from "./tags.js";
+import { registerTaskTools } from "./tasks.js";
+import { registerTeamTools } from "./teams.js";
+import { registerTimeEntryTools } from "./time-entries.js";
+import { registerTimerTools } from "./timer.js";
+import { registerTimesheetTools } from "./timesheets.js";
+import { registerUserTools } from "./users.js";
+import { registerWebhookTools } from "./webhooks.js";
+
+const TOOLSETS: Record<ToolsetName, (server: ToolRegistrar) => void> = {
+  projects: registerProjectTools,
+  tasks: registerTaskTools,
+  timer: registerTimerTools,
+  time_entries: registerTimeEntryTools,
+  timesheets: registerTimesheetTools,
+  invoices: registerInvoiceTools,
+  tags: registerTagTools,
+  users: registerUserTools,
+  groups: registerGroupTools,
+  customers: registerCustomerTools,
+  services: registerServiceTools,
+  teams: registerTeamTools,
+  reports: registerReportTools,
+  notifications: registerNotificationTools,
+  webhooks: registerWebhookTools,
+};
+
+export function registerTools(mcpServer: McpServer, options: RegisterOptions = {}) {
+  let server = gateRegistrations(mcpServer, createToolFilter(options));
+  if (options.confirmDestructive) server = withConfirmation(server, DESTRUCTIVE_PREVIEWS);
+  if (options.journalPath) {
+    const journal = new UndoJournal(options.journalPath);
+    // Registered before wrapping so that undoing isn't itself journaled.
+    registerJournalTools(server, journal);
+    server = withJournal(server, journal, UNDO_SPECS);
+  }
+  for (const name of options.toolsets ?? TOOLSET_NAMES) {
+    TOOLSETS[name](server);
+  }
+}
@@ -0,0 +1,378 @@
+import { apiRequest } from "../api-client.js";
+import type { InverseCall, UndoSpec } from "../journal.js";
+import { resolveId } from "../resolver.js";
+
+type Row = Record<string, unknown>;
+
+const NEW_ID = "Re-created with a new ID; anything that referenced the old ID is not relinked.";
+
+/** `value` as an object; anything else (null, a list, a scalar) reads as an empty row. */
+function asRow(value: unknown): Row {
+  return typeof value === "object" && value !== null && !Array.isArray(value) ? (value as Row) : {};
+}
+
+function asList(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function asRows(value: unknown): Row[] {
+  return asList(value).map(asRow);
+}
+
+/** A tool argument that takes an ID or a name. */
+function idOrName(value: unknown): number | string {
+  return typeof value === "number" ? value : String(value);
+}
+
+async function get(endpoint: string): Promise<Row> {
+  return asRow(await apiRequest("GET", endpoint));
+}
+
+/** Copy `keys` from `row`, skipping ones the row doesn't have. */
+function pick(row: Row, keys: string[]): Row {
+  const out: Row = {};
+  for (const key of keys) if (row[key] !== undefined) out[key] = row[key];
+  return out;
+}
+
+/** The argument keys a call actually set, minus the entity ID. */
+function changedKeys(args: Row, exclude = ["id"]): string[] {
+  return Object.keys(args).filter((key) => args[key] !== undefined && !exclude.includes(key));
+}
+
+/** Undo a create by deleting whatever ID the tool returned. */
+function deleteCreated(method: string, endpoint: (id: number) => string, params?: Record<string, string>): UndoSpec {
+  return {
+    inverse: (_args, _before, result) => {
+      const { id } = asRow(result);
+      return id !== undefined
+        ? { calls: [{ method, endpoint: endpoint(Number(id)), ...(params && { params }) }] }
+        : { irreversible: "The response did not include the new ID." };
+    },
+  };
+}
+
+/** Undo a bulk create by deleting every event listed in the result's `created`. */
+function deleteCreatedEvents(): UndoSpec {
+  return {
+    inverse: (_args, _before, result) => ({
+      calls: asRows(asRow(result).created)
+        .filter((e) => e.id !== undefined)
+        .map((e) => ({ method: "DELETE", endpoint: `/events/delete/${e.id}` })),
+    }),
+  };
+}
+
+/**
+ * Undo an update by writing back the snapshot's values for the API `fields`
+ * the call changed. Tool-only options (overlap checks and the like) are never
+ * API fields, so they stay out of the body.
+ */
+function restoreFields(
+  getPath: (id: number) => string,
+  method: string,
+  updatePath: (id: number) => string,
+  fields: string[],
+  fieldFor: Record<string, string> = {},
+  always: string[] = [],
+): UndoSpec {
+  return {
+    snapshot: ({ id }) => get(getPath(Number(id))),
+    inverse: (args, before) => {
+      const row = asRow(before);
+      const keys = new Set([...always, ...fields.filter((key) => args[key] !== undefined)]);
+      const body: Row = {};
+      for (const key of keys) body[key] = row[fieldFor[key] ?? key] ?? null;
+      return { calls: [{ method, endpoint: updatePath(Number(args.id)), body }] };
+    },
+  };
+}
+
+/** Undo archive/reopen-style calls by putting the entity back in the status it had. */
+function restoreStatus(base: string, inactive: string, deactivate = "close", activate = "open"): UndoSpec {
+  return {
+    snapshot: ({ id }) => get(`/${base}/${id}`),
+    inverse: ({ id }, before) => ({
+      calls: [{ method: "PUT", endpoint: `/${base}/${asRow(before).status === inactive ? deactivate : activate}/${id}` }],
+    }),
+  };
+}
+
+/** Undo a delete by creating a look-alike from the snapshot. */
+function recreate(getPath: (id: number) => string, endpoint: string, body: (before: Row) => Row, lost: string): UndoSpec {
+  return {
+    snapshot: ({ id }) => get(getPath(Number(id))),
+    inverse: (_args, before) => ({
+      calls: [{ method: "POST", endpoint, body: body(asRow(before)) }],
+      approximate: `${NEW_ID} ${lost}`.trim(),
+    }),
+  };
+}
+
+function billing(undoEndpoint: string, wasSet: (event: Row) => boolean): UndoSpec {
+  return {
+    snapshot: ({ entry_ids }) => Promise.all(asList(entry_ids).map((id) => get(`/events/${id}`))),
+    inverse: (_args, before) => {
+      const ids = asRows(before)
+        .filter((event) => !wasSet(event))
+        .map((event) => ({ id: event.id }));
+      const calls: InverseCall[] = ids.length
+        ? [{ method: "PUT", endpoint: undoEndpoint, body: { data: JSON.stringify(ids) } }]
+        : [];
+      return { calls };
+    },
+  };
+}
+
+function projectAssignment(undoAction: "assign_projects" | "remove_projects", wasAssigned: boolean): UndoSpec {
+  return {
+    // The tool accepts names, so the snapshot records the IDs they resolved to.
+    snapshot: async ({ user_id, project_ids }) => {
+      const userId = await resolveId("user", idOrName(user_id));
+      const projectIds: number[] = [];
+      for (const project of asList(project_ids)) projectIds.push(await resolveId("project", idOrName(project)));
+      const projects = await apiRequest("GET", `/users/${userId}/projects`);
+      const assigned = asRows(projects).map((p) => p.id);
+      return { user_id: userId, project_ids: projectIds, assigned };
+    },
+    inverse: (_args, before) => {
+      const snapshot = asRow(before);
+      const assigned = asList(snapshot.assigned);
+      const data = asList(snapshot.project_ids)
+        .filter((id) => assigned.includes(id) === wasAssigned)
+        .map((id) => ({ id }));
+      return {
+        calls: data.length
+          ? [{ method: "POST", endpoint: `/users/${snapshot.user_id}/${undoAction}`, body: { data } }]
+          : [],
+      };
+    },
+  };
+}
+
+function eventTag(event: Row, name: string): InverseCall {
+  const tag = asRows(event.tags).find((t) => t.name === name);
+  return tag
+    ? { method: "POST", endpoint: `/events/${event.id}/tags/save`, body: { name, value: tag.value ?? "" } }
+    : { method: "DELETE", endpoint: `/events/${event.id}/tags/delete`, params: { name } };
+}
+
+/** How each mutating tool is reverted by `tt_undo`. Tools missing here are journaled as irreversible. */
+export const UNDO_SPECS: Record<string, UndoSpec> = {
+  // Projects
+  tt_create_project: deleteCreated("DELETE", (id) => `/projects/delete/${id}`, { delete_all: "true" }),
+  tt_update_project: restoreFields(
+    (id) => `/projects/${id}`,
+    "POST",
+    (id) => `/projects/update/${id}`,
+    ["name", "customer_name", "service_name"],
+    { customer_name: "customer", service_name: "service" },
+  ),
+  tt_update_project_preferences: {
+    snapshot: ({ id }) => get(`/projects/${id}`),
+    inverse: (args, before) => ({
+      calls: [
+        {
+          method: "POST",
+          endpoint: `/projects/update_preferences/${args.id}`,
+          body: pick(asRow(asRow(before).preferences), changedKeys(args)),
+        },
+      ],
+    }),
+  },
+  tt_archive_project: restoreStatus("projects", "ARCHIVED"),
+  tt_reopen_project: restoreStatus("projects", "ARCHIVED"),
+  tt_delete_project: recreate(
+    (id) => `/projects/${id}`,
+    "/projects/add",
+    (p) => ({ name: p.name, customer_name: p.customer ?? undefined, service_name: p.service ?? undefined }),
+    "Tasks and time entries deleted with the project are not restored.",
+  ),
+
+  // Tasks
+  tt_create_task: deleteCreated("DELETE", (id) => `/tasks/delete/${id}`),
+  tt_update_task: restoreFields((id) => `/tasks/${id}`, "PUT", (id) => `/tasks/update/${id}`, [
+    "name",
+    "project_id",
+    "due_date",
+    "estimated_time",
+    "users",
+  ]),
+  tt_close_task: restoreStatus("tasks", "CLOSED"),
+  tt_reopen_task: restoreStatus("tasks", "CLOSED"),
+  tt_delete_task: recreate(
+    (id) => `/tasks/${id}`,
+    "/tasks/share",
+    (t) => pick(t, ["name", "project_id", "due_date", "estimated_time", "users"]),
+    "Time entries deleted with the task are not restored.",
+  ),
+
+  // Time entries
+  tt_add_time_entry: deleteCreated("DELETE", (id) => `/events/delete/${id}`),
+  tt_update_time_entry: restoreFields(
+    (id) => `/events/${id}`,
+    "PUT",
+    (id) => `/events/update/${id}`,
+    ["start", "end", "task_id", "project_id", "notes"],
+    {},
+    ["end"],
+  ),
+  tt_delete_time_entry: recreate(
+    (id) => `/events/${id}`,
+    "/events/add",
+    (e) => pick(e, ["start", "end", "duration", "user_id", "task_id", "project_id", "notes"]),
+    "Tags and billed status are not restored.",
+  ),
+  tt_mark_billed: billing("/events/not_billed", (e) => Boolean(e.billed)),
+  tt_mark_not_billed: billing("/events/billed", (e) => !e.billed),
+
+  // Timers
+  tt_fix_stale_timers: {
+    inverse: (_args, _before, result) => {
+      const events = asRows(asRow(result).stopped).filter((t) => t.event_id);
+      return events.length
+        ? {
+            calls: events.map((t) => ({ method: "DELETE", endpoint: `/events/delete/${t.event_id}` })),
+            approximate: "The entries the stopped timers produced are deleted; the timers are not restarted.",
+          }
+        : { calls: [] };
+    },
+  },
+
+  // Timesheets
+  tt_fill_timesheet: deleteCreatedEvents(),
+  tt_copy_time_entries: deleteCreatedEvents(),
+
+  // Invoices
+  tt_finalize_invoice: {
+    inverse: (_args, _before, result) => {
+      const ids = asList(asRow(result).event_ids);
+      const calls: InverseCall[] = ids.length
+        ? [{ method: "PUT", endpoint: "/events/not_billed", body: { data: JSON.stringify(ids.map((id) => ({ id }))) } }]
+        : [];
+      return { calls };
+    },
+  },
+
+  // Event tags
+  tt_create_tag: deleteCreated("DELETE", (id) => `/events/tags/delete/${id}`),
+  tt_update_tag: restoreFields((id) => `/events/tags/${id}`, "PUT", (id) => `/events/tags/update/${id}`, [
+    "name",
+    "value",
+    "type",
+    "color",
+    "notes",
+  ]),
+  tt_delete_tag: recreate(
+    (id) => `/events/tags/${id}`,
+    "/events/tags/add",
+    (t) => pick(t, ["name", "value", "type", "color", "notes"]),
+    "",
+  ),
+  tt_save_event_tag: {
+    snapshot: ({ event_id }) => get(`/events/${event_id}`),
+    inverse: ({ name }, before) => ({ calls: [eventTag(asRow(before), String(name))] }),
+  },
+  tt_delete_event_tag: {
+    snapshot: ({ event_id }) => get(`/events/${event_id}`),
+    inverse: ({ name }, before) => {
+      const event = asRow(before);
+      return { calls: asRows(event.tags).some((t) => t.name === name) ? [eventTag(event, String(name))] : [] };
+    },
+  },
+
+  // Customers
+  tt_create_customer: deleteCreated("DELETE", (id) => `/customers/delete/${id}`),
+  tt_update_customer: restoreFields(
+    (id) => `/customers/${id}`,
+    "PUT",
+    (id) => `/customers/update/${id}`,
+    ["notes", "contact_name", "contact_email"],
+    {},
+    ["name"],
+  ),
+  tt_archive_customer: restoreStatus("customers", "ARCHIVED"),
+  tt_reactivate_customer: restoreStatus("customers", "ARCHIVED"),
+  tt_delete_customer: recreate(
+    (id) => `/customers/${id}`,
+    "/customers/add",
+    (c) => pick(c, ["name", "notes", "contact_name", "contact_email"]),
+    "Projects that belonged to the customer are not reattached.",
+  ),
+
+  // Services
+  tt_create_service: deleteCreated("DELETE", (id) => `/services/delete/${id}`),
+  tt_update_service: restoreFields((id) => `/services/${id}`, "PUT", (id) => `/services/update/${id}`, [
+    "name",
+    "is_archived",
+  ]),
+  tt_archive_service: restoreStatus("services", "ARCHIVED"),
+  tt_reactivate_service: restoreStatus("services", "ARCHIVED"),
+  tt_delete_service: recreate((id) => `/services/${id}`, "/services/add", (s) => pick(s, ["name"]), ""),
+
+  // User groups
+  tt_create_user_group: deleteCreated("DELETE", (id) => `/users/groups/delete/${id}`),
+  tt_update_user_group: {
+    snapshot: ({ id }) => get(`/users/groups/${id}`),
+    inverse: (args, before) => {
+      const group = asRow(before);
+      const body = pick(group, changedKeys(args, ["id", "users"]));
+      if (args.users) {
+        const members = new Set(asRows(group.users).map((u) => u.id));
+        body.users = asRows(args.users)
+          .filter((u) => (u.action === "REMOVE") === members.has(u.id))
+          .map((u) => ({ id: u.id, action: u.action === "REMOVE" ? "ADD" : "REMOVE" }));
+      }
+      return { calls: [{ method: "PUT", endpoint: `/users/groups/update/${args.id}`, body }] };
+    },
+  },
+  tt_delete_user_group: recreate(
+    (id) => `/users/groups/${id}`,
+    "/users/groups/add",
+    (g) => pick(g, ["name", "supervisor_id", "users", "notes", "status"]),
+    "",
+  ),
+
+  // Users
+  tt_create_user: {
+    inverse: (_args, _before, result) => {
+      const { id } = asRow(result);
+      return id !== undefined
+        ? {
+            calls: [{ method: "PUT", endpoint: `/users/close/${id}` }],
+            approximate: "Users can't be deleted through the API; the new user is archived instead.",
+          }
+        : { irreversible: "The response did not include the new ID." };
+    },
+  },
+  tt_update_user: restoreFields((id) => `/users/${id}`, "POST", (id) => `/users/update/${id}`, ["name", "surname"]),
+  tt_archive_user: restoreStatus("users", "ARCHIVED"),
+  tt_reactivate_user: restoreStatus("users", "ARCHIVED"),
+  tt_update_user_permissions: {
+    snapshot: ({ user_id }) => get(`/users/${user_id}`),
+    inverse: (args, before) => ({
+      calls: [
+        {
+          method: "POST",
+          endpoint: `/users/update_permissions/${args.user_id}`,
+          body: pick(asRow(asRow(before).permissions), changedKeys(args, ["user_id"])),
+        },
+      ],
+    }),
+  },
+  tt_update_employee: {
+    snapshot: ({ user_id }) => get(`/users/${user_id}`),
+    inverse: (args, before) => {
+      const employee = asRow(asRow(before).employee);
+      const body: Row = {};
+      for (const key of changedKeys(args, ["user_id"])) body[key] = employee[key] ?? null;
+      return { calls: [{ method: "POST", endpoint: `/users/${args.user_id}/employee/update`, body }] };
+    },
+  },
+  tt_assign_user_projects: projectAssignment("remove_projects", false),
+  tt_remove_user_projects: projectAssignment("assign_projects", true),
+
+  // Webhooks
+  tt_enable_webhook: restoreStatus("webhooks", "DISABLED", "disable", "enable"),
+  tt_disable_webhook: restoreStatus("webhooks", "DISABLED", "disable", "enable"),
+};
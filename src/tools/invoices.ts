@@ -0,0 +1,133 @@
+import { z } from "zod";
+import { apiRequest } from "../api-client.js";
+import { parseRange } from "../dates.js";
+import { fetchAllEvents } from "../events.js";
+import { buildInvoice, InvoiceDrafts, rateFor, renderInvoiceCsv, renderInvoiceMarkdown } from "../invoice.js";
+import type { ToolRegistrar } from "../registration.js";
+import { idOrName, resolveId } from "../resolver.js";
+import { loadRounding } from "../rounding.js";
+import { loadSettings } from "../settings.js";
+import { errorResult, toolResult } from "./shared.js";
+
+export function registerInvoiceTools(server: ToolRegistrar) {
+  const drafts = new InvoiceDrafts();
+
+  server.registerTool(
+    "tt_generate_invoice_draft",
+    {
+      title: "Generate Invoice Draft",
+      description:
+        "Draft an invoice for a customer's unbilled time entries over a date range: line items grouped by " +
+        "project, service and task, with project subtotals and totals. Hourly rates come from the settings " +
+        "file's rate table (project, service, customer, then default) or the project's billing data in " +
+        "TrackingTime; hours use the rounding policies when configured. Returns JSON, Markdown or CSV plus " +
+        "the event IDs covered and a draft_id for tt_finalize_invoice. Nothing is marked billed.",
+      inputSchema: {
+        customer_id: idOrName().describe("Customer ID or name"),
+        from: z.string().describe("Start date (YYYY-MM-DD, or e.g. last month)"),
+        to: z.string().describe("End date (YYYY-MM-DD, or e.g. last month)"),
+        use_rounding: z
+          .boolean()
+          .optional()
+          .describe("Bill rounded hours when rounding policies are configured (default: true)"),
+        format: z.enum(["json", "markdown", "csv"]).optional().describe("Output format (default: json)"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ customer_id, from, to, use_rounding, format }) => {
+      try {
+        const range = parseRange(from, to);
+        const customerId = await resolveId("customer", customer_id);
+        const customer = (await apiRequest("GET", `/customers/${customerId}`)) as { name?: string | null } | null;
+        const { entries } = await fetchAllEvents({ filter: "CUSTOMER", id: customerId, ...range, order: "asc" });
+        const unbilled = entries.filter((e) => !e.billed && e.end);
+
+        const rates = (await loadSettings()).rates ?? {};
+        // Only fetch TrackingTime's project rates where the local table has no more specific rate.
+        const billingRates = new Map<number, number | null>();
+        for (const entry of unbilled) {
+          if (!entry.project_id || billingRates.has(entry.project_id)) continue;
+          const local = rateFor(entry, rates, billingRates);
+          if (local && local.source !== "default") continue;
+          const project = (await apiRequest("GET", `/projects/${entry.project_id}`, {
+            include_billing: "true",
+          })) as { billing?: { hourly_rate?: unknown } | null } | null;
+          const rate = project?.billing?.hourly_rate;
+          billingRates.set(entry.project_id, typeof rate === "number" ? rate : null);
+        }
+
+        const draft = buildInvoice(
+          unbilled,
+          { id: customerId, name: customer?.name ?? null },
+          range,
+          rates,
+          billingRates,
+          use_rounding === false ? undefined : await loadRounding(),
+        );
+        drafts.add(draft);
+        if (format === "markdown") return { content: [{ type: "text" as const, text: renderInvoiceMarkdown(draft) }] };
+        if (format === "csv") {
+          const note =
+            `Draft ${draft.draft_id} covers events ${draft.event_ids.join(", ") || "none"}; ` +
+            "run tt_finalize_invoice to mark them billed.";
+          return {
+            content: [
+              { type: "text" as const, text: renderInvoiceCsv(draft) },
+              { type: "text" as const, text: note },
+            ],
+          };
+        }
+        return toolResult(draft);
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_finalize_invoice",
+    {
+      title: "Finalize Invoice",
+      description:
+        "Mark exactly the time entries an invoice draft covers as billed (PUT /events/billed). " +
+        "Takes the draft_id from tt_generate_invoice_draft; drafts are kept until the server restarts, " +
+        "after which tt_mark_billed with the draft's event_ids does the same.",
+      inputSchema: {
+        draft_id: z.string().describe("draft_id returned by tt_generate_invoice_draft"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ draft_id }) => {
+      try {
+        const draft = drafts.get(draft_id);
+        if (draft.event_ids.length) {
+          const data = JSON.stringify(draft.event_ids.map((id) => ({ id })));
+          await apiRequest("PUT", "/events/billed", undefined, { data });
+        }
+        const finalizedAt = new Date().toISOString();
+        drafts.markFinalized(draft_id, finalizedAt);
+        return toolResult({
+          draft_id,
+          customer_id: draft.customer_id,
+          customer: draft.customer,
+          billed: draft.event_ids.length,
+          event_ids: draft.event_ids,
+          totals: draft.totals,
+          finalized_at: finalizedAt,
+        });
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+}
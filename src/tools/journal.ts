@@ -0,0 +1,131 @@
+import { z } from "zod";
+import { apiRequest } from "../api-client.js";
+import type { JournalEntry, UndoJournal } from "../journal.js";
+import type { ToolRegistrar } from "../registration.js";
+import { errorResult, toolResult } from "./shared.js";
+
+function summarize(entry: JournalEntry) {
+  return {
+    id: entry.id,
+    at: entry.at,
+    tool: entry.tool,
+    args: entry.args,
+    undo: entry.undone_at
+      ? `undone at ${entry.undone_at}`
+      : entry.partially_undone
+        ? `partially undone: ${entry.partially_undone.calls_done} of ${entry.inverse?.length ?? 0} calls ran ` +
+          `before "${entry.partially_undone.error}"; tt_undo resumes from there`
+        : entry.irreversible
+        ? `irreversible: ${entry.irreversible}`
+        : entry.approximate
+          ? `approximate: ${entry.approximate}`
+          : "exact",
+  };
+}
+
+export function registerJournalTools(server: ToolRegistrar, journal: UndoJournal) {
+  server.registerTool(
+    "tt_list_journal",
+    {
+      title: "List Undo Journal",
+      description:
+        "List recent changes made through this server, newest first, with whether each " +
+        "can be undone exactly, approximately, or not at all. Use the IDs with tt_undo.",
+      inputSchema: {
+        limit: z.number().optional().describe("Max entries to return (default: 20)"),
+        include_undone: z.boolean().optional().describe("Include entries already undone (default: false)"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async ({ limit, include_undone }) => {
+      try {
+        const entries = (await journal.entries()).filter((e) => include_undone || !e.undone_at).reverse();
+        return toolResult(entries.slice(0, limit ?? 20).map(summarize));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_undo",
+    {
+      title: "Undo Changes",
+      description:
+        "Revert the last N changes made through this server (default 1), or one specific journal " +
+        "entry, by replaying the recorded inverse API calls. Stops at the first change that can't " +
+        "be reverted. Deleted items come back as new items with new IDs. If an undo fails partway, " +
+        "the calls that ran are noted and the next tt_undo resumes after them. Set dry_run=true to see " +
+        "the calls without making them.",
+      inputSchema: {
+        count: z.number().int().min(1).optional().describe("How many of the most recent changes to undo (default: 1)"),
+        entry_id: z.string().optional().describe("Undo only this journal entry (from tt_list_journal)"),
+        dry_run: z.boolean().optional().describe("Only show what would be undone"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ count, entry_id, dry_run }) => {
+      try {
+        const pending = (await journal.entries()).filter((e) => !e.undone_at);
+        let targets: JournalEntry[];
+        if (entry_id) {
+          const entry = pending.find((e) => e.id === entry_id);
+          if (!entry) throw new Error(`No journal entry "${entry_id}" waiting to be undone. See tt_list_journal.`);
+          targets = [entry];
+        } else {
+          targets = pending.slice(-(count ?? 1)).reverse();
+        }
+        if (targets.length === 0) throw new Error("Nothing to undo: the journal has no pending changes.");
+
+        const undone = [];
+        for (const entry of targets) {
+          if (!entry.inverse) {
+            return toolResult({
+              undone,
+              stopped_at: { id: entry.id, tool: entry.tool, reason: entry.irreversible },
+            });
+          }
+          // Calls that ran before an earlier undo attempt failed aren't repeated.
+          const calls = entry.inverse.slice(entry.partially_undone?.calls_done ?? 0);
+          if (!dry_run) {
+            let callsDone = entry.inverse.length - calls.length;
+            try {
+              for (const call of calls) {
+                await apiRequest(call.method, call.endpoint, call.params, call.body);
+                callsDone++;
+              }
+            } catch (err) {
+              const reason = err instanceof Error ? err.message : String(err);
+              await journal.markPartiallyUndone(entry.id, callsDone, reason);
+              const done = undone.length ? ` Already undone: ${undone.map((u) => u.id).join(", ")}.` : "";
+              throw new Error(
+                `Undoing ${entry.id} (${entry.tool}) failed after ${callsDone} of ${entry.inverse.length} calls: ` +
+                  `${reason}. Run tt_undo again to resume from the failed call.${done}`,
+              );
+            }
+            await journal.markUndone(entry.id);
+          }
+          undone.push({
+            id: entry.id,
+            tool: entry.tool,
+            calls,
+            ...(entry.approximate && { approximate: entry.approximate }),
+          });
+        }
+        return toolResult({ ...(dry_run && { dry_run: true }), undone });
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+}
@@ -0,0 +1,85 @@
+import { z } from "zod";
+import { apiRequest } from "../api-client.js";
+import type { ToolRegistrar } from "../registration.js";
+import { errorResult, toolResult } from "./shared.js";
+
+export function registerNotificationTools(server: ToolRegistrar) {
+  server.registerTool(
+    "tt_list_notifications",
+    {
+      title: "List Notifications",
+      description:
+        "List notifications filtered by USER or PROJECT scope. " +
+        "By default only unread notifications are returned.",
+      inputSchema: {
+        filter: z.enum(["USER", "PROJECT"]).describe("Filter scope"),
+        id: z.number().describe("User ID or Project ID matching the filter"),
+        include_read: z.boolean().optional().describe("Include already-read notifications"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ filter, id, include_read }) => {
+      try {
+        const params: Record<string, string> = { filter, id: String(id) };
+        if (include_read) params.include_read = "true";
+        return toolResult(await apiRequest("GET", "/notifications", params));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_mark_notification_read",
+    {
+      title: "Mark Notification as Read",
+      description: "Mark a single notification as read.",
+      inputSchema: { id: z.number().describe("Notification ID") },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id }) => {
+      try {
+        return toolResult(await apiRequest("PUT", `/notifications/read/${id}`));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_mark_notifications_read",
+    {
+      title: "Mark Notifications as Read (Bulk)",
+      description: "Mark multiple notifications as read in one call.",
+      inputSchema: {
+        notification_ids: z
+          .array(z.number())
+          .describe("Array of notification IDs, e.g. [1, 2, 3]"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ notification_ids }) => {
+      try {
+        const data = notification_ids.map((id) => ({ id }));
+        return toolResult(await apiRequest("POST", "/notifications/read", undefined, { data }));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+}
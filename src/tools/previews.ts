@@ -0,0 +1,98 @@
+import { apiRequest } from "../api-client.js";
+import type { PreviewBuilder } from "../confirmation.js";
+
+// /events/count needs a date range; this one covers any account's history.
+const ALL_TIME = { from: "2000-01-01", to: "2100-12-31" };
+
+type Row = Record<string, unknown>;
+
+async function getRow(endpoint: string): Promise<Row> {
+  return ((await apiRequest("GET", endpoint)) ?? {}) as Row;
+}
+
+async function countEntries(filter: "PROJECT" | "TASK", id: number): Promise<number> {
+  const result = (await apiRequest("GET", "/events/count", { filter, id: String(id), ...ALL_TIME })) as Row;
+  return Number(result?.count ?? 0);
+}
+
+async function countProjectTasks(projectId: number): Promise<number> {
+  const tasks = await apiRequest("GET", "/tasks", { filter: "ALL", project_id: String(projectId) });
+  return Array.isArray(tasks) ? tasks.length : 0;
+}
+
+async function projectSummary(id: number) {
+  const [project, task_count, entry_count] = await Promise.all([
+    getRow(`/projects/${id}`),
+    countProjectTasks(id),
+    countEntries("PROJECT", id),
+  ]);
+  return { id, name: project.name, status: project.status, task_count, entry_count };
+}
+
+/** What each destructive tool would affect, shown before it asks for confirmation. */
+export const DESTRUCTIVE_PREVIEWS: Record<string, PreviewBuilder> = {
+  async tt_delete_project({ id, delete_all }) {
+    const project = await projectSummary(Number(id));
+    const deletesContents = delete_all !== false;
+    return {
+      action: deletesContents
+        ? "Delete the project together with its tasks and time entries"
+        : "Delete the project but keep its tasks and time entries",
+      project,
+    };
+  },
+
+  async tt_merge_projects({ source_id, target_id }) {
+    const [source, target] = await Promise.all([projectSummary(Number(source_id)), getRow(`/projects/${target_id}`)]);
+    return {
+      action: "Move every task and time entry from the source project into the target, then remove the source",
+      source,
+      target: { id: target_id, name: target.name, status: target.status },
+    };
+  },
+
+  async tt_delete_user_group({ id }) {
+    const group = await getRow(`/users/groups/${id}`);
+    return {
+      action: "Delete the user group",
+      group: { id, name: group.name, member_count: Array.isArray(group.users) ? group.users.length : 0 },
+    };
+  },
+
+  async tt_delete_task({ id, delete_all }) {
+    const [task, entry_count] = await Promise.all([getRow(`/tasks/${id}`), countEntries("TASK", Number(id))]);
+    return {
+      action:
+        delete_all !== false
+          ? "Delete the task together with its time entries"
+          : "Delete the task but keep its time entries",
+      task: { id, name: task.name, project: task.project ?? null, entry_count },
+    };
+  },
+
+  async tt_delete_time_entry({ id }) {
+    const entry = await getRow(`/events/${id}`);
+    return {
+      action: "Delete the time entry",
+      entry: {
+        id,
+        start: entry.start,
+        end: entry.end,
+        duration: entry.duration,
+        user: entry.user ?? null,
+        task: entry.task ?? null,
+        project: entry.project ?? null,
+        notes: entry.notes ?? null,
+      },
+    };
+  },
+
+  async tt_delete_customer({ id }) {
+    const [customer, projects] = await Promise.all([
+      getRow(`/customers/${id}`),
+      apiRequest("GET", "/projects", { filter: "ALL" }),
+    ]);
+    const project_count = Array.isArray(projects) ? projects.filter((p: Row) => p.customer_id === id).length : 0;
+    return { action: "Delete the customer", customer: { id, name: customer.name, project_count } };
+  },
+};
@@ -0,0 +1,519 @@
+import { z } from "zod";
+import { apiRequest } from "../api-client.js";
+import { budgetStatus } from "../budget.js";
+import { parseDate, shiftDays } from "../dates.js";
+import { fetchAllEvents } from "../events.js";
+import { rateFor } from "../invoice.js";
+import type { ToolRegistrar } from "../registration.js";
+import { idOrName, resolveId } from "../resolver.js";
+import { loadSettings, settingFor } from "../settings.js";
+import { taskTimes } from "../task-times.js";
+import type { TrackedTime } from "../task-times.js";
+import { errorResult, toolResult } from "./shared.js";
+
+/** The fields of GET /projects/{id} (with tasks and billing) that the budget status reads. */
+interface ProjectDetail {
+  name?: string | null;
+  customer?: string | null;
+  customer_id?: number | null;
+  service?: string | null;
+  service_id?: number | null;
+  billing?: { hourly_rate?: unknown } | null;
+  tasks?: { id: number; name?: string | null }[] | null;
+}
+
+export function registerProjectTools(server: ToolRegistrar) {
+  server.registerTool(
+    "tt_list_projects",
+    {
+      title: "List Projects",
+      description:
+        "List TrackingTime projects. Returns active projects by default. " +
+        "Use filter to show ALL, ACTIVE, ARCHIVED, or FOLLOWING projects.",
+      inputSchema: {
+        filter: z
+          .enum(["ALL", "ACTIVE", "ARCHIVED", "FOLLOWING"])
+          .optional()
+          .describe("Project filter (default: ACTIVE)"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ filter }) => {
+      try {
+        const params: Record<string, string> = {};
+        if (filter) params.filter = filter;
+        return toolResult(await apiRequest("GET", "/projects", params));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_search_projects",
+    {
+      title: "Search Projects",
+      description:
+        "Search TrackingTime projects and tasks by keyword (min 3 characters). " +
+        "Set type to PROJECT, TASK, or ALL to narrow results.",
+      inputSchema: {
+        keyword: z.string().min(3).describe("Search keyword (min 3 chars)"),
+        filter: z
+          .enum(["ALL", "ACTIVE", "ARCHIVED", "FOLLOWING"])
+          .optional()
+          .describe("Project filter"),
+        type: z
+          .enum(["PROJECT", "TASK", "ALL"])
+          .optional()
+          .describe("Search type (default: ALL)"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ keyword, filter, type }) => {
+      try {
+        const params: Record<string, string> = { keyword };
+        if (filter) params.filter = filter;
+        if (type) params.type = type;
+        return toolResult(await apiRequest("GET", "/projects/search", params));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_create_project",
+    {
+      title: "Create Project",
+      description: "Create a new TrackingTime project.",
+      inputSchema: {
+        name: z.string().describe("Project name (required)"),
+        customer_name: z.string().optional().describe("Customer name to associate"),
+        service_name: z.string().optional().describe("Service/category name"),
+        template_id: z.number().optional().describe("Template project ID to copy structure from"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ name, customer_name, service_name, template_id }) => {
+      try {
+        const body: Record<string, unknown> = { name };
+        if (customer_name) body.customer_name = customer_name;
+        if (service_name) body.service_name = service_name;
+        if (template_id) body.template_id = template_id;
+        return toolResult(await apiRequest("POST", "/projects/add", undefined, body));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_archive_project",
+    {
+      title: "Archive Project",
+      description: "Archive (close) a TrackingTime project. The project can be reopened later.",
+      inputSchema: {
+        id: z.number().describe("Project ID to archive"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id }) => {
+      try {
+        return toolResult(await apiRequest("PUT", `/projects/close/${id}`));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_update_project",
+    {
+      title: "Update Project",
+      description: "Update an existing TrackingTime project (name, customer, service).",
+      inputSchema: {
+        id: z.number().describe("Project ID to update"),
+        name: z.string().optional().describe("New project name"),
+        customer_name: z.string().optional().describe("New customer name"),
+        service_name: z.string().optional().describe("New service/category name"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id, name, customer_name, service_name }) => {
+      try {
+        const body: Record<string, unknown> = {};
+        if (name) body.name = name;
+        if (customer_name) body.customer_name = customer_name;
+        if (service_name) body.service_name = service_name;
+        return toolResult(await apiRequest("POST", `/projects/update/${id}`, undefined, body));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_get_project_users",
+    {
+      title: "Get Project Users",
+      description:
+        "List all users assigned to a specific project. " +
+        "Returns users who have at least one task in the project.",
+      inputSchema: {
+        id: z.number().describe("Project ID"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id }) => {
+      try {
+        return toolResult(await apiRequest("GET", `/projects/${id}/users`));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_get_project",
+    {
+      title: "Get Project",
+      description:
+        "Get a single TrackingTime project with optional detail flags.",
+      inputSchema: {
+        id: z.number().describe("Project ID"),
+        include_tasks: z.boolean().optional().describe("Include project tasks"),
+        include_task_lists: z.boolean().optional().describe("Include task lists"),
+        include_billing: z.boolean().optional().describe("Include billing data"),
+        include_subtasks: z.boolean().optional().describe("Include subtasks"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id, include_tasks, include_task_lists, include_billing, include_subtasks }) => {
+      try {
+        const params: Record<string, string> = {};
+        if (include_tasks) params.include_tasks = "true";
+        if (include_task_lists) params.include_task_lists = "true";
+        if (include_billing) params.include_billing = "true";
+        if (include_subtasks) params.include_subtasks = "true";
+        return toolResult(await apiRequest("GET", `/projects/${id}`, params));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_reopen_project",
+    {
+      title: "Reopen Project",
+      description: "Reopen a previously archived TrackingTime project.",
+      inputSchema: {
+        id: z.number().describe("Project ID to reopen"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id }) => {
+      try {
+        return toolResult(await apiRequest("PUT", `/projects/open/${id}`));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_get_project_times",
+    {
+      title: "Get Project Times",
+      description:
+        "Get accumulated tracked times for one or more projects. " +
+        "Returns time data including estimates and totals.",
+      inputSchema: {
+        project_ids: z
+          .array(z.number())
+          .describe("Array of project IDs, e.g. [1, 2, 3]"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ project_ids }) => {
+      try {
+        const data = project_ids.map((id) => ({ id }));
+        return toolResult(
+          await apiRequest("POST", "/projects/times", undefined, { data }, { retry: true }),
+        );
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  // tt_list_project_ids — lightweight list of project IDs only
+  server.registerTool(
+    "tt_list_project_ids",
+    {
+      title: "List Project IDs",
+      description: "List only project IDs (lightweight). Useful for batch operations.",
+      inputSchema: {
+        filter: z
+          .enum(["ALL", "ACTIVE", "ARCHIVED", "FOLLOWING"])
+          .optional()
+          .describe("Project filter (default: ACTIVE)"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ filter }) => {
+      try {
+        const params: Record<string, string> = {};
+        if (filter) params.filter = filter;
+        return toolResult(await apiRequest("GET", "/projects/ids", params));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  // tt_delete_project — permanently delete a project
+  server.registerTool(
+    "tt_delete_project",
+    {
+      title: "Delete Project",
+      description:
+        "Permanently delete a TrackingTime project. " +
+        "Set delete_all=false to keep tasks and time entries.",
+      inputSchema: {
+        id: z.number().describe("Project ID to delete"),
+        delete_all: z
+          .boolean()
+          .optional()
+          .describe("Also delete tasks/entries (default: true). Set false to keep them."),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ id, delete_all }) => {
+      try {
+        const params: Record<string, string> = {};
+        if (delete_all !== undefined) params.delete_all = String(delete_all);
+        return toolResult(await apiRequest("DELETE", `/projects/delete/${id}`, params));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  // tt_merge_projects — merge one project into another
+  server.registerTool(
+    "tt_merge_projects",
+    {
+      title: "Merge Projects",
+      description:
+        "Merge a source project into a target project. " +
+        "All tasks and entries move to the target.",
+      inputSchema: {
+        source_id: z.number().describe("Source project ID (will be merged away)"),
+        target_id: z.number().describe("Target project ID (will receive everything)"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ source_id, target_id }) => {
+      try {
+        return toolResult(
+          await apiRequest("POST", `/projects/merge/${source_id}`, undefined, { into: target_id }),
+        );
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  // tt_update_project_preferences — set favorite, default view, etc.
+  server.registerTool(
+    "tt_update_project_preferences",
+    {
+      title: "Update Project Preferences",
+      description: "Update your personal preferences for a project (view, favorite, show closed).",
+      inputSchema: {
+        id: z.number().describe("Project ID"),
+        default_view: z.string().optional().describe("Default view for this project"),
+        is_favorite: z.boolean().optional().describe("Mark as favorite"),
+        show_closed_tasks: z.boolean().optional().describe("Show closed tasks"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id, default_view, is_favorite, show_closed_tasks }) => {
+      try {
+        const body: Record<string, unknown> = {};
+        if (default_view) body.default_view = default_view;
+        if (is_favorite !== undefined) body.is_favorite = is_favorite;
+        if (show_closed_tasks !== undefined) body.show_closed_tasks = show_closed_tasks;
+        return toolResult(
+          await apiRequest("POST", `/projects/update_preferences/${id}`, undefined, body),
+        );
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_project_budget_status",
+    {
+      title: "Project Budget Status",
+      description:
+        "Compare a project's tracked time with its task estimates and the hour/money budget from the settings " +
+        "file: percent consumed, burn rate over the last `weeks` weeks, the projected date the budget runs out " +
+        "and the tasks already past their estimates. Money uses the same hourly rates as invoice drafts. " +
+        "Without project_id, covers every active project that has a budget or task estimates.",
+      inputSchema: {
+        project_id: idOrName()
+          .optional()
+          .describe("Project ID or name (default: every active project with a budget or estimates)"),
+        weeks: z
+          .number()
+          .int()
+          .positive()
+          .max(52)
+          .optional()
+          .describe("Weeks of recent tracking the burn rate is averaged over (default 4)"),
+        until: z
+          .string()
+          .optional()
+          .describe("Last day of the burn-rate window, also where projections start (default: today)"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ project_id, weeks = 4, until }) => {
+      try {
+        const settings = await loadSettings();
+        const rates = settings.rates ?? {};
+        const today = parseDate(until ?? "today", "end");
+        let projects: { id: number; name?: string | null }[];
+        if (project_id === undefined) {
+          const listed = await apiRequest("GET", "/projects");
+          projects = Array.isArray(listed) ? listed : [];
+        } else {
+          projects = [{ id: await resolveId("project", project_id) }];
+        }
+        const data = projects.map((p) => ({ id: p.id }));
+        const times = await apiRequest("POST", "/projects/times", undefined, { data }, { retry: true });
+        const timesById = new Map((Array.isArray(times) ? (times as TrackedTime[]) : []).map((t) => [t.id, t]));
+
+        const statuses = [];
+        for (const { id, name } of projects) {
+          const estimate = Number(timesById.get(id)?.estimated_time) || 0;
+          if (project_id === undefined && !estimate && !settingFor(settings.budgets?.projects, id, name)) continue;
+          const project = (await apiRequest("GET", `/projects/${id}`, {
+            include_tasks: "true",
+            include_billing: "true",
+          })) as ProjectDetail;
+          const budget = settingFor(settings.budgets?.projects, id, project.name);
+          const tasks = Array.isArray(project.tasks) ? project.tasks : [];
+          const timesByTask = await taskTimes(tasks.map((t) => t.id));
+          const { entries } = await fetchAllEvents({
+            filter: "PROJECT",
+            id,
+            from: shiftDays(today, 1 - weeks * 7),
+            to: today,
+          });
+          const billingRate = project.billing?.hourly_rate;
+          const rate = rateFor(
+            { ...project, project_id: id, project: project.name },
+            rates,
+            new Map([[id, typeof billingRate === "number" ? billingRate : null]]),
+          );
+          statuses.push(
+            budgetStatus({
+              project: { id, name: project.name ?? null, customer: project.customer ?? null },
+              estimateHours: estimate,
+              actualSeconds: Number(timesById.get(id)?.accumulated_time) || 0,
+              budget,
+              rate: rate?.rate,
+              currency: rates.currency,
+              recentSeconds: entries.reduce((sum, e) => sum + (Number(e.duration) || 0), 0),
+              weeks,
+              today,
+              tasks: [...timesByTask.values()].map((t) => ({
+                id: t.id,
+                name: tasks.find((task) => task.id === t.id)?.name ?? null,
+                estimated_time: Number(t.estimated_time) || 0,
+                accumulated_time: Number(t.accumulated_time) || 0,
+              })),
+            }),
+          );
+        }
+        return toolResult(project_id === undefined ? { as_of: today, projects: statuses } : statuses[0]);
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+}
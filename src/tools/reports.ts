@@ -0,0 +1,396 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { z } from "zod";
+import { apiRequest } from "../api-client.js";
+import { buildCustomerReport, renderReportHtml, renderReportMarkdown, reportPath } from "../customer-report.js";
+import { parseDate, parseDateTime, parseRange } from "../dates.js";
+import { dueTasks, summarizeDay } from "../digest.js";
+import type { UserTaskRow } from "../digest.js";
+import { fetchAllEvents } from "../events.js";
+import type { TimeEntry } from "../events.js";
+import type { ToolRegistrar } from "../registration.js";
+import { idOrName, resolveId, resolveOptional, resolveSessionUser } from "../resolver.js";
+import { loadRounding } from "../rounding.js";
+import { loadSettings, settingFor } from "../settings.js";
+import { runningTimers } from "../timers.js";
+import { configuredExpectedHours } from "../timesheet.js";
+import { teamUtilization } from "../utilization.js";
+import { checkWorkingTime, DEFAULT_WORKING_TIME_RULES } from "../working-time.js";
+import type { Absence, WorkingTimeRules } from "../working-time.js";
+import { errorResult, toolResult } from "./shared.js";
+
+type Row = Record<string, unknown>;
+
+interface UserRow {
+  id: number;
+  name?: string | null;
+  surname?: string | null;
+}
+
+/** A row of /events/min with include_timeoffs; time off carries a `date` instead of a `start`. */
+interface MinEventRow {
+  user_id: number;
+  start?: string | null;
+  date?: string | null;
+  duration?: number | null;
+  notes?: string | null;
+  type?: string | null;
+}
+
+/** Active users, or the members of one user group, with their full names. */
+async function staffMembers(groupId?: number | string): Promise<{ id: number; name: string | null }[]> {
+  const listed = await apiRequest("GET", "/users");
+  let users = Array.isArray(listed) ? (listed as UserRow[]) : [];
+  if (groupId !== undefined) {
+    const group = (await apiRequest("GET", `/users/groups/${await resolveId("group", groupId)}`)) as {
+      users?: { id: number }[] | null;
+    } | null;
+    const members = new Set((group?.users ?? []).map((u) => u.id));
+    users = users.filter((u) => members.has(u.id));
+  }
+  return users.map((u) => ({ id: u.id, name: [u.name, u.surname].filter(Boolean).join(" ") || null }));
+}
+
+export function registerReportTools(server: ToolRegistrar) {
+  server.registerTool(
+    "tt_get_user_report",
+    {
+      title: "Get User Report",
+      description:
+        "Get an analytics report for a user over a date range. " +
+        "Returns charts, metadata, and detailed breakdowns of tracked time. " +
+        "Admin or project manager role required.",
+      inputSchema: {
+        user_id: idOrName().describe("User ID or name to report on"),
+        from: z.string().describe("Start date (YYYY-MM-DD, or e.g. today, last week, this month)"),
+        to: z.string().describe("End date (YYYY-MM-DD, or e.g. today, last week, this month)"),
+        sort_by: z
+          .enum(["NAME", "WORKED_HOURS"])
+          .optional()
+          .describe("Sort order (default: NAME)"),
+        filter: z
+          .enum(["ALL", "ACTIVE", "ARCHIVED"])
+          .optional()
+          .describe("Scope filter (default: ACTIVE)"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ user_id, from, to, sort_by, filter }) => {
+      try {
+        const params: Record<string, string> = parseRange(from, to);
+        if (sort_by) params.sort_by = sort_by;
+        if (filter) params.filter = filter;
+        const userId = await resolveId("user", user_id);
+        return toolResult(await apiRequest("GET", `/reports/users/${userId}`, params));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_team_utilization",
+    {
+      title: "Team Utilization",
+      description:
+        "Compare each person's tracked hours over a date range with their contracted capacity, split into " +
+        "billable and non-billable time, and rank over- and under-utilized staff. Capacity comes from the " +
+        "settings file's capacity table (weekly hours by user ID or name, then default_weekly_hours, else " +
+        "5 × TT_EXPECTED_HOURS) prorated over the range's Monday-to-Friday days. Covers all active users, " +
+        "or the members of one user group.",
+      inputSchema: {
+        from: z.string().describe("Start date (YYYY-MM-DD, or e.g. last week, last month)"),
+        to: z.string().describe("End date (YYYY-MM-DD, or e.g. last week, last month)"),
+        group_id: idOrName().optional().describe("User group ID or name (default: all active users)"),
+        billable_by: z
+          .enum(["billed", "services"])
+          .optional()
+          .describe(
+            "billed: entries marked billed are billable; services: entries on the settings file's " +
+              "billable_services are (default: services when that list is set, else billed)",
+          ),
+        over_percent: z
+          .number()
+          .positive()
+          .optional()
+          .describe("Utilization above this percentage of capacity counts as over-utilized (default 100)"),
+        under_percent: z
+          .number()
+          .nonnegative()
+          .optional()
+          .describe("Utilization below this percentage of capacity counts as under-utilized (default 75)"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ from, to, group_id, billable_by, over_percent = 100, under_percent = 75 }) => {
+      try {
+        const range = parseRange(from, to);
+        const settings = await loadSettings();
+        const services = settings.billable_services ?? [];
+        const basis = billable_by ?? (services.length ? "services" : "billed");
+        if (basis === "services" && !services.length) {
+          throw new Error(
+            "billable_by services needs a billable_services list of service IDs or names in the settings file.",
+          );
+        }
+
+        const defaultWeekly = settings.capacity?.default_weekly_hours ?? configuredExpectedHours() * 5;
+        const staff = (await staffMembers(group_id)).map((u) => ({
+          ...u,
+          weeklyHours: settingFor(settings.capacity?.users, u.id, u.name) ?? defaultWeekly,
+        }));
+
+        const { entries } = await fetchAllEvents({ filter: "COMPANY", ...range });
+        const billableServices = Object.fromEntries(services.map((s) => [s, true]));
+        const isBillable =
+          basis === "billed"
+            ? (e: TimeEntry) => Boolean(e.billed)
+            : (e: TimeEntry) => settingFor(billableServices, e.service_id, e.service) === true;
+        return toolResult(
+          teamUtilization(staff, entries, range, isBillable, basis, { over_percent, under_percent }),
+        );
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_check_working_time",
+    {
+      title: "Check Working Time",
+      description:
+        "Check tracked time against working-time rules over a date range and list each violation with the " +
+        "offending event IDs: more than max_daily_hours in a day or max_weekly_hours in an ISO week, less " +
+        "than min_rest_hours between working days, work on weekends or holidays, more than " +
+        "max_consecutive_days working days in a row, and work on days with time off. Rules default to the " +
+        "settings file's working_time section, then 10 h/day, 48 h/week, 11 h rest, 6 days and no weekend " +
+        "work. Covers one user, one user group or all active users.",
+      inputSchema: {
+        from: z.string().describe("Start date (YYYY-MM-DD, or e.g. last week, last month)"),
+        to: z.string().describe("End date (YYYY-MM-DD, or e.g. last week, last month)"),
+        user_id: idOrName().optional().describe("User ID or name (default: every active user)"),
+        group_id: idOrName().optional().describe("User group ID or name (default: every active user)"),
+        max_daily_hours: z.number().positive().max(24).optional().describe("Most hours allowed in a day"),
+        max_weekly_hours: z.number().positive().max(168).optional().describe("Most hours allowed in an ISO week"),
+        min_rest_hours: z
+          .number()
+          .nonnegative()
+          .max(24)
+          .optional()
+          .describe("Least rest between the last entry of one day and the first of the next"),
+        max_consecutive_days: z.number().int().positive().optional().describe("Most working days in a row"),
+        allow_weekend_work: z.boolean().optional().describe("Don't report work on Saturdays and Sundays"),
+        holidays: z
+          .array(z.string())
+          .optional()
+          .describe("Public holidays (YYYY-MM-DD), added to the settings file's list"),
+        include_timeoffs: z
+          .boolean()
+          .optional()
+          .describe("Read time off from /events/min and report work on those days (default: true)"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ from, to, user_id, group_id, holidays, include_timeoffs = true, ...limits }) => {
+      try {
+        if (user_id !== undefined && group_id !== undefined) throw new Error("Pass user_id or group_id, not both.");
+        const range = parseRange(from, to);
+        const configured = (await loadSettings()).working_time ?? {};
+        const rules: WorkingTimeRules = {
+          ...DEFAULT_WORKING_TIME_RULES,
+          ...configured,
+          ...Object.fromEntries(Object.entries(limits).filter(([, value]) => value !== undefined)),
+          holidays: [...(configured.holidays ?? []), ...(holidays ?? []).map((day) => parseDate(day))],
+        };
+
+        const userId = await resolveOptional("user", user_id);
+        let users = await staffMembers(group_id);
+        if (userId !== undefined) {
+          users = users.filter((u) => u.id === userId);
+          if (!users.length) users = [{ id: userId, name: null }];
+        }
+        const query = userId === undefined ? { filter: "COMPANY" as const } : { filter: "USER" as const, id: userId };
+        const { entries } = await fetchAllEvents({ ...query, ...range });
+
+        let absences: Absence[] = [];
+        if (include_timeoffs) {
+          const params: Record<string, string> = { filter: query.filter, ...range, include_timeoffs: "true" };
+          if (userId !== undefined) params.id = String(userId);
+          const rows = await apiRequest("GET", "/events/min", params);
+          // Time off rows carry a date instead of a start and end.
+          absences = (Array.isArray(rows) ? (rows as MinEventRow[]) : [])
+            .filter((r) => !r.start && r.date)
+            .map((r) => ({
+              user_id: r.user_id,
+              date: String(r.date).slice(0, 10),
+              hours: Math.round((Number(r.duration) || 0) / 36) / 100,
+              reason: r.notes || r.type || null,
+            }));
+        }
+
+        const ids = new Set(users.map((u) => u.id));
+        return toolResult({
+          ...range,
+          rules,
+          users_checked: users.length,
+          ...checkWorkingTime(users, entries, absences, rules),
+          absences: absences.filter((a) => ids.has(a.user_id)),
+        });
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_customer_report",
+    {
+      title: "Customer Report",
+      description:
+        "Build a client-facing activity report for a customer and period: projects, tasks, hours per task, " +
+        "dated notes and totals, as Markdown or a self-contained HTML page. Staff names and internal tags " +
+        "can be left out and hours rounded per the rounding policies. Returned inline, or written to a new " +
+        "file output_path inside the reports directory (TT_REPORTS_DIR) on this machine.",
+      inputSchema: {
+        customer_id: idOrName().describe("Customer ID or name"),
+        from: z.string().describe("Start date (YYYY-MM-DD, or e.g. last month)"),
+        to: z.string().describe("End date (YYYY-MM-DD, or e.g. last month)"),
+        format: z.enum(["markdown", "html"]).optional().describe("Output format (default: markdown)"),
+        hide_staff: z.boolean().optional().describe("Leave out who tracked each entry (default: false)"),
+        hide_tags: z
+          .union([z.boolean(), z.array(z.string())])
+          .optional()
+          .describe("true to leave out all tags, or the names of internal tags to leave out (default: show all)"),
+        use_rounding: z
+          .boolean()
+          .optional()
+          .describe("Report hours rounded per the settings file's rounding policies (default: false)"),
+        output_path: z
+          .string()
+          .optional()
+          .describe("Write the report to this new file, relative to the reports directory, instead of returning it"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ customer_id, from, to, format = "markdown", hide_staff, hide_tags, use_rounding, output_path }) => {
+      try {
+        const range = parseRange(from, to);
+        const customerId = await resolveId("customer", customer_id);
+        const customer = (await apiRequest("GET", `/customers/${customerId}`)) as { name?: string | null } | null;
+        const { entries } = await fetchAllEvents({ filter: "CUSTOMER", id: customerId, ...range, order: "asc" });
+        const report = buildCustomerReport(
+          entries.filter((e) => e.end),
+          { id: customerId, name: customer?.name ?? null },
+          range,
+          {
+            hideStaff: hide_staff ?? false,
+            hideTags: hide_tags ?? false,
+            rounding: use_rounding ? await loadRounding() : undefined,
+          },
+        );
+        const document = format === "html" ? renderReportHtml(report) : renderReportMarkdown(report);
+        if (!output_path) return { content: [{ type: "text" as const, text: document }] };
+
+        const path = reportPath(output_path);
+        await mkdir(dirname(path), { recursive: true });
+        try {
+          await writeFile(path, document, { encoding: "utf8", flag: "wx" });
+        } catch (err) {
+          if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+          throw new Error(`${path} already exists; choose another output_path.`);
+        }
+        return toolResult({
+          path,
+          format,
+          bytes: Buffer.byteLength(document),
+          customer_id: customerId,
+          customer: report.customer,
+          ...range,
+          totals: report.totals,
+        });
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_daily_digest",
+    {
+      title: "Daily Digest",
+      description:
+        "A compact standup / end-of-day summary for a user: the previous day's time entries per task with " +
+        "their notes, the timer running now, open tasks due today or overdue, and unread notifications. " +
+        "Defaults to your own (TT_USER_ID) and to yesterday.",
+      inputSchema: {
+        user_id: idOrName().optional().describe("User ID or name (default: TT_USER_ID)"),
+        date: z
+          .string()
+          .optional()
+          .describe('Day to summarize (YYYY-MM-DD, or e.g. "last friday"). Default: yesterday'),
+        notification_limit: z
+          .number()
+          .int()
+          .nonnegative()
+          .optional()
+          .describe("Most unread notifications to include (default 10)"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ user_id, date, notification_limit = 10 }) => {
+      try {
+        const userId = user_id === undefined ? await resolveSessionUser() : await resolveId("user", user_id);
+        const now = parseDateTime("now");
+        const today = now.slice(0, 10);
+        const day = parseDate(date ?? "yesterday");
+        const { entries } = await fetchAllEvents({ filter: "USER", id: userId, from: day, to: day, order: "asc" });
+        const tasks = await apiRequest("GET", `/users/${userId}/tasks`);
+        const due = dueTasks(Array.isArray(tasks) ? (tasks as UserTaskRow[]) : [], today);
+        const unread = await apiRequest("GET", "/notifications", { filter: "USER", id: String(userId) });
+        const notifications = (Array.isArray(unread) ? (unread as Row[]) : []).filter((n) => !n.read);
+        return toolResult({
+          user_id: userId,
+          today,
+          worked: { date: day, ...summarizeDay(entries) },
+          tracking: await runningTimers([{ id: userId }], now),
+          due_today: due.due_today,
+          overdue: due.overdue,
+          notifications: {
+            unread: notifications.length,
+            items: notifications
+              .slice(0, notification_limit)
+              .map((n) => ({ id: n.id, message: n.message ?? null, project_id: n.project_id ?? null })),
+          },
+        });
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+}
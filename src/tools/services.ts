@@ -0,0 +1,188 @@
+import { z } from "zod";
+import { apiRequest } from "../api-client.js";
+import type { ToolRegistrar } from "../registration.js";
+import { errorResult, toolResult } from "./shared.js";
+
+export function registerServiceTools(server: ToolRegistrar) {
+  server.registerTool(
+    "tt_list_services",
+    {
+      title: "List Services",
+      description:
+        "List services (categories/types of work) available for projects. " +
+        "Services are used alongside customers to classify projects.",
+      inputSchema: {
+        filter: z
+          .enum(["ALL", "ACTIVE", "ARCHIVED"])
+          .optional()
+          .describe("Service filter (default: ACTIVE)"),
+        include_billing: z.boolean().optional().describe("Include billing data"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ filter, include_billing }) => {
+      try {
+        const params: Record<string, string> = {};
+        if (filter) params.filter = filter;
+        if (include_billing) params.include_billing = "true";
+        return toolResult(await apiRequest("GET", "/services", params));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_get_service",
+    {
+      title: "Get Service",
+      description: "Get a single service by ID.",
+      inputSchema: {
+        id: z.number().describe("Service ID"),
+        include_billing: z.boolean().optional().describe("Include billing data"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id, include_billing }) => {
+      try {
+        const params: Record<string, string> = {};
+        if (include_billing) params.include_billing = "true";
+        return toolResult(await apiRequest("GET", `/services/${id}`, params));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_create_service",
+    {
+      title: "Create Service",
+      description:
+        "Create a new service category. Names must be unique. " +
+        "Requires admin or project manager role.",
+      inputSchema: {
+        name: z.string().describe("Service name (required, must be unique)"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ name }) => {
+      try {
+        return toolResult(await apiRequest("POST", "/services/add", undefined, { name }));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_update_service",
+    {
+      title: "Update Service",
+      description: "Update an existing service.",
+      inputSchema: {
+        id: z.number().describe("Service ID"),
+        name: z.string().optional().describe("New service name"),
+        is_archived: z.boolean().optional().describe("Archive status"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id, name, is_archived }) => {
+      try {
+        const body: Record<string, unknown> = {};
+        if (name) body.name = name;
+        if (is_archived !== undefined) body.is_archived = is_archived;
+        return toolResult(await apiRequest("PUT", `/services/update/${id}`, undefined, body));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_archive_service",
+    {
+      title: "Archive Service",
+      description: "Archive a service. Can be reactivated later.",
+      inputSchema: { id: z.number().describe("Service ID to archive") },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id }) => {
+      try {
+        return toolResult(await apiRequest("PUT", `/services/close/${id}`));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_reactivate_service",
+    {
+      title: "Reactivate Service",
+      description: "Reactivate a previously archived service.",
+      inputSchema: { id: z.number().describe("Service ID to reactivate") },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id }) => {
+      try {
+        return toolResult(await apiRequest("PUT", `/services/open/${id}`));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_delete_service",
+    {
+      title: "Delete Service",
+      description:
+        "Permanently delete a service. Project references to it will be cleared.",
+      inputSchema: { id: z.number().describe("Service ID to delete") },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ id }) => {
+      try {
+        return toolResult(await apiRequest("DELETE", `/services/delete/${id}`));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+}
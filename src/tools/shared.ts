@@ -0,0 +1,20 @@
+import { TrackingTimeError } from "../api-client.js";
+import { withDurationCompanions } from "../durations.js";
+
+function formatError(err: unknown): string {
+  if (err instanceof TrackingTimeError) {
+    return `TrackingTime API error (${err.status}): ${err.message}`;
+  }
+  if (err instanceof Error) return err.message;
+  return String(err);
+}
+
+/** Pretty-printed JSON, with HH:MM / decimal-hour companions next to duration fields. */
+export function toolResult(data: unknown) {
+  const text = JSON.stringify(withDurationCompanions(data), null, 2);
+  return { content: [{ type: "text" as const, text }] };
+}
+
+export function errorResult(err: unknown) {
+  return { content: [{ type: "text" as const, text: formatError(err) }], isError: true as const };
+}
@@ -0,0 +1,232 @@
+import { z } from "zod";
+import { apiRequest } from "../api-client.js";
+import type { ToolRegistrar } from "../registration.js";
+import { errorResult, toolResult } from "./shared.js";
+
+export function registerTagTools(server: ToolRegistrar) {
+  server.registerTool(
+    "tt_list_tags",
+    {
+      title: "List Event Tags",
+      description:
+        "List all event (time-entry) tags defined in the account. " +
+        "Tags are name/value pairs used to categorize time entries beyond project/task.",
+      inputSchema: {},
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async () => {
+      try {
+        return toolResult(await apiRequest("GET", "/events/tags"));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_get_tag",
+    {
+      title: "Get Event Tag",
+      description: "Get a single event tag by ID.",
+      inputSchema: { id: z.number().describe("Tag ID") },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id }) => {
+      try {
+        return toolResult(await apiRequest("GET", `/events/tags/${id}`));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_list_tag_values",
+    {
+      title: "List Tag Values",
+      description: "List all values that have been used for a given tag name.",
+      inputSchema: { name: z.string().describe("Tag name") },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ name }) => {
+      try {
+        return toolResult(await apiRequest("GET", "/events/tags/values", { name }));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_create_tag",
+    {
+      title: "Create Event Tag",
+      description:
+        "Create a new event tag definition. " +
+        "Tags can then be attached to time entries via tt_save_event_tag.",
+      inputSchema: {
+        name: z.string().describe("Tag name (required)"),
+        value: z.string().optional().describe("Default value for this tag"),
+        type: z.string().optional().describe("Tag type"),
+        color: z.string().optional().describe("Display color"),
+        notes: z.string().optional().describe("Notes about the tag"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ name, value, type, color, notes }) => {
+      try {
+        const body: Record<string, unknown> = { name };
+        if (value !== undefined) body.value = value;
+        if (type) body.type = type;
+        if (color) body.color = color;
+        if (notes) body.notes = notes;
+        return toolResult(await apiRequest("POST", "/events/tags/add", undefined, body));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_update_tag",
+    {
+      title: "Update Event Tag",
+      description: "Update an existing event tag definition.",
+      inputSchema: {
+        id: z.number().describe("Tag ID"),
+        name: z.string().optional().describe("New name"),
+        value: z.string().optional().describe("New default value"),
+        type: z.string().optional().describe("New tag type"),
+        color: z.string().optional().describe("New color"),
+        notes: z.string().optional().describe("New notes"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id, name, value, type, color, notes }) => {
+      try {
+        const body: Record<string, unknown> = {};
+        if (name) body.name = name;
+        if (value !== undefined) body.value = value;
+        if (type) body.type = type;
+        if (color) body.color = color;
+        if (notes) body.notes = notes;
+        return toolResult(await apiRequest("PUT", `/events/tags/update/${id}`, undefined, body));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_delete_tag",
+    {
+      title: "Delete Event Tag",
+      description:
+        "Permanently delete a tag definition. Removes it from all events that use it.",
+      inputSchema: { id: z.number().describe("Tag ID to delete") },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ id }) => {
+      try {
+        return toolResult(await apiRequest("DELETE", `/events/tags/delete/${id}`));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_save_event_tag",
+    {
+      title: "Attach Tag to Event",
+      description:
+        "Attach (or update) a tag on a specific time entry. " +
+        "Creates the tag definition if the name doesn't exist yet.",
+      inputSchema: {
+        event_id: z.number().describe("Time entry (event) ID"),
+        name: z.string().describe("Tag name"),
+        value: z.string().optional().describe("Tag value for this event"),
+        type: z.string().optional().describe("Tag type"),
+        color: z.string().optional().describe("Display color"),
+        notes: z.string().optional().describe("Notes"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ event_id, name, value, type, color, notes }) => {
+      try {
+        const body: Record<string, unknown> = { name };
+        if (value !== undefined) body.value = value;
+        if (type) body.type = type;
+        if (color) body.color = color;
+        if (notes) body.notes = notes;
+        return toolResult(
+          await apiRequest("POST", `/events/${event_id}/tags/save`, undefined, body),
+        );
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_delete_event_tag",
+    {
+      title: "Remove Tag from Event",
+      description: "Remove a specific tag from a time entry by tag name.",
+      inputSchema: {
+        event_id: z.number().describe("Time entry ID"),
+        name: z.string().describe("Tag name to remove"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ event_id, name }) => {
+      try {
+        return toolResult(
+          await apiRequest("DELETE", `/events/${event_id}/tags/delete`, { name }),
+        );
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+}
@@ -0,0 +1,487 @@
+import { z } from "zod";
+import { apiRequest } from "../api-client.js";
+import { parseDate } from "../dates.js";
+import { bucketByDeadline, deadlineTask } from "../deadlines.js";
+import { durationParam, parseDuration } from "../durations.js";
+import type { ToolRegistrar } from "../registration.js";
+import { idOrName, resolveId, resolveOptional } from "../resolver.js";
+import { taskTimes } from "../task-times.js";
+import { errorResult, toolResult } from "./shared.js";
+
+/** The fields of /tasks rows the due-task list reads. */
+interface TaskRow {
+  id: number;
+  name?: string | null;
+  project_id?: number | null;
+  project?: string | null;
+  customer_id?: number | null;
+  customer?: string | null;
+  service_id?: number | null;
+  service?: string | null;
+  users?: { id: number }[] | null;
+  user_id?: number | null;
+  due_date?: string | null;
+  estimated_time?: number | null;
+  accumulated_time?: number | null;
+}
+
+type ProjectRow = Pick<TaskRow, "id" | "name" | "customer_id" | "customer" | "service_id" | "service">;
+
+interface UserRow {
+  id: number;
+  name?: string | null;
+  surname?: string | null;
+}
+
+function listOf<T>(rows: unknown): T[] {
+  return Array.isArray(rows) ? (rows as T[]) : [];
+}
+
+export function registerTaskTools(server: ToolRegistrar) {
+  server.registerTool(
+    "tt_list_tasks",
+    {
+      title: "List Tasks",
+      description:
+        "List TrackingTime tasks. Filter by status or project. " +
+        "Use filter=TRACKING to see currently running timers.",
+      inputSchema: {
+        filter: z
+          .enum(["ALL", "ACTIVE", "ARCHIVED", "TRACKING"])
+          .optional()
+          .describe("Task filter (default: ACTIVE)"),
+        project_id: idOrName().optional().describe("Filter by project ID or name"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ filter, project_id }) => {
+      try {
+        const params: Record<string, string> = {};
+        if (filter) params.filter = filter;
+        if (project_id !== undefined) params.project_id = String(await resolveOptional("project", project_id));
+        return toolResult(await apiRequest("GET", "/tasks", params));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_create_task",
+    {
+      title: "Create Task",
+      description:
+        "Create a new task in TrackingTime. estimated_time is in hours, or a string with units (e.g. \"2h30m\").",
+      inputSchema: {
+        name: z.string().describe("Task name (required)"),
+        project_id: idOrName().optional().describe("Project ID or name to add task to"),
+        user_id: idOrName().optional().describe("Assign to user ID or name"),
+        due_date: z.string().optional().describe("Due date (YYYY-MM-DD, or e.g. next friday)"),
+        estimated_time: durationParam()
+          .optional()
+          .describe('Estimated time in hours, or a string like "2h30m", "90m"'),
+        users: z
+          .array(z.object({ id: z.number() }))
+          .optional()
+          .describe('Users to share with, e.g. [{"id":1},{"id":2}]'),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ name, project_id, user_id, due_date, estimated_time, users }) => {
+      try {
+        const body: Record<string, unknown> = { name };
+        if (project_id !== undefined) body.project_id = await resolveOptional("project", project_id);
+        if (user_id !== undefined) body.user_id = await resolveOptional("user", user_id);
+        if (due_date) body.due_date = parseDate(due_date);
+        if (estimated_time !== undefined) body.estimated_time = parseDuration(estimated_time, "hours");
+        if (users) body.users = users;
+        return toolResult(await apiRequest("POST", "/tasks/share", undefined, body));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_update_task",
+    {
+      title: "Update Task",
+      description:
+        "Update an existing TrackingTime task. Use the users param to reassign " +
+        "the task to different staff (use tt_list_users to find user IDs).",
+      inputSchema: {
+        id: z.number().describe("Task ID to update"),
+        name: z.string().optional().describe("New task name"),
+        project_id: idOrName().optional().describe("Move to project ID or name"),
+        due_date: z.string().optional().describe("New due date (YYYY-MM-DD, or e.g. next friday)"),
+        estimated_time: durationParam()
+          .optional()
+          .describe('Estimated time in hours, or a string like "2h30m", "90m"'),
+        users: z
+          .array(z.object({ id: z.number() }))
+          .optional()
+          .describe('Reassign to users, e.g. [{"id":1},{"id":2}]'),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id, name, project_id, due_date, estimated_time, users }) => {
+      try {
+        const body: Record<string, unknown> = {};
+        if (name) body.name = name;
+        if (project_id !== undefined) body.project_id = await resolveOptional("project", project_id);
+        if (due_date) body.due_date = parseDate(due_date);
+        if (estimated_time !== undefined) body.estimated_time = parseDuration(estimated_time, "hours");
+        if (users) body.users = users;
+        return toolResult(await apiRequest("PUT", `/tasks/update/${id}`, undefined, body));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_close_task",
+    {
+      title: "Close Task",
+      description: "Close (complete) a TrackingTime task.",
+      inputSchema: {
+        id: z.number().describe("Task ID to close"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id }) => {
+      try {
+        return toolResult(await apiRequest("PUT", `/tasks/close/${id}`));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_get_task",
+    {
+      title: "Get Task",
+      description: "Get a single TrackingTime task by ID with optional billing data.",
+      inputSchema: {
+        id: z.number().describe("Task ID"),
+        include_billing: z.boolean().optional().describe("Include billing data"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id, include_billing }) => {
+      try {
+        const params: Record<string, string> = {};
+        if (include_billing) params.include_billing = "true";
+        return toolResult(await apiRequest("GET", `/tasks/${id}`, params));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_delete_task",
+    {
+      title: "Delete Task",
+      description:
+        "Delete a TrackingTime task. Set delete_all=false to keep associated time entries.",
+      inputSchema: {
+        id: z.number().describe("Task ID to delete"),
+        delete_all: z
+          .boolean()
+          .optional()
+          .describe("Also delete time entries (default: true). Set false to keep them."),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ id, delete_all }) => {
+      try {
+        const params: Record<string, string> = {};
+        if (delete_all !== undefined) params.delete_all = String(delete_all);
+        return toolResult(await apiRequest("DELETE", `/tasks/delete/${id}`, params));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_reopen_task",
+    {
+      title: "Reopen Task",
+      description: "Reopen a previously closed/completed TrackingTime task.",
+      inputSchema: {
+        id: z.number().describe("Task ID to reopen"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id }) => {
+      try {
+        return toolResult(await apiRequest("PUT", `/tasks/open/${id}`));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_search_tasks",
+    {
+      title: "Search Tasks",
+      description:
+        "Search active tasks by name within specific projects. " +
+        "Pass an array of {project_name, task_name} pairs to search.",
+      inputSchema: {
+        data: z
+          .array(
+            z.object({
+              project_name: z.string().describe("Project name to search within"),
+              task_name: z.string().describe("Task name to search for"),
+            }),
+          )
+          .describe("Array of project/task name pairs to search"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ data }) => {
+      try {
+        return toolResult(
+          await apiRequest("POST", "/tasks/search", undefined, { data }, { retry: true }),
+        );
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  // tt_sort_tasks — reorder tasks
+  server.registerTool(
+    "tt_sort_tasks",
+    {
+      title: "Sort Tasks",
+      description: "Reorder tasks by providing task IDs with sort indices.",
+      inputSchema: {
+        data: z
+          .array(z.object({ id: z.number(), sort_index: z.number() }))
+          .describe('Array of {id, sort_index} pairs, e.g. [{"id":1,"sort_index":0}]'),
+        by_day: z.boolean().optional().describe("Sort by day_index instead (default: false)"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ data, by_day }) => {
+      try {
+        const body: Record<string, unknown> = { data };
+        if (by_day !== undefined) body.by_day = by_day;
+        return toolResult(await apiRequest("POST", "/tasks/sort", undefined, body));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  // tt_get_task_times — accumulated times for multiple tasks
+  server.registerTool(
+    "tt_get_task_times",
+    {
+      title: "Get Task Times",
+      description: "Get accumulated tracked times for one or more tasks.",
+      inputSchema: {
+        task_ids: z
+          .array(z.number())
+          .describe("Array of task IDs, e.g. [1, 2, 3]"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ task_ids }) => {
+      try {
+        const data = task_ids.map((id) => ({ id }));
+        return toolResult(
+          await apiRequest("POST", "/tasks/times", undefined, { data }, { retry: true }),
+        );
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  // tt_list_due_tasks — open tasks bucketed by deadline
+  server.registerTool(
+    "tt_list_due_tasks",
+    {
+      title: "List Due Tasks",
+      description:
+        "List active tasks across all projects (or assigned to a user or a user group's members) bucketed " +
+        "by due date: overdue, due today, due later this week, due later and no due date. Each task has its " +
+        "assignees, project, customer and service, and tracked hours against its estimate from /tasks/times. " +
+        "Filter by customer or service; sort each bucket by urgency or by project.",
+      inputSchema: {
+        user_id: idOrName().optional().describe("Only tasks assigned to this user (ID or name)"),
+        group_id: idOrName().optional().describe("Only tasks assigned to a member of this user group (ID or name)"),
+        customer_id: idOrName().optional().describe("Only tasks of this customer's projects (ID or name)"),
+        service_id: idOrName().optional().describe("Only tasks of projects with this service (ID or name)"),
+        sort_by: z
+          .enum(["urgency", "project"])
+          .optional()
+          .describe("urgency: earliest due date, then most work left (default); project: by project, then urgency"),
+        include_undated: z.boolean().optional().describe("List tasks without a due date (default: true)"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ user_id, group_id, customer_id, service_id, sort_by, include_undated = true }) => {
+      try {
+        const today = parseDate("today");
+        const userId = await resolveOptional("user", user_id);
+        let assignees: Set<number> | undefined = userId === undefined ? undefined : new Set([userId]);
+        if (group_id !== undefined) {
+          const group = (await apiRequest("GET", `/users/groups/${await resolveId("group", group_id)}`)) as {
+            users?: { id: number }[] | null;
+          } | null;
+          const members = listOf<{ id: number }>(group?.users).map((u) => u.id);
+          assignees = new Set(assignees ? members.filter((id) => assignees?.has(id)) : members);
+        }
+        const customerId = await resolveOptional("customer", customer_id);
+        const serviceId = await resolveOptional("service", service_id);
+
+        const projects = new Map(
+          listOf<ProjectRow>(await apiRequest("GET", "/projects", { filter: "ALL" })).map((p) => [p.id, p]),
+        );
+        const users = new Map(listOf<UserRow>(await apiRequest("GET", "/users", { filter: "ALL" })).map((u) => [u.id, u]));
+        const projectOf = (task: TaskRow) => (task.project_id == null ? undefined : projects.get(task.project_id));
+        const taskAssignees = (task: TaskRow): number[] =>
+          Array.isArray(task.users) ? task.users.map((u) => u.id) : task.user_id ? [task.user_id] : [];
+        const tasks = listOf<TaskRow>(await apiRequest("GET", "/tasks")).filter((task) => {
+          const project = projectOf(task);
+          if (assignees && !taskAssignees(task).some((id) => assignees?.has(id))) return false;
+          if (customerId !== undefined && (project?.customer_id ?? task.customer_id) !== customerId) return false;
+          if (serviceId !== undefined && (project?.service_id ?? task.service_id) !== serviceId) return false;
+          return include_undated || Boolean(task.due_date);
+        });
+
+        const timesById = await taskTimes(tasks.map((t) => t.id));
+        const rows = tasks.map((task) => {
+          const project = projectOf(task);
+          const time = timesById.get(task.id);
+          return deadlineTask(
+            {
+              task_id: task.id,
+              task: task.name ?? null,
+              project_id: task.project_id ?? null,
+              project: project?.name ?? task.project ?? null,
+              customer: project?.customer ?? task.customer ?? null,
+              service: project?.service ?? task.service ?? null,
+              assignees: taskAssignees(task).map((id) => {
+                const user = users.get(id);
+                return { id, name: user ? [user.name, user.surname].filter(Boolean).join(" ") : null };
+              }),
+              due_date: task.due_date ? String(task.due_date).slice(0, 10) : null,
+            },
+            Number(time?.estimated_time ?? task.estimated_time) || 0,
+            Number(time?.accumulated_time ?? task.accumulated_time) || 0,
+            today,
+          );
+        });
+
+        const buckets = bucketByDeadline(rows, today, sort_by);
+        const counts = Object.fromEntries(Object.entries(buckets).map(([bucket, list]) => [bucket, list.length]));
+        return toolResult({ as_of: today, counts, ...buckets });
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  // tt_import_tasks — bulk import tasks
+  server.registerTool(
+    "tt_import_tasks",
+    {
+      title: "Import Tasks",
+      description:
+        "Bulk import tasks with project/customer/service info. " +
+        "Set preview_mode=true to validate without importing.",
+      inputSchema: {
+        data: z
+          .array(
+            z.object({
+              task_name: z.string().describe("Task name"),
+              project_name: z.string().optional().describe("Project name (auto-created)"),
+              customer_name: z.string().optional().describe("Customer name"),
+              service_name: z.string().optional().describe("Service name"),
+            }),
+          )
+          .describe("Array of tasks to import"),
+        preview_mode: z.boolean().optional().describe("Validate only, don't import (default: false)"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ data, preview_mode }) => {
+      try {
+        const body: Record<string, unknown> = { data };
+        if (preview_mode !== undefined) body.preview_mode = preview_mode;
+        return toolResult(await apiRequest("POST", "/account/import/tasks", undefined, body));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+}
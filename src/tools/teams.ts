@@ -0,0 +1,92 @@
+import { z } from "zod";
+import { apiRequest } from "../api-client.js";
+import type { ToolRegistrar } from "../registration.js";
+import { errorResult, toolResult } from "./shared.js";
+
+export function registerTeamTools(server: ToolRegistrar) {
+  server.registerTool(
+    "tt_list_teams",
+    {
+      title: "List Teams",
+      description:
+        "List all workspaces (teams) the session user belongs to. " +
+        "Each team has its own account_id — useful for multi-workspace users.",
+      inputSchema: {},
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async () => {
+      try {
+        return toolResult(await apiRequest("GET", "/teams"));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_switch_team",
+    {
+      title: "Switch Team",
+      description:
+        "Switch the active workspace for the current session. " +
+        "Subsequent requests will operate against the new team's data.",
+      inputSchema: {
+        account_id: z.number().describe("Account ID of the team to switch to"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ account_id }) => {
+      try {
+        return toolResult(
+          await apiRequest("POST", "/teams/switch", undefined, { account_id }),
+        );
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_update_team_permissions",
+    {
+      title: "Update Team Permissions",
+      description:
+        "Update default permissions for a workspace's members. " +
+        "Admin-only. Controls what non-admin users can see and edit.",
+      inputSchema: {
+        id: z.number().describe("Team (account) ID"),
+        can_edit_time_entries: z.boolean().optional(),
+        can_edit_projects_and_tasks: z.boolean().optional(),
+        can_view_time_entries_from_others: z.boolean().optional(),
+        can_view_others: z.boolean().optional(),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id, ...flags }) => {
+      try {
+        const body: Record<string, unknown> = {};
+        for (const [k, v] of Object.entries(flags)) {
+          if (v !== undefined) body[k] = v;
+        }
+        return toolResult(await apiRequest("POST", `/teams/update/${id}`, undefined, body));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+}
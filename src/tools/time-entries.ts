@@ -0,0 +1,591 @@
+import { z } from "zod";
+import { apiRequest, rawApiRequest } from "../api-client.js";
+import {
+  auditEntries,
+  configuredOverlapCheck,
+  describeOverlaps,
+  findOverlappingEntries,
+} from "../audit.js";
+import type { EntrySummary, OverlapCheck } from "../audit.js";
+import { addSeconds, parseDate, parseDateTime, parseRange } from "../dates.js";
+import { durationParam, durationSeconds, parseDuration } from "../durations.js";
+import { EventAggregator, fetchAllEvents, walkEvents } from "../events.js";
+import type { TimeEntry } from "../events.js";
+import type { ToolRegistrar } from "../registration.js";
+import { idOrName, resolveFilterId, resolveId, resolveOptional } from "../resolver.js";
+import {
+  addRoundedColumns,
+  loadRounding,
+  policyFor,
+  roundDuration,
+  withRoundedDuration,
+} from "../rounding.js";
+import type { RoundingTarget } from "../rounding.js";
+import { errorResult, toolResult } from "./shared.js";
+
+const overlapCheckParam = z
+  .enum(["off", "warn", "strict"])
+  .optional()
+  .describe(
+    "Check the user's other entries for overlaps before writing: warn adds a warning to the result, " +
+      "strict refuses (default: TT_OVERLAP_CHECK or off)",
+  );
+
+/** Look for overlaps under `check`; strict mode throws instead of returning them. */
+async function checkOverlaps(
+  check: OverlapCheck,
+  userId: number,
+  start: string,
+  end: string,
+  excludeId?: number,
+): Promise<EntrySummary[]> {
+  if (check === "off") return [];
+  const overlaps = await findOverlappingEntries(userId, start, end, excludeId);
+  if (overlaps.length && check === "strict") {
+    throw new Error(
+      `Refusing to write ${start}–${end}: it overlaps entries ${describeOverlaps(overlaps)}. ` +
+        'Adjust start/end, or pass overlap_check="warn" to write anyway.',
+    );
+  }
+  return overlaps;
+}
+
+function withOverlapWarning(result: unknown, overlaps: EntrySummary[]): unknown {
+  if (!overlaps.length || result === null || typeof result !== "object") return result;
+  const warnings = (result as { warnings?: string[] }).warnings ?? [];
+  return { ...result, warnings: [...warnings, `Overlaps entries ${describeOverlaps(overlaps)}`] };
+}
+
+/** The project and customer an entry for `task_id` or `project_id` would belong to. */
+async function roundingTarget(ids: { task_id?: number; project_id?: number }): Promise<RoundingTarget> {
+  if (ids.task_id !== undefined) {
+    const task = (await apiRequest("GET", `/tasks/${ids.task_id}`)) as RoundingTarget | null;
+    return {
+      project_id: ids.project_id ?? task?.project_id,
+      project: ids.project_id === undefined ? task?.project : undefined,
+      customer_id: task?.customer_id,
+      customer: task?.customer,
+    };
+  }
+  if (ids.project_id === undefined) return {};
+  const project = (await apiRequest("GET", `/projects/${ids.project_id}`)) as
+    | (RoundingTarget & { id?: number; name?: string | null })
+    | null;
+  return { project_id: project?.id, project: project?.name, customer_id: project?.customer_id, customer: project?.customer };
+}
+
+/**
+ * Apply the rounding policy for the entry `body` describes: round its
+ * duration and move its end to match. Returns what to report, or a warning
+ * when no policy applies.
+ */
+async function roundEntry(body: Record<string, unknown>): Promise<Record<string, unknown>> {
+  const rounding = await loadRounding();
+  const policy = rounding && policyFor(rounding, await roundingTarget(body as { task_id?: number; project_id?: number }));
+  if (!policy) return { warnings: ["No rounding policy applies to this entry; its duration was saved as given."] };
+  const original = body.duration as number;
+  body.duration = roundDuration(original, policy);
+  body.end = addSeconds(body.start as string, body.duration as number);
+  return { rounding: { ...policy, original_duration: original } };
+}
+
+export function registerTimeEntryTools(server: ToolRegistrar) {
+  server.registerTool(
+    "tt_list_time_entries",
+    {
+      title: "List Time Entries",
+      description:
+        "List time entries (events) from TrackingTime. Requires filter, from, and to dates. " +
+        "The id param is required unless filter=COMPANY. " +
+        "Set all_pages=true to fetch every page (de-duplicated by ID) along with totals by user, project, " +
+        "task and day; add aggregates_only=true for just the totals when the range is large. " +
+        "With rounding policies in the settings file, entries and totals also get a rounded_duration. " +
+        "Note: duration and accumulated_time values are in seconds.",
+      inputSchema: {
+        filter: z
+          .enum(["USER", "CUSTOMER", "PROJECT", "COMPANY", "TASK"])
+          .describe("Filter type (required)"),
+        id: idOrName()
+          .optional()
+          .describe("ID or name of the filter entity (required unless filter=COMPANY)"),
+        from: z.string().describe("Start date (YYYY-MM-DD, or e.g. today, last week, this month)"),
+        to: z.string().describe("End date (YYYY-MM-DD, or e.g. today, last week, this month)"),
+        page: z.number().optional().describe("Page number (ignored with all_pages)"),
+        page_size: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Results per page (default 50; 100 per request with all_pages)"),
+        order: z.enum(["asc", "desc"]).optional().describe("Sort order"),
+        all_pages: z
+          .boolean()
+          .optional()
+          .describe("Fetch every page and return { expected, fetched, pages, aggregates, entries }"),
+        aggregates_only: z
+          .boolean()
+          .optional()
+          .describe("With all_pages, omit the entries and return only the totals"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ filter, id, from, to, page, page_size, order, all_pages, aggregates_only }) => {
+      try {
+        const range = parseRange(from, to);
+        const filterId = await resolveFilterId(filter, id);
+        const rounding = await loadRounding();
+        const rounded = (entry: TimeEntry) => (rounding ? withRoundedDuration(entry, rounding) : entry);
+        if (all_pages) {
+          const aggregator = new EventAggregator(rounding);
+          const entries: TimeEntry[] = [];
+          const walk = await walkEvents(
+            { filter, id: filterId, ...range, order },
+            (entry) => {
+              aggregator.add(entry);
+              if (!aggregates_only) entries.push(rounded(entry));
+            },
+            page_size,
+          );
+          return toolResult({
+            ...walk,
+            ...(walk.fetched !== walk.expected && {
+              warning: `Expected ${walk.expected} entries but fetched ${walk.fetched}; entries may have changed while paging.`,
+            }),
+            aggregates: aggregator.result(),
+            ...(!aggregates_only && { entries }),
+          });
+        }
+        const params: Record<string, string> = { filter, ...range };
+        if (filterId !== undefined) params.id = String(filterId);
+        if (page !== undefined) params.page = String(page);
+        if (page_size !== undefined) params.page_size = String(page_size);
+        if (order) params.order = order;
+        const rows = await apiRequest("GET", "/events", params);
+        return toolResult(Array.isArray(rows) ? (rows as TimeEntry[]).map(rounded) : rows);
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_add_time_entry",
+    {
+      title: "Add Time Entry",
+      description:
+        "Add a manual time entry (event) to TrackingTime. " +
+        "Duration is in seconds (e.g. 3600 = 1 hour) or a string with units (e.g. \"1h30m\"). " +
+        "Both start and end datetimes are required by the API. " +
+        "Set round=true to apply the project's or customer's rounding policy from the settings file; " +
+        "the end moves to match the rounded duration.",
+      inputSchema: {
+        duration: durationParam().describe('Duration in seconds, or a string like "1h30m", "90m", "1.5h" (required)'),
+        user_id: idOrName().describe("User ID or name (required)"),
+        start: z
+          .string()
+          .describe("Start datetime (yyyy-MM-dd HH:mm:ss, ISO 8601, or e.g. today 09:00) — required"),
+        end: z
+          .string()
+          .describe("End datetime (yyyy-MM-dd HH:mm:ss, ISO 8601, or e.g. today 10:30) — required"),
+        task_id: idOrName().optional().describe("Task ID or name (matched within project_id when given)"),
+        project_id: idOrName().optional().describe("Project ID or name"),
+        notes: z.string().optional().describe("Notes for the time entry"),
+        overlap_check: overlapCheckParam,
+        round: z
+          .boolean()
+          .optional()
+          .describe("Round the duration with the configured rounding policy before saving (default: false)"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ duration, user_id, start, end, task_id, project_id, notes, overlap_check, round }) => {
+      try {
+        const projectId = await resolveOptional("project", project_id);
+        const body: Record<string, unknown> = {
+          duration: parseDuration(duration, "seconds"),
+          user_id: await resolveId("user", user_id),
+          start: parseDateTime(start),
+          end: parseDateTime(end, "end"),
+        };
+        if (task_id !== undefined) body.task_id = await resolveId("task", task_id, { projectId });
+        if (projectId !== undefined) body.project_id = projectId;
+        if (notes) body.notes = notes;
+        const rounding = round ? await roundEntry(body) : undefined;
+        const overlaps = await checkOverlaps(
+          overlap_check ?? configuredOverlapCheck(),
+          body.user_id as number,
+          body.start as string,
+          body.end as string,
+        );
+        const event = await apiRequest("POST", "/events/add", undefined, body);
+        return toolResult(withOverlapWarning(rounding ? { ...(event as object), ...rounding } : event, overlaps));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_get_events_summary",
+    {
+      title: "Get Events Summary",
+      description:
+        "Get a summary of tracked hours per user per day. " +
+        "Returns worked_hours (in hours, not seconds).",
+      inputSchema: {
+        from: z.string().describe("Start date (YYYY-MM-DD, or e.g. today, last week, this month)"),
+        to: z.string().describe("End date (YYYY-MM-DD, or e.g. today, last week, this month)"),
+        users: z
+          .array(z.object({ id: z.number() }))
+          .optional()
+          .describe('Filter by users, e.g. [{"id":1}]'),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ from, to, users }) => {
+      try {
+        const params: Record<string, string> = parseRange(from, to);
+        if (users) params.users = JSON.stringify(users);
+        return toolResult(await apiRequest("GET", "/events/summary", params));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_get_time_entry",
+    {
+      title: "Get Time Entry",
+      description: "Get a single time entry (event) by ID.",
+      inputSchema: {
+        id: z.number().describe("Time entry (event) ID"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id }) => {
+      try {
+        return toolResult(await apiRequest("GET", `/events/${id}`));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_update_time_entry",
+    {
+      title: "Update Time Entry",
+      description:
+        "Update an existing time entry (event). " +
+        "The end datetime is required. Only include other fields you want to change.",
+      inputSchema: {
+        id: z.number().describe("Time entry ID to update"),
+        end: z
+          .string()
+          .describe("End datetime (yyyy-MM-dd HH:mm:ss, ISO 8601, or e.g. yesterday 17:00) — required"),
+        start: z
+          .string()
+          .optional()
+          .describe("Start datetime (yyyy-MM-dd HH:mm:ss, ISO 8601, or e.g. yesterday 09:00)"),
+        task_id: idOrName().optional().describe("Move to different task (ID or name)"),
+        project_id: idOrName().optional().describe("Move to different project (ID or name)"),
+        notes: z.string().optional().describe("Updated notes"),
+        overlap_check: overlapCheckParam,
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id, end, start, task_id, project_id, notes, overlap_check }) => {
+      try {
+        const body: Record<string, unknown> = { end: parseDateTime(end, "end") };
+        if (start) body.start = parseDateTime(start);
+        const projectId = await resolveOptional("project", project_id);
+        if (task_id !== undefined) body.task_id = await resolveId("task", task_id, { projectId });
+        if (projectId !== undefined) body.project_id = projectId;
+        if (notes) body.notes = notes;
+        const check = overlap_check ?? configuredOverlapCheck();
+        let overlaps: EntrySummary[] = [];
+        if (check !== "off") {
+          const current = (await apiRequest("GET", `/events/${id}`)) as { user_id: number; start: string };
+          const newStart = (body.start as string | undefined) ?? current.start;
+          overlaps = await checkOverlaps(check, current.user_id, newStart, body.end as string, id);
+        }
+        return toolResult(withOverlapWarning(await apiRequest("PUT", `/events/update/${id}`, undefined, body), overlaps));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_delete_time_entry",
+    {
+      title: "Delete Time Entry",
+      description: "Delete a time entry (event). This cannot be undone.",
+      inputSchema: {
+        id: z.number().describe("Time entry (event) ID to delete"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ id }) => {
+      try {
+        return toolResult(await apiRequest("DELETE", `/events/delete/${id}`));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_export_time_entries",
+    {
+      title: "Export Time Entries",
+      description:
+        "Export time entries as CSV. " +
+        "Returns CSV text with the specified separator. With rounding policies in the settings file, " +
+        "rounded_duration (seconds) and rounded_hours columns are appended to every row.",
+      inputSchema: {
+        separator: z
+          .enum([",", ";", "\\t"])
+          .describe("CSV separator character (required)"),
+        filter: z
+          .enum(["USER", "CUSTOMER", "PROJECT", "COMPANY", "TASK"])
+          .optional()
+          .describe("Filter type"),
+        id: idOrName().optional().describe("ID or name of the filter entity"),
+        from: z.string().optional().describe("Start date (YYYY-MM-DD, or e.g. last month)"),
+        to: z.string().optional().describe("End date (YYYY-MM-DD, or e.g. last month)"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ separator, filter, id, from, to }) => {
+      try {
+        const params: Record<string, string> = { separator };
+        if (filter) params.filter = filter;
+        if (id !== undefined) params.id = String(await resolveFilterId(filter, id));
+        if (from) params.from = parseDate(from);
+        if (to) params.to = parseDate(to, "end");
+        const csv = await rawApiRequest("GET", "/events/export", params);
+        const rounding = await loadRounding();
+        if (!rounding) return { content: [{ type: "text" as const, text: csv }] };
+        // Match rows to their events for project/customer IDs; without a range, rows' names are used.
+        const events = new Map<number, TimeEntry>();
+        if (params.from && params.to && (filter === "COMPANY" || params.id)) {
+          const query = { filter: filter ?? "COMPANY", from: params.from, to: params.to };
+          const { entries } = await fetchAllEvents(params.id ? { ...query, id: Number(params.id) } : query);
+          for (const entry of entries) events.set(entry.id, entry);
+        }
+        const text = addRoundedColumns(csv, separator === "\\t" ? "\t" : separator, rounding, events);
+        return { content: [{ type: "text" as const, text }] };
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_mark_billed",
+    {
+      title: "Mark Time Entries as Billed",
+      description: "Mark one or more time entries as billed (for invoicing).",
+      inputSchema: {
+        entry_ids: z
+          .array(z.number())
+          .describe("Array of time entry IDs to mark as billed, e.g. [1, 2, 3]"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ entry_ids }) => {
+      try {
+        const data = JSON.stringify(entry_ids.map((id) => ({ id })));
+        return toolResult(await apiRequest("PUT", "/events/billed", undefined, { data }));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_mark_not_billed",
+    {
+      title: "Mark Time Entries as Not Billed",
+      description: "Mark one or more time entries as not billed (undo billing flag).",
+      inputSchema: {
+        entry_ids: z
+          .array(z.number())
+          .describe("Array of time entry IDs to mark as not billed, e.g. [1, 2, 3]"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ entry_ids }) => {
+      try {
+        const data = JSON.stringify(entry_ids.map((id) => ({ id })));
+        return toolResult(await apiRequest("PUT", "/events/not_billed", undefined, { data }));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_list_time_entries_min",
+    {
+      title: "List Time Entries (Minimal)",
+      description:
+        "List time entries in a minimal/compact form — lighter than tt_list_time_entries. " +
+        "Useful for fetching large ranges quickly when you don't need full detail.",
+      inputSchema: {
+        filter: z
+          .enum(["USER", "CUSTOMER", "PROJECT", "COMPANY", "TASK"])
+          .describe("Filter scope"),
+        id: idOrName().optional().describe("Entity ID or name (required unless filter=COMPANY)"),
+        from: z.string().describe("Start date (YYYY-MM-DD, or e.g. today, last week, this month)"),
+        to: z.string().describe("End date (YYYY-MM-DD, or e.g. today, last week, this month)"),
+        billed: z
+          .enum(["ALL", "BILLED", "UNBILLED"])
+          .optional()
+          .describe("Billing filter"),
+        include_timeoffs: z.boolean().optional().describe("Include time-off entries"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ filter, id, from, to, billed, include_timeoffs }) => {
+      try {
+        const params: Record<string, string> = { filter, ...parseRange(from, to) };
+        if (id !== undefined) params.id = String(await resolveFilterId(filter, id));
+        if (billed) params.billed = billed;
+        if (include_timeoffs) params.include_timeoffs = "true";
+        return toolResult(await apiRequest("GET", "/events/min", params));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_count_time_entries",
+    {
+      title: "Count Time Entries",
+      description:
+        "Return just the count of time entries matching a filter. " +
+        "Fast alternative to fetching the full list when you only need a total.",
+      inputSchema: {
+        filter: z
+          .enum(["USER", "CUSTOMER", "PROJECT", "COMPANY", "TASK"])
+          .describe("Filter scope"),
+        id: idOrName().optional().describe("Entity ID or name (required unless filter=COMPANY)"),
+        from: z.string().describe("Start date (YYYY-MM-DD, or e.g. today, last week, this month)"),
+        to: z.string().describe("End date (YYYY-MM-DD, or e.g. today, last week, this month)"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ filter, id, from, to }) => {
+      try {
+        const params: Record<string, string> = { filter, ...parseRange(from, to) };
+        if (id !== undefined) params.id = String(await resolveFilterId(filter, id));
+        return toolResult(await apiRequest("GET", "/events/count", params));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_audit_time_entries",
+    {
+      title: "Audit Time Entries",
+      description:
+        "Scan a user's (or, without user_id, the whole company's) time entries over a date range for problems: " +
+        "overlapping entries, entries longer than long_entry, zero-length entries, entries spanning midnight " +
+        "and gaps longer than max_gap between entries on the same day.",
+      inputSchema: {
+        user_id: idOrName().optional().describe("User ID or name (default: every user in the company)"),
+        from: z.string().describe("Start date (YYYY-MM-DD, or e.g. today, last week, this month)"),
+        to: z.string().describe("End date (YYYY-MM-DD, or e.g. today, last week, this month)"),
+        long_entry: durationParam()
+          .optional()
+          .describe('Report entries longer than this: hours, or a string like "10h" (default 10)'),
+        max_gap: durationParam()
+          .optional()
+          .describe('Report gaps within a day longer than this: hours, or a string like "45m" (default 1)'),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ user_id, from, to, long_entry, max_gap }) => {
+      try {
+        const range = parseRange(from, to);
+        const userId = await resolveOptional("user", user_id);
+        const { entries } = await fetchAllEvents(
+          userId === undefined ? { filter: "COMPANY", ...range } : { filter: "USER", id: userId, ...range },
+        );
+        const report = auditEntries(entries, {
+          longSeconds: durationSeconds(long_entry ?? 10, "hours"),
+          gapSeconds: durationSeconds(max_gap ?? 1, "hours"),
+        });
+        return toolResult({ ...range, ...(userId !== undefined && { user_id: userId }), ...report });
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+}
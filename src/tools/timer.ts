@@ -0,0 +1,396 @@
+import { z } from "zod";
+import { apiRequest } from "../api-client.js";
+import {
+  addSeconds,
+  atTimeOfDay,
+  parseDate,
+  parseDateTime,
+  parseTimeOfDay,
+  utcOffset,
+  wallSeconds,
+} from "../dates.js";
+import { durationParam, durationSeconds } from "../durations.js";
+import { fetchAllEvents } from "../events.js";
+import type { ToolRegistrar } from "../registration.js";
+import { idOrName, resolveId, resolveOptional, resolveSessionUser } from "../resolver.js";
+import { loadRounding, policyFor, roundDuration } from "../rounding.js";
+import { runningTimers } from "../timers.js";
+import type { RunningTimer, TimerUser } from "../timers.js";
+import { errorResult, toolResult } from "./shared.js";
+
+type Row = Record<string, unknown>;
+
+/** Send the configured zone's offset so TrackingTime reads our wall-clock times correctly. */
+function defaultOffset(): string | undefined {
+  return process.env.TT_TIMEZONE ? utcOffset() : undefined;
+}
+
+/** Every active user's timers running longer than `minRunning` (hours or a duration string), longest first. */
+async function staleTimers(minRunning: number | string) {
+  const threshold = durationSeconds(minRunning, "hours");
+  const now = parseDateTime("now");
+  const users = await apiRequest("GET", "/users", { filter: "ACTIVE" });
+  const active = Array.isArray(users) ? (users as TimerUser[]) : [];
+  const timers = await runningTimers(active, now);
+  const stale = timers.filter((t) => t.elapsed > threshold).sort((a, b) => b.elapsed - a.elapsed);
+  return { now, checked_users: active.length, stale };
+}
+
+/**
+ * When to stop a forgotten timer: the end of the user's latest entry after
+ * the timer started, or (without one, or when asked) end_of_day on the
+ * day it started. Returns why not when that end of day is before the timer
+ * started or hasn't come yet.
+ */
+async function stopTime(
+  timer: RunningTimer,
+  basis: "last_activity" | "end_of_day",
+  endOfDay: number,
+  now: string,
+): Promise<{ date: string; basis: string } | { skip: string }> {
+  if (basis === "last_activity") {
+    const { entries } = await fetchAllEvents({
+      filter: "USER",
+      id: timer.user_id,
+      from: timer.start.slice(0, 10),
+      to: now.slice(0, 10),
+    });
+    const last = entries
+      .map((e) => e.end as string | null)
+      .filter((end): end is string => typeof end === "string" && wallSeconds(end) > wallSeconds(timer.start))
+      .sort((a, b) => wallSeconds(b) - wallSeconds(a))[0];
+    if (last) return { date: last, basis: "last_activity" };
+  }
+  const date = atTimeOfDay(timer.start.slice(0, 10), endOfDay);
+  if (wallSeconds(date) <= wallSeconds(timer.start)) return { skip: "Started after end_of_day; stop it manually" };
+  if (wallSeconds(date) > wallSeconds(now)) return { skip: "end_of_day hasn't passed yet on the day it started" };
+  return { date, basis: "end_of_day" };
+}
+
+/**
+ * Move the stop `date` in `body` so the timer on `taskId` records its
+ * rounded duration. Returns what to report, or a warning when the timer
+ * isn't running or no policy applies.
+ */
+async function roundStop(taskId: number, body: Record<string, unknown>): Promise<Row> {
+  const rounding = await loadRounding();
+  const task = (await apiRequest("GET", `/tasks/${taskId}`)) as Row | null;
+  const tracking = task?.tracking_event as { start?: unknown } | null | undefined;
+  const start = typeof tracking?.start === "string" ? tracking.start : undefined;
+  const policy = rounding && task && policyFor(rounding, task);
+  if (!start) return { warnings: ["Task is not being tracked; nothing to round."] };
+  if (!policy) return { warnings: ["No rounding policy applies to this task; stopped as given."] };
+  const original = Math.max(0, wallSeconds(body.date as string) - wallSeconds(start));
+  body.date = addSeconds(start, roundDuration(original, policy));
+  return { rounding: { ...policy, original_duration: original } };
+}
+
+export function registerTimerTools(server: ToolRegistrar) {
+  server.registerTool(
+    "tt_start_timer",
+    {
+      title: "Start Timer",
+      description:
+        "Start tracking time on a task. Set stop_running_task=true to stop any " +
+        "currently running timer first (otherwise returns error 502 if a timer is already running).",
+      inputSchema: {
+        id: z.number().describe("Task ID to start tracking"),
+        date: z
+          .string()
+          .optional()
+          .describe("Start datetime (yyyy-MM-dd HH:mm:ss, or e.g. 10 minutes ago). Default: now"),
+        timezone: z
+          .string()
+          .optional()
+          .describe("Timezone offset, e.g. GMT+10:00 (default: TT_TIMEZONE's offset when set)"),
+        stop_running_task: z
+          .boolean()
+          .optional()
+          .describe("Stop any currently running timer first (recommended)"),
+        task_name: z.string().optional().describe("Task name — auto-creates if ID not found"),
+        project_name: z.string().optional().describe("Project name — auto-creates if not found"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ id, date, timezone, stop_running_task, task_name, project_name }) => {
+      try {
+        const body: Record<string, unknown> = { date: parseDateTime(date ?? "now") };
+        const offset = timezone ?? defaultOffset();
+        if (offset) body.timezone = offset;
+        if (stop_running_task !== undefined) body.stop_running_task = stop_running_task;
+        if (task_name) body.task_name = task_name;
+        if (project_name) body.project_name = project_name;
+        return toolResult(await apiRequest("POST", `/tasks/track/${id}`, undefined, body));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_stop_timer",
+    {
+      title: "Stop Timer",
+      description:
+        "Stop tracking time on a task. Set round=true to stop it where the project's or customer's " +
+        "rounding policy from the settings file puts the tracked time, e.g. rounded up to the next 15 minutes.",
+      inputSchema: {
+        id: z.number().describe("Task ID to stop tracking"),
+        date: z
+          .string()
+          .optional()
+          .describe("Stop datetime (yyyy-MM-dd HH:mm:ss, or e.g. today 17:30). Default: now"),
+        timezone: z
+          .string()
+          .optional()
+          .describe("Timezone offset, e.g. GMT+10:00 (default: TT_TIMEZONE's offset when set)"),
+        round: z
+          .boolean()
+          .optional()
+          .describe("Round the tracked time with the configured rounding policy (default: false)"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id, date, timezone, round }) => {
+      try {
+        const body: Record<string, unknown> = { date: parseDateTime(date ?? "now") };
+        const offset = timezone ?? defaultOffset();
+        if (offset) body.timezone = offset;
+        const rounding = round ? await roundStop(id, body) : undefined;
+        const event = await apiRequest("POST", `/tasks/stop/${id}`, undefined, body);
+        return toolResult(rounding ? { ...(event as object), ...rounding } : event);
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_find_stale_timers",
+    {
+      title: "Find Stale Timers",
+      description:
+        "List timers that every active user has had running for longer than min_running (default 8 hours), " +
+        "e.g. ones left running overnight. Use tt_fix_stale_timers to stop them.",
+      inputSchema: {
+        min_running: durationParam()
+          .optional()
+          .describe('Report timers running longer than this: hours, or a string like "10h" (default 8)'),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ min_running }) => {
+      try {
+        return toolResult(await staleTimers(min_running ?? 8));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_fix_stale_timers",
+    {
+      title: "Fix Stale Timers",
+      description:
+        "Stop the timers tt_find_stale_timers lists: those running longer than min_running (default 8 hours). " +
+        "Each stops at the end of the user's last activity after the timer started (stop_at=last_activity) " +
+        "or at end_of_day on the day it started.",
+      inputSchema: {
+        min_running: durationParam()
+          .optional()
+          .describe('Stop timers running longer than this: hours, or a string like "10h" (default 8)'),
+        stop_at: z
+          .enum(["last_activity", "end_of_day"])
+          .optional()
+          .describe("Where to stop a timer (default: end_of_day; last_activity falls back to it)"),
+        end_of_day: z.string().optional().describe("End-of-day time, HH:MM (default 18:00)"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ min_running, stop_at, end_of_day }) => {
+      try {
+        const endOfDay = parseTimeOfDay(end_of_day ?? "18:00", "end_of_day");
+        const { now, stale } = await staleTimers(min_running ?? 8);
+
+        const stopped: Row[] = [];
+        const skipped: Row[] = [];
+        for (const timer of stale) {
+          const stop = await stopTime(timer, stop_at ?? "end_of_day", endOfDay, now);
+          if ("skip" in stop) {
+            skipped.push({ ...timer, reason: stop.skip });
+            continue;
+          }
+          const body: Record<string, unknown> = { date: stop.date };
+          const offset = defaultOffset();
+          if (offset) body.timezone = offset;
+          try {
+            const event = (await apiRequest("POST", `/tasks/stop/${timer.task_id}`, undefined, body)) as Row;
+            stopped.push({ ...timer, stopped_at: stop.date, basis: stop.basis, event_id: event?.id ?? null });
+          } catch (err) {
+            skipped.push({ ...timer, reason: err instanceof Error ? err.message : String(err) });
+          }
+        }
+        return toolResult({ now, stale: stale.length, stopped, skipped });
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_timer_status",
+    {
+      title: "Timer Status",
+      description:
+        "Show what a user is tracking right now and for how long (elapsed, in seconds with HH:MM). " +
+        "Defaults to your own timer (TT_USER_ID).",
+      inputSchema: {
+        user_id: idOrName().optional().describe("User ID or name (default: TT_USER_ID)"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ user_id }) => {
+      try {
+        const userId = user_id === undefined ? await resolveSessionUser() : await resolveId("user", user_id);
+        const now = parseDateTime("now");
+        const timers = await runningTimers([{ id: userId }], now);
+        return toolResult({ now, user_id: userId, tracking: timers.length > 0, timers });
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_resume_last_timer",
+    {
+      title: "Resume Last Timer",
+      description:
+        "Restart a timer on the task you (TT_USER_ID) most recently logged time on, found in your time entries " +
+        "from the last lookback_days. Starts now unless date is given.",
+      inputSchema: {
+        date: z
+          .string()
+          .optional()
+          .describe("Start datetime (yyyy-MM-dd HH:mm:ss, or e.g. 10 minutes ago). Default: now"),
+        lookback_days: z.number().int().positive().optional().describe("How far back to look for entries (default 30)"),
+        stop_running_task: z
+          .boolean()
+          .optional()
+          .describe("Stop a different timer that is already running first (otherwise the API returns 502)"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ date, lookback_days, stop_running_task }) => {
+      try {
+        const userId = await resolveSessionUser();
+        const start = parseDateTime(date ?? "now");
+        const events = await apiRequest("GET", "/events", {
+          filter: "USER",
+          id: String(userId),
+          from: parseDate(`${lookback_days ?? 30} days ago`),
+          to: parseDate("today"),
+          order: "desc",
+        });
+        const last = (Array.isArray(events) ? (events as Row[]) : []).find((e) => e.task_id);
+        if (!last) {
+          throw new Error(
+            `No time entries with a task in the last ${lookback_days ?? 30} days; start one with tt_start_timer.`,
+          );
+        }
+        const running = await runningTimers([{ id: userId }], start);
+        if (running.some((t) => t.task_id === last.task_id)) {
+          return toolResult({ resumed: false, reason: "Already running", task_id: last.task_id, task: last.task });
+        }
+        const body: Record<string, unknown> = { date: start };
+        const offset = defaultOffset();
+        if (offset) body.timezone = offset;
+        if (stop_running_task !== undefined) body.stop_running_task = stop_running_task;
+        const task = await apiRequest("POST", `/tasks/track/${last.task_id}`, undefined, body);
+        return toolResult({ resumed: true, start, previous_entry_id: last.id, task });
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_switch_timer",
+    {
+      title: "Switch Timer",
+      description:
+        "Stop your running timer (TT_USER_ID) and start one on another task in a single call, both at the same " +
+        "moment (now unless date is given). Works when nothing is running too.",
+      inputSchema: {
+        task_id: idOrName().describe("Task to switch to: ID or name (matched within project_id when given)"),
+        project_id: idOrName().optional().describe("Project ID or name, to narrow the task name"),
+        date: z
+          .string()
+          .optional()
+          .describe("Switch datetime (yyyy-MM-dd HH:mm:ss, or e.g. 5 minutes ago). Default: now"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ task_id, project_id, date }) => {
+      try {
+        const userId = await resolveSessionUser();
+        const projectId = await resolveOptional("project", project_id);
+        const taskId = await resolveId("task", task_id, { projectId });
+        const at = parseDateTime(date ?? "now");
+        const body: Record<string, unknown> = { date: at };
+        const offset = defaultOffset();
+        if (offset) body.timezone = offset;
+
+        const running = await runningTimers([{ id: userId }], at);
+        if (running.some((t) => t.task_id === taskId)) {
+          return toolResult({ switched: false, reason: "Already tracking this task", task_id: taskId });
+        }
+        const stopped: Row[] = [];
+        for (const timer of running) {
+          const event = (await apiRequest("POST", `/tasks/stop/${timer.task_id}`, undefined, body)) as Row;
+          stopped.push({ task_id: timer.task_id, task: timer.task, start: timer.start, event_id: event?.id ?? null });
+        }
+        const task = await apiRequest("POST", `/tasks/track/${taskId}`, undefined, body);
+        return toolResult({ switched: true, at, stopped, task });
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+}
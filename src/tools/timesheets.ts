@@ -0,0 +1,263 @@
+import { z } from "zod";
+import { apiRequest } from "../api-client.js";
+import { daysBetween, parseDate, parseRange, parseTimeOfDay, parseWeek, shiftDays } from "../dates.js";
+import { durationParam, durationSeconds } from "../durations.js";
+import { fetchAllEvents } from "../events.js";
+import type { ToolRegistrar } from "../registration.js";
+import { idOrName, resolveId, resolveOptional } from "../resolver.js";
+import {
+  buildTimesheet,
+  configuredDayStart,
+  configuredExpectedHours,
+  planCopy,
+  planTimesheetFill,
+  renderTimesheetMarkdown,
+  weekDayIndex,
+} from "../timesheet.js";
+import type { FillCell } from "../timesheet.js";
+import { errorResult, toolResult } from "./shared.js";
+
+async function userName(userId: number): Promise<string | null> {
+  const user = (await apiRequest("GET", `/users/${userId}`)) as Record<string, unknown> | null;
+  if (!user) return null;
+  return [user.name, user.surname].filter((part) => typeof part === "string" && part !== "").join(" ") || null;
+}
+
+export function registerTimesheetTools(server: ToolRegistrar) {
+  server.registerTool(
+    "tt_get_timesheet",
+    {
+      title: "Get Weekly Timesheet",
+      description:
+        "Get a user's timesheet for an ISO week: a project × task × weekday grid of hours with row, day " +
+        "and week totals. Monday to Friday are flagged when below the expected daily hours " +
+        "(TT_EXPECTED_HOURS, default 8). Returns JSON, or a Markdown table with format=markdown.",
+      inputSchema: {
+        user_id: idOrName().describe("User ID or name"),
+        week: z
+          .string()
+          .optional()
+          .describe('ISO week (e.g. 2026-W42) or a date in the week, e.g. "last week" (default: this week)'),
+        expected_hours: z
+          .number()
+          .min(0)
+          .max(24)
+          .optional()
+          .describe("Expected hours per working day (default: TT_EXPECTED_HOURS or 8)"),
+        format: z.enum(["json", "markdown"]).optional().describe("Output format (default: json)"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ user_id, week, expected_hours, format }) => {
+      try {
+        const range = parseWeek(week ?? "this week");
+        const userId = await resolveId("user", user_id);
+        const { entries } = await fetchAllEvents({ filter: "USER", id: userId, from: range.from, to: range.to });
+        const sheet = buildTimesheet(
+          entries,
+          range,
+          { id: userId, name: await userName(userId) },
+          expected_hours ?? configuredExpectedHours(),
+        );
+        if (format === "markdown") {
+          return { content: [{ type: "text" as const, text: renderTimesheetMarkdown(sheet) }] };
+        }
+        return toolResult(sheet);
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_fill_timesheet",
+    {
+      title: "Fill Weekly Timesheet",
+      description:
+        "Log a week of time for a user from a grid of {day, hours, task or project, notes} cells. " +
+        "Each day's cells become back-to-back entries starting at day_start, placed around existing entries; " +
+        "cells whose day already has time for the same task (or project) are skipped. " +
+        "Without commit=true this only previews the /events/add calls it would make.",
+      inputSchema: {
+        user_id: idOrName().describe("User ID or name"),
+        week: z
+          .string()
+          .optional()
+          .describe('ISO week (e.g. 2026-W42) or a date in the week, e.g. "last week" (default: this week)'),
+        grid: z
+          .array(
+            z.object({
+              day: z.string().describe("Weekday (mon … sun) or a YYYY-MM-DD date in the week"),
+              hours: durationParam().describe('Hours (e.g. 2.5) or a string like "2h30m"'),
+              task_id: idOrName().optional().describe("Task ID or name (matched within project_id when given)"),
+              project_id: idOrName().optional().describe("Project ID or name"),
+              notes: z.string().optional().describe("Notes for the entry"),
+            }),
+          )
+          .min(1)
+          .describe("Cells to log; each needs task_id or project_id"),
+        day_start: z
+          .string()
+          .optional()
+          .describe("Time the first block of each day starts, HH:MM (default: TT_DAY_START or 09:00)"),
+        commit: z.boolean().optional().describe("Create the entries (default: false, preview only)"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ user_id, week, grid, day_start, commit }) => {
+      try {
+        const range = parseWeek(week ?? "this week");
+        const dayStart = parseTimeOfDay(day_start ?? configuredDayStart(), "day_start");
+        const userId = await resolveId("user", user_id);
+        const cells: FillCell[] = [];
+        for (const [index, cell] of grid.entries()) {
+          if (cell.task_id === undefined && cell.project_id === undefined) {
+            throw new Error(`grid[${index}] needs a task_id or project_id.`);
+          }
+          const projectId = await resolveOptional("project", cell.project_id);
+          cells.push({
+            day: weekDayIndex(cell.day, range),
+            seconds: durationSeconds(cell.hours, "hours"),
+            task_id: await resolveOptional("task", cell.task_id, { projectId }),
+            project_id: projectId,
+            notes: cell.notes,
+          });
+        }
+
+        const { entries } = await fetchAllEvents({ filter: "USER", id: userId, from: range.from, to: range.to });
+        const { planned, skipped } = planTimesheetFill(cells, range, entries, userId, dayStart);
+        const summary = { user_id: userId, week: range.week, from: range.from, to: range.to };
+        if (!commit) {
+          return toolResult({
+            ...summary,
+            committed: false,
+            calls: planned.map(({ cell, body }) => ({ cell, method: "POST", endpoint: "/events/add", body })),
+            skipped,
+          });
+        }
+
+        const created: Record<string, unknown>[] = [];
+        for (const { cell, body } of planned) {
+          try {
+            const event = (await apiRequest("POST", "/events/add", undefined, body)) as { id?: number } | null;
+            created.push({ cell, id: event?.id, start: body.start, end: body.end, duration: body.duration });
+          } catch (err) {
+            // Keep what was created so far (and journaled for tt_undo) rather than failing the whole call.
+            const message = err instanceof Error ? err.message : String(err);
+            return toolResult({ ...summary, committed: true, created, skipped, failed: { cell, body, error: message } });
+          }
+        }
+        return toolResult({ ...summary, committed: true, created, skipped });
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_copy_time_entries",
+    {
+      title: "Copy Time Entries",
+      description:
+        "Clone a user's time entries from one date range into another with the same weekday offsets, " +
+        "e.g. last week's standups and client calls into this week. target_from must fall on the same weekday " +
+        "as from. Can clear notes, copy tags and skip days that already have time. " +
+        "Use dry_run=true to preview the entries first.",
+      inputSchema: {
+        user_id: idOrName().describe("User ID or name"),
+        from: z.string().describe("Source start date (YYYY-MM-DD, or e.g. last week, last monday)"),
+        to: z.string().describe("Source end date (YYYY-MM-DD, or e.g. last week, last friday)"),
+        target_from: z.string().describe("First day of the target range (YYYY-MM-DD, or e.g. this week, monday)"),
+        notes: z.enum(["keep", "clear"]).optional().describe("Keep or clear the entries' notes (default: keep)"),
+        copy_tags: z.boolean().optional().describe("Copy each entry's tags to its clone (default: true)"),
+        skip_days_with_time: z
+          .boolean()
+          .optional()
+          .describe("Skip entries that land on a day that already has time (default: true)"),
+        dry_run: z.boolean().optional().describe("Only list the entries that would be created"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ user_id, from, to, target_from, notes, copy_tags, skip_days_with_time, dry_run }) => {
+      try {
+        const source = parseRange(from, to);
+        const targetFrom = parseDate(target_from);
+        const shift = daysBetween(source.from, targetFrom);
+        if (shift === 0 || shift % 7 !== 0) {
+          throw new Error(
+            `target_from (${targetFrom}) must be a different date on the same weekday as from (${source.from}), ` +
+              "so copied entries keep their weekdays.",
+          );
+        }
+        const target = { from: targetFrom, to: shiftDays(source.to, shift) };
+        const userId = await resolveId("user", user_id);
+        const { entries } = await fetchAllEvents({ filter: "USER", id: userId, ...source, order: "asc" });
+        const existing =
+          skip_days_with_time === false
+            ? []
+            : (await fetchAllEvents({ filter: "USER", id: userId, ...target })).entries;
+        const { planned, skipped } = planCopy(entries, existing, shift, {
+          userId,
+          clearNotes: notes === "clear",
+          skipDaysWithTime: skip_days_with_time !== false,
+        });
+        const copyTags = copy_tags !== false;
+        const summary = { user_id: userId, source, target, shift_days: shift };
+        if (dry_run) {
+          return toolResult({
+            ...summary,
+            dry_run: true,
+            entries: planned.map(({ source_id, body, tags }) => ({ source_id, ...body, ...(copyTags && { tags }) })),
+            skipped,
+          });
+        }
+
+        const created: Record<string, unknown>[] = [];
+        let tagsCopied = 0;
+        const done = (extra = {}) =>
+          toolResult({
+            ...summary,
+            created_ids: created.map((c) => c.id),
+            created,
+            tags_copied: tagsCopied,
+            skipped,
+            ...extra,
+          });
+        for (const { source_id, body, tags } of planned) {
+          try {
+            const event = (await apiRequest("POST", "/events/add", undefined, body)) as { id?: number } | null;
+            created.push({ source_id, id: event?.id, start: body.start, end: body.end });
+            if (copyTags && event?.id !== undefined) {
+              for (const tag of tags) {
+                await apiRequest("POST", `/events/${event.id}/tags/save`, undefined, tag);
+                tagsCopied++;
+              }
+            }
+          } catch (err) {
+            // Keep what was created so far (and journaled for tt_undo) rather than failing the whole call.
+            const message = err instanceof Error ? err.message : String(err);
+            return done({ failed: { source_id, error: message } });
+          }
+        }
+        return done();
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+}
@@ -0,0 +1,520 @@
+import { z } from "zod";
+import { apiRequest } from "../api-client.js";
+import { parseDate } from "../dates.js";
+import type { ToolRegistrar } from "../registration.js";
+import { idOrName, resolveId, resolveOptional } from "../resolver.js";
+import { errorResult, toolResult } from "./shared.js";
+
+const EMPLOYEE_DATES = ["birthdate", "hire_date", "termination_date"];
+
+export function registerUserTools(server: ToolRegistrar) {
+  server.registerTool(
+    "tt_list_users",
+    {
+      title: "List Users",
+      description:
+        "List all users (staff) in your TrackingTime account. " +
+        "Use this to find user IDs for task assignment, project assignment, or time entries. " +
+        "Requires admin or project manager role.",
+      inputSchema: {
+        filter: z
+          .enum(["ALL", "ACTIVE", "ARCHIVED", "INVITED"])
+          .optional()
+          .describe("User filter (default: ACTIVE)"),
+        include_teams: z
+          .boolean()
+          .optional()
+          .describe("Include team membership info"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ filter, include_teams }) => {
+      try {
+        const params: Record<string, string> = {};
+        if (filter) params.filter = filter;
+        if (include_teams) params.include_teams = "true";
+        return toolResult(await apiRequest("GET", "/users", params));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_assign_user_projects",
+    {
+      title: "Assign User to Projects",
+      description:
+        "Assign a user to one or more projects. " +
+        "Use tt_list_users to find user IDs and tt_list_projects for project IDs. " +
+        "Requires admin or project manager role.",
+      inputSchema: {
+        user_id: idOrName().describe("User ID or name to assign"),
+        project_ids: z
+          .array(idOrName())
+          .describe('Project IDs or names to assign the user to, e.g. [1, "Website Redesign"]'),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ user_id, project_ids }) => {
+      try {
+        const userId = await resolveId("user", user_id);
+        const data = [];
+        for (const project of project_ids) data.push({ id: await resolveId("project", project) });
+        return toolResult(
+          await apiRequest("POST", `/users/${userId}/assign_projects`, undefined, { data }),
+        );
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_remove_user_projects",
+    {
+      title: "Remove User from Projects",
+      description:
+        "Remove a user from one or more projects. " +
+        "Requires admin or project manager role.",
+      inputSchema: {
+        user_id: idOrName().describe("User ID or name to remove"),
+        project_ids: z
+          .array(idOrName())
+          .describe('Project IDs or names to remove the user from, e.g. [1, "Website Redesign"]'),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ user_id, project_ids }) => {
+      try {
+        const userId = await resolveId("user", user_id);
+        const data = [];
+        for (const project of project_ids) data.push({ id: await resolveId("project", project) });
+        return toolResult(
+          await apiRequest("POST", `/users/${userId}/remove_projects`, undefined, { data }),
+        );
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  // tt_get_user — get single user details
+  server.registerTool(
+    "tt_get_user",
+    {
+      title: "Get User",
+      description: "Get details for a single user by ID.",
+      inputSchema: {
+        id: z.number().describe("User ID"),
+        include_billing: z.boolean().optional().describe("Include billing data"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id, include_billing }) => {
+      try {
+        const params: Record<string, string> = {};
+        if (include_billing) params.include_billing = "true";
+        return toolResult(await apiRequest("GET", `/users/${id}`, params));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  // tt_update_user — update user profile
+  server.registerTool(
+    "tt_update_user",
+    {
+      title: "Update User",
+      description: "Update a user's profile. Admins can update others; users can self-edit.",
+      inputSchema: {
+        id: z.number().describe("User ID to update"),
+        name: z.string().optional().describe("First name"),
+        surname: z.string().optional().describe("Last name"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id, name, surname }) => {
+      try {
+        const body: Record<string, unknown> = {};
+        if (name) body.name = name;
+        if (surname) body.surname = surname;
+        return toolResult(await apiRequest("POST", `/users/update/${id}`, undefined, body));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  // tt_archive_user — deactivate a user
+  server.registerTool(
+    "tt_archive_user",
+    {
+      title: "Archive User",
+      description: "Archive (deactivate) a user. Admin only.",
+      inputSchema: {
+        id: z.number().describe("User ID to archive"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id }) => {
+      try {
+        return toolResult(await apiRequest("PUT", `/users/close/${id}`));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  // tt_reactivate_user — reactivate an archived user
+  server.registerTool(
+    "tt_reactivate_user",
+    {
+      title: "Reactivate User",
+      description: "Reactivate a previously archived user. Admin only.",
+      inputSchema: {
+        id: z.number().describe("User ID to reactivate"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id }) => {
+      try {
+        return toolResult(await apiRequest("PUT", `/users/open/${id}`));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  // tt_get_user_tasks — list a user's tasks grouped by project
+  server.registerTool(
+    "tt_get_user_tasks",
+    {
+      title: "Get User Tasks",
+      description: "List all tasks for a user, grouped by project.",
+      inputSchema: {
+        user_id: idOrName().describe("User ID or name"),
+        filter: z
+          .enum(["ALL", "ACTIVE", "ARCHIVED", "TRACKING"])
+          .optional()
+          .describe("Task filter (default: ACTIVE)"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ user_id, filter }) => {
+      try {
+        const params: Record<string, string> = {};
+        if (filter) params.filter = filter;
+        const userId = await resolveId("user", user_id);
+        return toolResult(await apiRequest("GET", `/users/${userId}/tasks`, params));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  // tt_get_user_tracking — see what a user is currently tracking
+  server.registerTool(
+    "tt_get_user_tracking",
+    {
+      title: "Get User Tracking",
+      description: "Get all tasks a user is currently tracking (running timers).",
+      inputSchema: {
+        user_id: idOrName().describe("User ID or name"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ user_id }) => {
+      try {
+        const userId = await resolveId("user", user_id);
+        return toolResult(await apiRequest("GET", `/users/${userId}/tasks/tracking`));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_get_user_trackables",
+    {
+      title: "Get User Trackables",
+      description:
+        "List all projects and tasks assigned to a user. " +
+        "Optionally filter to favorites only or a specific project.",
+      inputSchema: {
+        user_id: idOrName().describe("User ID or name"),
+        only_favorites: z.boolean().optional().describe("Only show favorites"),
+        include_tasks: z.boolean().optional().describe("Include tasks"),
+        project_id: idOrName().optional().describe("Filter to a specific project (ID or name)"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ user_id, only_favorites, include_tasks, project_id }) => {
+      try {
+        const params: Record<string, string> = {};
+        if (only_favorites) params.only_favorites = "true";
+        if (include_tasks) params.include_tasks = "true";
+        if (project_id !== undefined) params.project_id = String(await resolveOptional("project", project_id));
+        const userId = await resolveId("user", user_id);
+        return toolResult(await apiRequest("GET", `/users/${userId}/trackables`, params));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  // tt_get_user_projects — list projects assigned to a user
+  server.registerTool(
+    "tt_get_user_projects",
+    {
+      title: "Get User Projects",
+      description: "List all projects a user has been assigned to.",
+      inputSchema: {
+        user_id: idOrName().describe("User ID or name"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ user_id }) => {
+      try {
+        const userId = await resolveId("user", user_id);
+        return toolResult(await apiRequest("GET", `/users/${userId}/projects`));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  // tt_create_user — add a new user to your account (replaces broken tt_invite_users)
+  server.registerTool(
+    "tt_create_user",
+    {
+      title: "Create User",
+      description:
+        "Create a new user (staff member) in your TrackingTime account. " +
+        "Requires name and role; email is optional but recommended so they can log in. " +
+        "Use tt_resend_invite afterwards if the activation email doesn't arrive. " +
+        "Requires admin role.",
+      inputSchema: {
+        name: z.string().describe("First name (required)"),
+        role: z
+          .enum(["ADMIN", "MANAGER", "REGULAR"])
+          .describe("Role: ADMIN, MANAGER (project manager), or REGULAR"),
+        surname: z.string().optional().describe("Last name"),
+        email: z.string().optional().describe("Email address (for login/invite)"),
+        hourly_rate: z.number().optional().describe("Billable rate per hour"),
+        hourly_cost: z.number().optional().describe("Internal cost per hour"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ name, role, surname, email, hourly_rate, hourly_cost }) => {
+      try {
+        const body: Record<string, unknown> = { name, role };
+        if (surname) body.surname = surname;
+        if (email) body.email = email;
+        if (hourly_rate !== undefined) body.hourly_rate = hourly_rate;
+        if (hourly_cost !== undefined) body.hourly_cost = hourly_cost;
+        return toolResult(await apiRequest("POST", "/users/add", undefined, body));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  // tt_resend_invite — resend the activation email for a pending user
+  server.registerTool(
+    "tt_resend_invite",
+    {
+      title: "Resend User Invite",
+      description:
+        "Resend the activation email to a pending user who hasn't registered yet. " +
+        "The email must match a user already created via tt_create_user. " +
+        "Requires admin role.",
+      inputSchema: {
+        email: z.string().describe("Email address of the pending user"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ email }) => {
+      try {
+        return toolResult(await apiRequest("POST", "/users/resend_invite", undefined, { email }));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  // tt_reset_icalendar_token — rotate the user's iCal export token
+  server.registerTool(
+    "tt_reset_icalendar_token",
+    {
+      title: "Reset iCalendar Token",
+      description:
+        "Rotate the session user's iCalendar export token. " +
+        "Any existing iCal URLs will stop working until regenerated.",
+      inputSchema: {},
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async () => {
+      try {
+        return toolResult(await apiRequest("POST", "/users/icalendar/reset_token"));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_update_user_permissions",
+    {
+      title: "Update User Permissions",
+      description:
+        "Update granular permissions for a user (what they can edit/view). " +
+        "Admin only. Does not change role — just permission flags.",
+      inputSchema: {
+        user_id: z.number().describe("User ID"),
+        can_edit_time_entries: z.boolean().optional(),
+        can_edit_projects_and_tasks: z.boolean().optional(),
+        can_view_time_entries_from_others: z.boolean().optional(),
+        can_view_others: z.boolean().optional(),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ user_id, ...flags }) => {
+      try {
+        const body: Record<string, unknown> = {};
+        for (const [k, v] of Object.entries(flags)) {
+          if (v !== undefined) body[k] = v;
+        }
+        return toolResult(
+          await apiRequest("POST", `/users/update_permissions/${user_id}`, undefined, body),
+        );
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_update_employee",
+    {
+      title: "Update Employee Details",
+      description:
+        "Update HR/employee fields on a user: job title, department, location, " +
+        "employment status, tax id, phone, hire/termination dates, etc. Admin only.",
+      inputSchema: {
+        user_id: z.number().describe("User ID"),
+        name: z.string().optional().describe("Employee legal name"),
+        nr: z.string().optional().describe("Employee number/code"),
+        employment_status: z
+          .string()
+          .optional()
+          .describe("Employment status (e.g. FULL_TIME, PART_TIME, CONTRACTOR)"),
+        gender: z.string().optional().describe("Gender"),
+        tax_id: z.string().optional().describe("Tax identification number"),
+        phone: z.string().optional().describe("Phone number"),
+        job_title: z.string().optional().describe("Job title"),
+        department: z.string().optional().describe("Department"),
+        location: z.string().optional().describe("Work location"),
+        notes: z.string().optional().describe("HR notes"),
+        birthdate: z.string().optional().describe("Birthdate (YYYY-MM-DD)"),
+        hire_date: z.string().optional().describe("Hire date (YYYY-MM-DD)"),
+        termination_date: z.string().optional().describe("Termination date (YYYY-MM-DD)"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ user_id, ...fields }) => {
+      try {
+        const body: Record<string, unknown> = {};
+        for (const [k, v] of Object.entries(fields)) {
+          if (v !== undefined) body[k] = EMPLOYEE_DATES.includes(k) ? parseDate(v) : v;
+        }
+        return toolResult(
+          await apiRequest("POST", `/users/${user_id}/employee/update`, undefined, body),
+        );
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+}
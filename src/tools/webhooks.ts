@@ -0,0 +1,147 @@
+import { z } from "zod";
+import { apiRequest } from "../api-client.js";
+import type { ToolRegistrar } from "../registration.js";
+import { errorResult, toolResult } from "./shared.js";
+
+export function registerWebhookTools(server: ToolRegistrar) {
+  server.registerTool(
+    "tt_list_webhooks",
+    {
+      title: "List Webhooks",
+      description: "List configured webhooks.",
+      inputSchema: {
+        filter: z
+          .enum(["ALL", "ENABLED", "DISABLED", "ACTIVE"])
+          .optional()
+          .describe("Webhook filter"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ filter }) => {
+      try {
+        const params: Record<string, string> = {};
+        if (filter) params.filter = filter;
+        return toolResult(await apiRequest("GET", "/webhooks", params));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_get_webhook",
+    {
+      title: "Get Webhook",
+      description: "Get a single webhook by ID.",
+      inputSchema: { id: z.number().describe("Webhook ID") },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id }) => {
+      try {
+        return toolResult(await apiRequest("GET", `/webhooks/${id}`));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_enable_webhook",
+    {
+      title: "Enable Webhook",
+      description: "Enable a disabled webhook.",
+      inputSchema: { id: z.number().describe("Webhook ID") },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id }) => {
+      try {
+        return toolResult(await apiRequest("PUT", `/webhooks/enable/${id}`));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_disable_webhook",
+    {
+      title: "Disable Webhook",
+      description: "Disable an active webhook without deleting it.",
+      inputSchema: { id: z.number().describe("Webhook ID") },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id }) => {
+      try {
+        return toolResult(await apiRequest("PUT", `/webhooks/disable/${id}`));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_reset_webhook_token",
+    {
+      title: "Reset Webhook Token",
+      description:
+        "Rotate the signing/auth token for a webhook. " +
+        "Existing subscribers must be updated with the new token.",
+      inputSchema: { id: z.number().describe("Webhook ID") },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ id }) => {
+      try {
+        return toolResult(await apiRequest("POST", `/webhooks/reset_token/${id}`));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+
+  server.registerTool(
+    "tt_delete_webhook",
+    {
+      title: "Delete Webhook",
+      description: "Permanently delete a webhook.",
+      inputSchema: { id: z.number().describe("Webhook ID") },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ id }) => {
+      try {
+        return toolResult(await apiRequest("DELETE", `/webhooks/${id}`));
+      } catch (err) {
+        return errorResult(err);
+      }
+    },
+  );
+}
@@ -0,0 +1,140 @@
+import { daysBetween, isoWeekday, shiftDays } from "./dates.js";
+import type { TimeEntry } from "./events.js";
+
+/**
+ * Team utilization: each person's tracked hours over a date range against
+ * their contracted capacity, split into billable and non-billable time and
+ * ranked from most to least utilized.
+ */
+
+export type BillableBasis = "billed" | "services";
+
+export interface StaffMember {
+  id: number;
+  name: string | null;
+  /** Contracted hours per Monday-to-Friday week. */
+  weeklyHours: number;
+}
+
+export interface UserUtilization {
+  user_id: number;
+  user: string | null;
+  weekly_hours: number;
+  capacity_hours: number;
+  tracked_hours: number;
+  billable_hours: number;
+  non_billable_hours: number;
+  /** Tracked hours as a percentage of capacity; null without capacity. */
+  utilization_percent: number | null;
+  /** Billable hours as a percentage of capacity; null without capacity. */
+  billable_percent: number | null;
+  status: "over" | "under" | "on_target" | "no_capacity";
+}
+
+export interface Thresholds {
+  over_percent: number;
+  under_percent: number;
+}
+
+export interface TeamUtilization {
+  from: string;
+  to: string;
+  working_days: number;
+  billable_basis: BillableBasis;
+  thresholds: Thresholds;
+  totals: Omit<UserUtilization, "user_id" | "user" | "weekly_hours" | "status">;
+  /** Everyone, most utilized first. */
+  users: UserUtilization[];
+  /** Over the `over_percent` threshold, most over first. */
+  over_utilized: Pick<UserUtilization, "user_id" | "user" | "utilization_percent">[];
+  /** Under the `under_percent` threshold, least utilized first. */
+  under_utilized: Pick<UserUtilization, "user_id" | "user" | "utilization_percent">[];
+}
+
+const twoDecimals = (value: number) => Math.round(value * 100) / 100;
+const percent = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 1000) / 10 : null);
+
+/** Monday-to-Friday days from one YYYY-MM-DD date to another, inclusive. */
+export function workingDays(from: string, to: string): number {
+  let count = 0;
+  for (let i = 0; i <= daysBetween(from, to); i++) {
+    if (isoWeekday(shiftDays(from, i)) <= 5) count++;
+  }
+  return count;
+}
+
+export function teamUtilization(
+  staff: StaffMember[],
+  entries: TimeEntry[],
+  range: { from: string; to: string },
+  isBillable: (entry: TimeEntry) => boolean,
+  basis: BillableBasis,
+  thresholds: Thresholds,
+): TeamUtilization {
+  const days = workingDays(range.from, range.to);
+  const tracked = new Map<number, { total: number; billable: number }>();
+  for (const entry of entries) {
+    if (entry.user_id === undefined) continue;
+    const sums = tracked.get(entry.user_id) ?? { total: 0, billable: 0 };
+    const duration = Number(entry.duration) || 0;
+    sums.total += duration;
+    if (isBillable(entry)) sums.billable += duration;
+    tracked.set(entry.user_id, sums);
+  }
+
+  const users = staff
+    .map((member): UserUtilization => {
+      const sums = tracked.get(member.id) ?? { total: 0, billable: 0 };
+      const capacity = twoDecimals((member.weeklyHours / 5) * days);
+      const hours = twoDecimals(sums.total / 3600);
+      const billable = twoDecimals(sums.billable / 3600);
+      const utilization = percent(hours, capacity);
+      return {
+        user_id: member.id,
+        user: member.name,
+        weekly_hours: member.weeklyHours,
+        capacity_hours: capacity,
+        tracked_hours: hours,
+        billable_hours: billable,
+        non_billable_hours: twoDecimals(hours - billable),
+        utilization_percent: utilization,
+        billable_percent: percent(billable, capacity),
+        status:
+          utilization === null
+            ? "no_capacity"
+            : utilization > thresholds.over_percent
+              ? "over"
+              : utilization < thresholds.under_percent
+                ? "under"
+                : "on_target",
+      };
+    })
+    .sort((a, b) => (b.utilization_percent ?? -1) - (a.utilization_percent ?? -1));
+
+  const sum = (pick: (user: UserUtilization) => number) =>
+    twoDecimals(users.reduce((total, user) => total + pick(user), 0));
+  const capacity = sum((u) => u.capacity_hours);
+  const hours = sum((u) => u.tracked_hours);
+  const billable = sum((u) => u.billable_hours);
+  const brief = ({ user_id, user, utilization_percent }: UserUtilization) => ({ user_id, user, utilization_percent });
+  return {
+    ...range,
+    working_days: days,
+    billable_basis: basis,
+    thresholds,
+    totals: {
+      capacity_hours: capacity,
+      tracked_hours: hours,
+      billable_hours: billable,
+      non_billable_hours: twoDecimals(hours - billable),
+      utilization_percent: percent(hours, capacity),
+      billable_percent: percent(billable, capacity),
+    },
+    users,
+    over_utilized: users.filter((u) => u.status === "over").map(brief),
+    under_utilized: users
+      .filter((u) => u.status === "under")
+      .reverse()
+      .map(brief),
+  };
+}
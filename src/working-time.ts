@@ -0,0 +1,188 @@
+import { daysBetween, isoWeekday, shiftDays, wallSeconds } from "./dates.js";
+import type { TimeEntry } from "./events.js";
+
+/**
+ * Working-time compliance: daily and weekly hour limits, rest between
+ * working days, weekend and holiday work, runs of consecutive working days
+ * and work logged on days of absence. Entries count toward the day they
+ * start on; times are compared as wall-clock time.
+ */
+
+export interface WorkingTimeRules {
+  max_daily_hours: number;
+  max_weekly_hours: number;
+  min_rest_hours: number;
+  max_consecutive_days: number;
+  allow_weekend_work: boolean;
+  /** YYYY-MM-DD dates on which any work is reported. */
+  holidays: string[];
+}
+
+export const DEFAULT_WORKING_TIME_RULES: WorkingTimeRules = {
+  max_daily_hours: 10,
+  max_weekly_hours: 48,
+  min_rest_hours: 11,
+  max_consecutive_days: 6,
+  allow_weekend_work: false,
+  holidays: [],
+};
+
+/** A day off from /events/min with include_timeoffs. */
+export interface Absence {
+  user_id: number;
+  date: string;
+  hours: number;
+  /** The time off's notes or type, e.g. "Vacation". */
+  reason: string | null;
+}
+
+export type WorkingTimeRule =
+  | "max_daily_hours"
+  | "max_weekly_hours"
+  | "min_rest_hours"
+  | "max_consecutive_days"
+  | "weekend_work"
+  | "holiday_work"
+  | "work_during_absence";
+
+export interface Violation {
+  rule: WorkingTimeRule;
+  user_id: number;
+  user: string | null;
+  /** The day, or the first day of the week or run. */
+  date: string;
+  /** Last day of the week or run. */
+  to?: string;
+  hours?: number;
+  rest_hours?: number;
+  days?: number;
+  limit?: number;
+  absence?: string | null;
+  event_ids: number[];
+}
+
+const twoDecimals = (value: number) => Math.round(value * 100) / 100;
+const dayOf = (entry: TimeEntry) => entry.start.slice(0, 10);
+const hoursOf = (entries: TimeEntry[]) =>
+  twoDecimals(entries.reduce((sum, e) => sum + (Number(e.duration) || 0), 0) / 3600);
+const idsOf = (entries: TimeEntry[]) => entries.map((e) => e.id);
+
+/** Wall-clock end of an entry: its `end`, or its start plus its duration for running timers. */
+function endSeconds(entry: TimeEntry): number {
+  return entry.end ? wallSeconds(entry.end) : wallSeconds(entry.start) + (Number(entry.duration) || 0);
+}
+
+function checkUser(
+  userId: number,
+  user: string | null,
+  entries: TimeEntry[],
+  absences: Absence[],
+  rules: WorkingTimeRules,
+): Violation[] {
+  const violations: Violation[] = [];
+  const days = new Map<string, TimeEntry[]>();
+  for (const entry of [...entries].sort((a, b) => wallSeconds(a.start) - wallSeconds(b.start))) {
+    days.set(dayOf(entry), [...(days.get(dayOf(entry)) ?? []), entry]);
+  }
+  const dates = [...days.keys()].sort();
+  const holidays = new Set(rules.holidays);
+  const absent = new Map(absences.map((a) => [a.date, a]));
+
+  const weeks = new Map<string, TimeEntry[]>();
+  for (const date of dates) {
+    const worked = days.get(date) as TimeEntry[];
+    const hours = hoursOf(worked);
+    const base = { user_id: userId, user, date, hours, event_ids: idsOf(worked) };
+    if (hours > rules.max_daily_hours) violations.push({ rule: "max_daily_hours", ...base, limit: rules.max_daily_hours });
+    if (!rules.allow_weekend_work && isoWeekday(date) > 5) violations.push({ rule: "weekend_work", ...base });
+    if (holidays.has(date)) violations.push({ rule: "holiday_work", ...base });
+    const absence = absent.get(date);
+    if (absence) violations.push({ rule: "work_during_absence", ...base, absence: absence.reason });
+
+    const monday = shiftDays(date, 1 - isoWeekday(date));
+    weeks.set(monday, [...(weeks.get(monday) ?? []), ...worked]);
+
+    const next = days.get(shiftDays(date, 1));
+    if (next) {
+      const lastEnd = Math.max(...worked.map(endSeconds));
+      const rest = twoDecimals((wallSeconds(next[0].start) - lastEnd) / 3600);
+      if (rest < rules.min_rest_hours) {
+        const last = worked.find((e) => endSeconds(e) === lastEnd) as TimeEntry;
+        violations.push({
+          rule: "min_rest_hours",
+          user_id: userId,
+          user,
+          date: shiftDays(date, 1),
+          rest_hours: rest,
+          limit: rules.min_rest_hours,
+          event_ids: [last.id, next[0].id],
+        });
+      }
+    }
+  }
+
+  for (const [monday, worked] of weeks) {
+    const hours = hoursOf(worked);
+    if (hours > rules.max_weekly_hours) {
+      violations.push({
+        rule: "max_weekly_hours",
+        user_id: userId,
+        user,
+        date: monday,
+        to: shiftDays(monday, 6),
+        hours,
+        limit: rules.max_weekly_hours,
+        event_ids: idsOf(worked),
+      });
+    }
+  }
+
+  // Runs of calendar days with tracked time; a day off without tracked time ends a run.
+  let run: string[] = [];
+  for (const date of [...dates, ""]) {
+    if (run.length && date && daysBetween(run[run.length - 1], date) === 1) {
+      run.push(date);
+      continue;
+    }
+    if (run.length > rules.max_consecutive_days) {
+      violations.push({
+        rule: "max_consecutive_days",
+        user_id: userId,
+        user,
+        date: run[0],
+        to: run[run.length - 1],
+        days: run.length,
+        limit: rules.max_consecutive_days,
+        event_ids: run.flatMap((d) => idsOf(days.get(d) as TimeEntry[])),
+      });
+    }
+    run = [date];
+  }
+  return violations;
+}
+
+/**
+ * Check every user's entries against `rules`. `users` names the people to
+ * check; everyone else's entries are ignored. Violations are sorted by user,
+ * then date.
+ */
+export function checkWorkingTime(
+  users: { id: number; name: string | null }[],
+  entries: TimeEntry[],
+  absences: Absence[],
+  rules: WorkingTimeRules,
+): { violations: Violation[]; by_rule: Partial<Record<WorkingTimeRule, number>> } {
+  const violations = users.flatMap((user) =>
+    checkUser(
+      user.id,
+      user.name,
+      entries.filter((e) => e.user_id === user.id),
+      absences.filter((a) => a.user_id === user.id),
+      rules,
+    ),
+  );
+  violations.sort((a, b) => a.user_id - b.user_id || a.date.localeCompare(b.date));
+  const byRule: Partial<Record<WorkingTimeRule, number>> = {};
+  for (const v of violations) byRule[v.rule] = (byRule[v.rule] ?? 0) + 1;
+  return { violations, by_rule: byRule };
+}
@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { startHarness, type Harness } from "./helpers.js";
+
+const gatewayError = { status: 503, raw: "<html>Bad Gateway</html>", contentType: "text/html" };
+
+describe("apiRequest retries", () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await startHarness({ TT_MAX_RETRIES: "2", TT_RETRY_BASE_MS: "1", TT_RETRY_MAX_MS: "20" });
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => {
+    harness.fake.reset();
+  });
+
+  it("retries GET requests after a gateway error", async () => {
+    harness.fake.faults.push({ match: /^\/projects$/, count: 1, reply: gatewayError });
+    const result = await harness.call("tt_list_projects");
+    assert.equal(result.isError, false, result.text);
+    assert.equal(harness.fake.requestsTo("/projects").length, 2);
+  });
+
+  it("honours Retry-After on HTTP 429", async () => {
+    harness.fake.faults.push({
+      match: /^\/customers$/,
+      count: 1,
+      reply: { status: 429, headers: { "Retry-After": "0" }, error: { status: 429, message: "Too many requests" } },
+    });
+    const result = await harness.call("tt_list_customers");
+    assert.equal(result.isError, false, result.text);
+    assert.equal(harness.fake.requestsTo("/customers").length, 2);
+  });
+
+  it("gives up after TT_MAX_RETRIES", async () => {
+    harness.fake.faults.push({ match: /^\/projects$/, count: 5, reply: gatewayError });
+    const result = await harness.call("tt_list_projects");
+    assert.equal(result.isError, true);
+    assert.match(result.text, /HTTP 503/);
+    assert.equal(harness.fake.requestsTo("/projects").length, 3);
+  });
+
+  it("does not retry non-idempotent POSTs", async () => {
+    harness.fake.faults.push({ match: /^\/events\/add$/, count: 1, reply: gatewayError });
+    const result = await harness.call("tt_add_time_entry", {
+      duration: 3600,
+      user_id: 1,
+      start: "2026-10-06 09:00:00",
+      end: "2026-10-06 10:00:00",
+    });
+    assert.equal(result.isError, true);
+    assert.equal(harness.fake.requestsTo("/events/add").length, 1);
+  });
+
+  it("retries POST lookups that opt in", async () => {
+    harness.fake.faults.push({ match: /^\/tasks\/times$/, count: 1, reply: gatewayError });
+    const result = await harness.call("tt_get_task_times", { task_ids: [100] });
+    assert.equal(result.isError, false, result.text);
+    assert.equal(harness.fake.requestsTo("/tasks/times").length, 2);
+  });
+
+  it("never retries JSON error envelopes, even with a 5xx status", async () => {
+    harness.fake.faults.push({
+      match: /^\/projects$/,
+      count: 1,
+      reply: { status: 502, error: { status: 502, message: "There is a task being tracked" } },
+    });
+    const result = await harness.call("tt_list_projects");
+    assert.equal(result.isError, true);
+    assert.match(result.text, /task being tracked/);
+    assert.equal(harness.fake.requestsTo("/projects").length, 1);
+  });
+});
@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { startHarness, type Harness } from "./helpers.js";
+
+/** What a destructive tool returns instead of running, with the preview shaped like `P`. */
+interface Confirmation<P> {
+  confirmation_required: boolean;
+  confirm_token: string;
+  preview: P;
+}
+
+let h: Harness;
+
+before(async () => {
+  h = await startHarness({}, { confirmDestructive: true });
+});
+
+after(async () => {
+  await h.close();
+});
+
+beforeEach(() => h.fake.reset());
+
+describe("confirmation tokens", () => {
+  it("previews a project delete without deleting anything", async () => {
+    const res = await h.call<Confirmation<{ project: unknown; action: string }>>("tt_delete_project", { id: 10 });
+    assert.equal(res.isError, false);
+    assert.equal(res.json.confirmation_required, true);
+    assert.deepEqual(res.json.preview.project, {
+      id: 10,
+      name: "Website Redesign",
+      status: "ACTIVE",
+      task_count: 2,
+      entry_count: h.fake.events.filter((e) => e.project_id === 10).length,
+    });
+    assert.match(res.json.preview.action, /tasks and time entries/);
+    assert.equal(typeof res.json.confirm_token, "string");
+    assert.ok(h.fake.projects.some((p) => p.id === 10));
+    assert.equal(h.fake.requestsTo("/projects/delete/10").length, 0);
+  });
+
+  it("runs the tool when called again with the token", async () => {
+    const { json } = await h.call<Confirmation<unknown>>("tt_delete_project", { id: 10, delete_all: false });
+    const res = await h.call<{ name: string }>("tt_delete_project", { delete_all: false, id: 10, confirm_token: json.confirm_token });
+    assert.equal(res.isError, false);
+    assert.equal(res.json.name, "Website Redesign");
+    assert.ok(!h.fake.projects.some((p) => p.id === 10));
+    assert.ok(h.fake.tasks.some((t) => t.project_id === 10));
+  });
+
+  it("rejects reused tokens and tokens issued for other arguments", async () => {
+    type Named = { name: string };
+    const { json } = await h.call<Confirmation<{ source: Named; target: Named }>>("tt_merge_projects", {
+      source_id: 11,
+      target_id: 10,
+    });
+    assert.equal(json.preview.source.name, "Support Retainer");
+    assert.equal(json.preview.target.name, "Website Redesign");
+
+    const wrong = await h.call("tt_merge_projects", { source_id: 10, target_id: 11, confirm_token: json.confirm_token });
+    assert.equal(wrong.isError, true);
+    assert.match(wrong.text, /Invalid or expired confirm_token/);
+
+    // A failed attempt spends the token, so the original call needs a new preview too.
+    const retry = await h.call("tt_merge_projects", { source_id: 11, target_id: 10, confirm_token: json.confirm_token });
+    assert.equal(retry.isError, true);
+    assert.equal(h.fake.requestsTo("/projects/merge/11").length, 0);
+  });
+
+  it("previews group deletes with their member count", async () => {
+    const res = await h.call<Confirmation<{ group: unknown }>>("tt_delete_user_group", { id: 50 });
+    assert.deepEqual(res.json.preview.group, { id: 50, name: "Engineering", member_count: 2 });
+  });
+
+  it("falls back to echoing the arguments for tools without a preview", async () => {
+    const res = await h.call<Confirmation<unknown>>("tt_delete_webhook", { id: 60 });
+    assert.deepEqual(res.json.preview, { arguments: { id: 60 } });
+  });
+
+  it("leaves non-destructive tools alone", async () => {
+    const res = await h.call<{ status: string }>("tt_archive_project", { id: 10 });
+    assert.equal(res.isError, false);
+    assert.equal(res.json.status, "ARCHIVED");
+  });
+
+  it("advertises confirm_token only on destructive tools", async () => {
+    const { tools } = await h.client.listTools();
+    for (const tool of tools) {
+      const hasToken = "confirm_token" in (tool.inputSchema.properties ?? {});
+      assert.equal(hasToken, tool.annotations?.destructiveHint === true, tool.name);
+    }
+  });
+});
+
+describe("ConfirmationStore", () => {
+  // Imported lazily: the module pulls in the API client, which needs the harness env.
+  const load = async () => (await import("../src/confirmation.js")).ConfirmationStore;
+
+  it("expires tokens after the TTL", async () => {
+    const ConfirmationStore = await load();
+    const store = new ConfirmationStore(0);
+    const token = store.issue("tt_delete_tag", { id: 1 });
+    await new Promise((r) => setTimeout(r, 5));
+    assert.equal(store.redeem(token, "tt_delete_tag", { id: 1 }), false);
+  });
+
+  it("matches arguments regardless of key order", async () => {
+    const ConfirmationStore = await load();
+    const store = new ConfirmationStore();
+    const token = store.issue("tt_delete_task", { id: 1, delete_all: false });
+    assert.equal(store.redeem(token, "tt_delete_task", { delete_all: false, id: 1 }), true);
+  });
+});
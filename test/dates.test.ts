@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseDate, parseDateTime, parseRange, parseWeek, utcOffset } from "../src/dates.js";
+
+// Sunday 2026-10-18, 23:30 in Berlin (21:30 UTC).
+const now = new Date("2026-10-18T21:30:00Z");
+const berlin = { timeZone: "Europe/Berlin", now };
+
+describe("parseDate", () => {
+  it("validates YYYY-MM-DD", () => {
+    assert.equal(parseDate("2026-02-28", "start", berlin), "2026-02-28");
+    assert.throws(() => parseDate("2026-02-30", "start", berlin), /Invalid date "2026-02-30"/);
+    assert.throws(() => parseDate("10/05/2026", "start", berlin), /Use YYYY-MM-DD/);
+  });
+
+  it("resolves relative days in the configured timezone", () => {
+    assert.equal(parseDate("today", "start", berlin), "2026-10-18");
+    assert.equal(parseDate("today", "start", { timeZone: "America/New_York", now }), "2026-10-18");
+    assert.equal(parseDate("today", "start", { timeZone: "Asia/Tokyo", now }), "2026-10-19");
+    assert.equal(parseDate("Yesterday", "start", berlin), "2026-10-17");
+    assert.equal(parseDate("3 days ago", "start", berlin), "2026-10-15");
+    assert.equal(parseDate("1 month ago", "start", berlin), "2026-09-18");
+  });
+
+  it("resolves weekdays relative to today", () => {
+    assert.equal(parseDate("sunday", "start", berlin), "2026-10-18");
+    assert.equal(parseDate("last sunday", "start", berlin), "2026-10-11");
+    assert.equal(parseDate("monday", "start", berlin), "2026-10-12");
+    assert.equal(parseDate("next monday", "start", berlin), "2026-10-19");
+  });
+
+  it("expands periods to their first or last day", () => {
+    assert.deepEqual(parseRange("last week", "last week", berlin), { from: "2026-10-05", to: "2026-10-11" });
+    assert.deepEqual(parseRange("this week", "this week", berlin), { from: "2026-10-12", to: "2026-10-18" });
+    assert.deepEqual(parseRange("this month", "this month", berlin), { from: "2026-10-01", to: "2026-10-31" });
+    assert.deepEqual(parseRange("last month", "last month", berlin), { from: "2026-09-01", to: "2026-09-30" });
+    assert.deepEqual(parseRange("last year", "this year", berlin), { from: "2025-01-01", to: "2026-12-31" });
+  });
+
+  it("rejects ranges that end before they start", () => {
+    assert.throws(() => parseRange("2026-10-10", "2026-10-01", berlin), /from \(2026-10-10\) is after to/);
+  });
+});
+
+describe("parseDateTime", () => {
+  it("resolves now and offsets from now", () => {
+    assert.equal(parseDateTime("now", "start", berlin), "2026-10-18 23:30:00");
+    assert.equal(parseDateTime("45 minutes ago", "start", berlin), "2026-10-18 22:45:00");
+    assert.equal(parseDateTime("now", "start", { timeZone: "UTC", now }), "2026-10-18 21:30:00");
+  });
+
+  it("combines date expressions with times", () => {
+    assert.equal(parseDateTime("yesterday 14:00", "start", berlin), "2026-10-17 14:00:00");
+    assert.equal(parseDateTime("monday at 9am", "start", berlin), "2026-10-12 09:00:00");
+    assert.equal(parseDateTime("12:30pm", "start", berlin), "2026-10-18 12:30:00");
+    assert.equal(parseDateTime("2026-10-05 9:05", "start", berlin), "2026-10-05 09:05:00");
+  });
+
+  it("converts ISO 8601 timestamps with an offset to local wall-clock time", () => {
+    assert.equal(parseDateTime("2026-10-05T07:00:00Z", "start", berlin), "2026-10-05 09:00:00");
+    assert.equal(parseDateTime("2026-10-05T09:00:00+02:00", "start", berlin), "2026-10-05 09:00:00");
+    assert.equal(parseDateTime("2026-10-05T09:00:00", "start", berlin), "2026-10-05 09:00:00");
+  });
+
+  it("uses the start or end of a bare date", () => {
+    assert.equal(parseDateTime("2026-10-05", "start", berlin), "2026-10-05 00:00:00");
+    assert.equal(parseDateTime("2026-10-05", "end", berlin), "2026-10-05 23:59:59");
+  });
+
+  it("rejects invalid times", () => {
+    assert.throws(() => parseDateTime("today 25:00", "start", berlin), /Invalid datetime/);
+    assert.throws(() => parseDateTime("13pm", "start", berlin), /Invalid datetime/);
+  });
+});
+
+describe("utcOffset", () => {
+  it("formats the zone's offset the way TrackingTime expects", () => {
+    assert.equal(utcOffset(berlin), "GMT+02:00");
+    assert.equal(utcOffset({ timeZone: "America/New_York", now }), "GMT-04:00");
+    assert.equal(utcOffset({ timeZone: "Asia/Kolkata", now }), "GMT+05:30");
+  });
+});
+
+describe("parseWeek", () => {
+  it("parses ISO weeks, including ones that straddle a year boundary", () => {
+    assert.deepEqual(
+      { ...parseWeek("2026-W42", berlin), days: undefined },
+      { week: "2026-W42", from: "2026-10-12", to: "2026-10-18", days: undefined },
+    );
+    assert.equal(parseWeek("2026-w01", berlin).from, "2025-12-29");
+    assert.equal(parseWeek("2020-W53", berlin).to, "2021-01-03");
+    assert.throws(() => parseWeek("2025-W53", berlin), /2025 has no week 53/);
+  });
+
+  it("takes the week containing a date expression", () => {
+    assert.equal(parseWeek("this week", berlin).week, "2026-W42");
+    assert.equal(parseWeek("last week", berlin).from, "2026-10-05");
+    assert.equal(parseWeek("2026-10-08", berlin).days.length, 7);
+    assert.throws(() => parseWeek("soon", berlin), /Invalid week "soon"/);
+  });
+});
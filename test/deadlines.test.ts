@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { bucketByDeadline, deadlineTask } from "../src/deadlines.js";
+
+const TODAY = "2026-10-14"; // a Wednesday
+
+function task(id: number, due_date: string | null, estimate = 0, trackedSeconds = 0) {
+  const fields = { task_id: id, task: `Task ${id}`, project_id: 10, project: "Web", customer: null, service: null, assignees: [], due_date };
+  return deadlineTask(fields, estimate, trackedSeconds, TODAY);
+}
+
+describe("deadlineTask", () => {
+  it("compares tracked time with the estimate", () => {
+    const over = task(1, TODAY, 2, 9000);
+    assert.deepEqual(
+      [over.days_until_due, over.tracked_hours, over.remaining_hours, over.percent_of_estimate, over.over_estimate],
+      [0, 2.5, -0.5, 125, true],
+    );
+    const open = task(2, null);
+    assert.deepEqual([open.days_until_due, open.estimated_hours, open.percent_of_estimate, open.over_estimate], [null, null, null, false]);
+  });
+});
+
+describe("bucketByDeadline", () => {
+  it("buckets by due date with this week ending on Sunday", () => {
+    const buckets = bucketByDeadline(
+      [task(1, "2026-10-13"), task(2, TODAY), task(3, "2026-10-18"), task(4, "2026-10-19"), task(5, null)],
+      TODAY,
+    );
+    const ids = (list: { task_id: number }[]) => list.map((t) => t.task_id);
+    assert.deepEqual(
+      [buckets.overdue, buckets.due_today, buckets.due_this_week, buckets.due_later, buckets.no_due_date].map(ids),
+      [[1], [2], [3], [4], [5]],
+    );
+  });
+
+  it("puts the earliest deadline and the most work left first", () => {
+    const { overdue } = bucketByDeadline(
+      [task(1, "2026-10-12", 2), task(2, "2026-10-10"), task(3, "2026-10-12", 8), task(4, "2026-10-12")],
+      TODAY,
+    );
+    assert.deepEqual(overdue.map((t) => t.task_id), [2, 3, 1, 4]);
+  });
+});
@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { formatHoursMinutes, parseDuration, withDurationCompanions } from "../src/durations.js";
+
+describe("parseDuration", () => {
+  it("treats numbers and bare numeric strings as the parameter's own unit", () => {
+    assert.equal(parseDuration(3600, "seconds"), 3600);
+    assert.equal(parseDuration(1.5, "hours"), 1.5);
+    assert.equal(parseDuration("5400", "seconds"), 5400);
+    assert.equal(parseDuration("2", "hours"), 2);
+  });
+
+  it("converts strings with units", () => {
+    for (const input of ["1h30m", "90m", "1.5h", "1:30", "1 hour 30 minutes", "1h 30min", "5400s", "1:30:00"]) {
+      assert.equal(parseDuration(input, "seconds"), 5400, input);
+      assert.equal(parseDuration(input, "hours"), 1.5, input);
+    }
+    assert.equal(parseDuration("20m", "hours"), 0.33);
+  });
+
+  it("rejects strings it can't read", () => {
+    for (const input of ["1h30", "an hour", "1:75", "-2h", "h"]) {
+      assert.throws(() => parseDuration(input, "seconds"), /Invalid duration/, input);
+    }
+  });
+});
+
+describe("duration companions", () => {
+  it("formats H:MM beyond 24 hours", () => {
+    assert.equal(formatHoursMinutes(5400), "1:30");
+    assert.equal(formatHoursMinutes(149_400), "41:30");
+    assert.equal(formatHoursMinutes(29), "0:00");
+  });
+
+  it("adds companions to seconds and hours fields at any depth", () => {
+    assert.deepEqual(
+      withDurationCompanions({
+        id: 1,
+        duration: 5400,
+        tasks: [{ accumulated_time: 36_000, estimated_time: 12.5 }],
+        summary: { worked_hours: 7.75, duration: "n/a" },
+      }),
+      {
+        id: 1,
+        duration: 5400,
+        duration_hhmm: "1:30",
+        duration_hours: 1.5,
+        tasks: [{ accumulated_time: 36_000, accumulated_time_hhmm: "10:00", accumulated_time_hours: 10, estimated_time: 12.5, estimated_time_hhmm: "12:30" }],
+        summary: { worked_hours: 7.75, worked_hours_hhmm: "7:45", duration: "n/a" },
+      },
+    );
+  });
+});
@@ -0,0 +1,919 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+/**
+ * In-memory stand-in for the TrackingTime v4 API. Responses use the same
+ * {response:{status,message},data} envelope as the real service, and the
+ * quirks documented in the CHANGELOG are reproduced so regressions show up
+ * offline:
+ *
+ * - /events/billed and /events/not_billed only accept `data` as a JSON string;
+ *   every other endpoint only accepts raw arrays (500 otherwise).
+ * - POST to the close/open endpoints returns an HTML page instead of applying
+ *   the change — only PUT works.
+ * - /users/invite doesn't exist (400).
+ * - Starting a timer while another is running returns envelope status 502
+ *   unless stop_running_task is set.
+ */
+
+export const ACCOUNT_ID = "1000";
+export const APP_PASSWORD = "test-app-password";
+export const SESSION_USER_ID = 1;
+
+type Row = Record<string, any>;
+
+type Collection =
+  | "projects"
+  | "tasks"
+  | "events"
+  | "users"
+  | "customers"
+  | "services"
+  | "tags"
+  | "groups"
+  | "webhooks";
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: any;
+}
+
+interface Reply {
+  status?: number;
+  contentType?: string;
+  headers?: Record<string, string>;
+  raw?: string;
+  data?: unknown;
+  error?: { status: number; message: string };
+}
+
+type Handler = (req: { params: string[]; query: Record<string, string>; body: any }) => Reply | unknown;
+
+class ApiError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+function fail(status: number, message: string): never {
+  throw new ApiError(status, message);
+}
+
+function requireArray(value: unknown, field: string): any[] {
+  if (typeof value === "string") fail(500, `Internal error: ${field} must be an array`);
+  if (!Array.isArray(value)) fail(400, `${field} is required`);
+  return value;
+}
+
+function dayOf(datetime: string): string {
+  return datetime.slice(0, 10);
+}
+
+function secondsBetween(start: string, end: string): number {
+  const parse = (s: string) => Date.parse(s.replace(" ", "T") + "Z");
+  return Math.round((parse(end) - parse(start)) / 1000);
+}
+
+export class FakeTrackingTime {
+  requests: RecordedRequest[] = [];
+
+  projects: Row[] = [];
+  tasks: Row[] = [];
+  events: Row[] = [];
+  timeoffs: Row[] = [];
+  users: Row[] = [];
+  customers: Row[] = [];
+  services: Row[] = [];
+  tags: Row[] = [];
+  groups: Row[] = [];
+  webhooks: Row[] = [];
+  notifications: Row[] = [];
+  teams: Row[] = [];
+  trackings: Row[] = [];
+
+  /**
+   * Failures to inject before normal handling: the next `count` requests whose
+   * path matches are answered with `reply` instead.
+   */
+  faults: { match: RegExp; count: number; reply: Reply }[] = [];
+
+  private nextId = 1000;
+  private server?: Server;
+  private routes: { method: string; pattern: RegExp; handler: Handler }[] = [];
+
+  constructor() {
+    this.seed();
+    this.defineRoutes();
+  }
+
+  async listen(): Promise<string> {
+    this.server = createServer((req, res) => void this.handle(req, res));
+    await new Promise<void>((resolve) => this.server!.listen(0, "127.0.0.1", resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/api/v4`;
+  }
+
+  async close(): Promise<void> {
+    if (!this.server) return;
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+  }
+
+  /** Requests received for a path, optionally filtered by method. */
+  requestsTo(path: string, method?: string): RecordedRequest[] {
+    return this.requests.filter((r) => r.path === path && (!method || r.method === method));
+  }
+
+  id(): number {
+    return this.nextId++;
+  }
+
+  /** Restore the seed data and forget recorded requests and faults. */
+  reset(): void {
+    this.requests = [];
+    this.faults = [];
+    this.nextId = 1000;
+    this.seed();
+  }
+
+  // ── Seed data ─────────────────────────────────────────────────────
+
+  private seed() {
+    this.trackings = [];
+    this.users = [
+      { id: 1, name: "Ada", surname: "Lovelace", email: "ada@example.com", role: "ADMIN", status: "ACTIVE", hourly_rate: 120, permissions: {}, employee: {}, projects: [10, 11] },
+      { id: 2, name: "Grace", surname: "Hopper", email: "grace@example.com", role: "REGULAR", status: "ACTIVE", hourly_rate: 90, permissions: {}, employee: {}, projects: [10] },
+      { id: 3, name: "Alan", surname: "Turing", email: "alan@example.com", role: "REGULAR", status: "ARCHIVED", hourly_rate: 80, permissions: {}, employee: {}, projects: [] },
+    ];
+    this.customers = [
+      { id: 20, name: "Acme Corp", status: "ACTIVE", notes: "", contact_name: "Wile E.", contact_email: "wile@acme.test" },
+      { id: 21, name: "Globex", status: "ACTIVE", notes: "", contact_name: "", contact_email: "" },
+    ];
+    this.services = [
+      { id: 30, name: "Development", status: "ACTIVE", is_archived: false, hourly_rate: 100 },
+      { id: 31, name: "Support", status: "ACTIVE", is_archived: false, hourly_rate: 60 },
+    ];
+    this.projects = [
+      { id: 10, name: "Website Redesign", status: "ACTIVE", customer_id: 20, customer: "Acme Corp", service_id: 30, service: "Development", preferences: {} },
+      { id: 11, name: "Support Retainer", status: "ACTIVE", customer_id: 21, customer: "Globex", service_id: 31, service: "Support", preferences: {} },
+      { id: 12, name: "Old Intranet", status: "ARCHIVED", customer_id: 20, customer: "Acme Corp", service_id: 30, service: "Development", preferences: {} },
+    ];
+    this.tasks = [
+      { id: 100, name: "Design mockups", project_id: 10, status: "ACTIVE", due_date: "2026-10-10", estimated_time: 10, users: [{ id: 1 }], user_id: 1, sort_index: 0 },
+      { id: 101, name: "Build frontend", project_id: 10, status: "ACTIVE", due_date: "2026-11-30", estimated_time: 40, users: [{ id: 1 }, { id: 2 }], user_id: 1, sort_index: 1 },
+      { id: 102, name: "Ticket triage", project_id: 11, status: "ACTIVE", due_date: null, estimated_time: 0, users: [{ id: 2 }], user_id: 2, sort_index: 0 },
+      { id: 103, name: "Legacy cleanup", project_id: 12, status: "CLOSED", due_date: null, estimated_time: 5, users: [{ id: 1 }], user_id: 1, sort_index: 0 },
+    ];
+    this.events = [
+      this.makeEvent({ id: 500, user_id: 1, task_id: 100, start: "2026-10-05 09:00:00", end: "2026-10-05 12:00:00", notes: "Homepage concepts" }),
+      this.makeEvent({ id: 501, user_id: 1, task_id: 101, start: "2026-10-05 13:00:00", end: "2026-10-05 17:00:00", notes: "Layout grid" }),
+      this.makeEvent({ id: 502, user_id: 2, task_id: 102, start: "2026-10-06 09:00:00", end: "2026-10-06 10:30:00", notes: "Morning queue" }),
+      this.makeEvent({ id: 503, user_id: 2, task_id: 101, start: "2026-10-07 10:00:00", end: "2026-10-07 16:00:00", notes: "Components", billed: true }),
+    ];
+    this.timeoffs = [
+      { id: 900, user_id: 2, date: "2026-10-08", duration: 28800, type: "TIMEOFF", notes: "Vacation" },
+    ];
+    this.tags = [
+      { id: 40, name: "billable", value: "yes", type: "TEXT", color: "#00aa00", notes: "" },
+      { id: 41, name: "phase", value: "discovery", type: "TEXT", color: "#0000aa", notes: "" },
+    ];
+    this.groups = [
+      { id: 50, name: "Engineering", supervisor_id: 1, users: [{ id: 1 }, { id: 2 }], status: "ACTIVE", notes: "" },
+    ];
+    this.webhooks = [
+      { id: 60, url: "https://hooks.example.com/tt", status: "ENABLED", token: "tok-1" },
+    ];
+    this.notifications = [
+      { id: 70, user_id: 1, project_id: 10, message: "Grace commented on Build frontend", read: false },
+      { id: 71, user_id: 1, project_id: 10, message: "Task Design mockups is due", read: true },
+    ];
+    this.teams = [
+      { account_id: Number(ACCOUNT_ID), name: "Test Workspace", permissions: {} },
+      { account_id: 2000, name: "Side Workspace", permissions: {} },
+    ];
+  }
+
+  /** Build an event with the denormalized names the real API returns. */
+  makeEvent(fields: Row): Row {
+    const task = this.tasks.find((t) => t.id === fields.task_id);
+    const project = this.projects.find((p) => p.id === (fields.project_id ?? task?.project_id));
+    const user = this.users.find((u) => u.id === fields.user_id);
+    return {
+      id: fields.id ?? this.id(),
+      user_id: fields.user_id,
+      user: user ? `${user.name} ${user.surname}` : null,
+      task_id: task?.id ?? null,
+      task: task?.name ?? null,
+      project_id: project?.id ?? null,
+      project: project?.name ?? null,
+      customer_id: project?.customer_id ?? null,
+      customer: project?.customer ?? null,
+      service_id: project?.service_id ?? null,
+      service: project?.service ?? null,
+      start: fields.start,
+      end: fields.end,
+      duration: fields.duration ?? secondsBetween(fields.start, fields.end),
+      notes: fields.notes ?? "",
+      billed: fields.billed ?? false,
+      tags: fields.tags ?? [],
+    };
+  }
+
+  // ── HTTP plumbing ─────────────────────────────────────────────────
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const prefix = `/api/v4/${ACCOUNT_ID}`;
+    const path = url.pathname.startsWith(prefix) ? url.pathname.slice(prefix.length) : url.pathname;
+    const query = Object.fromEntries(url.searchParams);
+
+    let raw = "";
+    for await (const chunk of req) raw += chunk;
+    const body = raw ? JSON.parse(raw) : undefined;
+    const method = req.method ?? "GET";
+    this.requests.push({ method, path, query, body });
+
+    const expectedAuth = "Basic " + Buffer.from(`API_TOKEN:${APP_PASSWORD}`).toString("base64");
+    if (!url.pathname.startsWith(prefix) || req.headers.authorization !== expectedAuth) {
+      return this.send(res, { error: { status: 401, message: "Unauthorized" } });
+    }
+
+    const fault = this.faults.find((f) => f.count > 0 && f.match.test(path));
+    if (fault) {
+      fault.count--;
+      return this.send(res, fault.reply);
+    }
+
+    for (const route of this.routes) {
+      if (route.method !== method) continue;
+      const match = route.pattern.exec(path);
+      if (!match) continue;
+      try {
+        const result = route.handler({ params: match.slice(1), query, body: body ?? {} });
+        const reply = isReply(result) ? result : { data: result };
+        return this.send(res, reply);
+      } catch (err) {
+        if (err instanceof ApiError) {
+          return this.send(res, { error: { status: err.status, message: err.message } });
+        }
+        throw err;
+      }
+    }
+
+    // Legacy handlers answer POSTs to close/open with an HTML page.
+    if (method === "POST" && /\/(close|open)\/\d+$/.test(path)) {
+      return this.send(res, { raw: "<html><body>Error</body></html>", contentType: "text/html" });
+    }
+
+    this.send(res, { error: { status: 400, message: `Method ${path} doesn't exist` } });
+  }
+
+  private send(res: ServerResponse, reply: Reply) {
+    const headers = { ...reply.headers };
+    if (reply.raw !== undefined) {
+      res.writeHead(reply.status ?? 200, { "Content-Type": reply.contentType ?? "text/plain", ...headers });
+      res.end(reply.raw);
+      return;
+    }
+    const envelope = reply.error
+      ? { response: { status: reply.error.status, message: reply.error.message }, data: null }
+      : { response: { status: 200, message: "ok" }, data: reply.data ?? null };
+    res.writeHead(reply.status ?? 200, { "Content-Type": "application/json", ...headers });
+    res.end(JSON.stringify(envelope));
+  }
+
+  private on(method: string, path: string, handler: Handler) {
+    const pattern = new RegExp("^" + path.replace(/:id/g, "(\\d+)") + "$");
+    this.routes.push({ method, pattern, handler });
+  }
+
+  // ── Lookup helpers ────────────────────────────────────────────────
+
+  private find(collection: Row[], id: string | number, label: string): Row {
+    const row = collection.find((r) => r.id === Number(id));
+    if (!row) fail(404, `${label} not found`);
+    return row;
+  }
+
+  private byStatus(collection: Row[], filter: string | undefined, active = "ACTIVE"): Row[] {
+    if (filter === "ALL") return collection;
+    const wanted = filter === "ARCHIVED" ? "ARCHIVED" : active;
+    return collection.filter((r) => r.status === wanted);
+  }
+
+  private withProject(task: Row): Row {
+    const project = this.projects.find((p) => p.id === task.project_id);
+    const tracking = this.trackings.find((t) => t.task_id === task.id);
+    return {
+      ...task,
+      project: project?.name ?? null,
+      customer_id: project?.customer_id ?? null,
+      customer: project?.customer ?? null,
+      service_id: project?.service_id ?? null,
+      service: project?.service ?? null,
+      accumulated_time: this.events.filter((e) => e.task_id === task.id).reduce((s, e) => s + e.duration, 0),
+      is_tracking: Boolean(tracking),
+      tracking_event: tracking ? { start: tracking.start, user_id: tracking.user_id } : null,
+    };
+  }
+
+  private filterEvents(query: Record<string, string>): Row[] {
+    const { filter, id, from, to } = query;
+    if (!filter) fail(400, "filter is required");
+    if (filter !== "COMPANY" && !id) fail(400, "id is required for this filter");
+    const field: Record<string, string> = {
+      USER: "user_id",
+      CUSTOMER: "customer_id",
+      PROJECT: "project_id",
+      TASK: "task_id",
+    };
+    return this.events
+      .filter((e) => filter === "COMPANY" || e[field[filter]] === Number(id))
+      .filter((e) => (!from || dayOf(e.start) >= from) && (!to || dayOf(e.start) <= to))
+      .sort((a, b) => a.start.localeCompare(b.start));
+  }
+
+  private setStatus(name: Collection, label: string, status: string): Handler {
+    return ({ params }) => {
+      const row = this.find(this[name], params[0], label);
+      row.status = status;
+      return row;
+    };
+  }
+
+  private remove(name: Collection, label: string): Handler {
+    return ({ params }) => {
+      const row = this.find(this[name], params[0], label);
+      this[name] = this[name].filter((r) => r !== row);
+      return row;
+    };
+  }
+
+  private assign(row: Row, body: Row, fields: string[]) {
+    for (const field of fields) {
+      if (body[field] !== undefined) row[field] = body[field];
+    }
+  }
+
+  // ── Routes ────────────────────────────────────────────────────────
+
+  private defineRoutes() {
+    // Projects
+    this.on("GET", "/projects", ({ query }) => this.byStatus(this.projects, query.filter));
+    this.on("GET", "/projects/ids", ({ query }) => this.byStatus(this.projects, query.filter).map((p) => p.id));
+    this.on("GET", "/projects/search", ({ query }) => {
+      if ((query.keyword ?? "").length < 3) fail(400, "keyword must be at least 3 characters");
+      const keyword = query.keyword.toLowerCase();
+      const projects = query.type === "TASK" ? [] : this.projects.filter((p) => p.name.toLowerCase().includes(keyword));
+      const tasks = query.type === "PROJECT" ? [] : this.tasks.filter((t) => t.name.toLowerCase().includes(keyword));
+      return { projects, tasks: tasks.map((t) => this.withProject(t)) };
+    });
+    this.on("POST", "/projects/add", ({ body }) => {
+      if (!body.name) fail(400, "name is required");
+      const customer = this.customers.find((c) => c.name === body.customer_name);
+      const service = this.services.find((s) => s.name === body.service_name);
+      const project = {
+        id: this.id(),
+        name: body.name,
+        status: "ACTIVE",
+        customer_id: customer?.id ?? null,
+        customer: customer?.name ?? null,
+        service_id: service?.id ?? null,
+        service: service?.name ?? null,
+        preferences: {},
+      };
+      this.projects.push(project);
+      return project;
+    });
+    this.on("POST", "/projects/update/:id", ({ params, body }) => {
+      const project = this.find(this.projects, params[0], "Project");
+      if (body.name) project.name = body.name;
+      if (body.customer_name) {
+        const customer = this.customers.find((c) => c.name === body.customer_name);
+        project.customer_id = customer?.id ?? null;
+        project.customer = body.customer_name;
+      }
+      if (body.service_name) {
+        const service = this.services.find((s) => s.name === body.service_name);
+        project.service_id = service?.id ?? null;
+        project.service = body.service_name;
+      }
+      return project;
+    });
+    this.on("PUT", "/projects/close/:id", this.setStatus("projects", "Project", "ARCHIVED"));
+    this.on("PUT", "/projects/open/:id", this.setStatus("projects", "Project", "ACTIVE"));
+    this.on("GET", "/projects/:id/users", ({ params }) => {
+      const project = this.find(this.projects, params[0], "Project");
+      const ids = new Set(
+        this.tasks.filter((t) => t.project_id === project.id).flatMap((t) => t.users.map((u: Row) => u.id)),
+      );
+      return this.users.filter((u) => ids.has(u.id));
+    });
+    this.on("GET", "/projects/:id", ({ params, query }) => {
+      const project = { ...this.find(this.projects, params[0], "Project") };
+      if (query.include_tasks === "true") {
+        project.tasks = this.tasks.filter((t) => t.project_id === project.id).map((t) => this.withProject(t));
+      }
+      if (query.include_billing === "true") {
+        const service = this.services.find((s) => s.id === project.service_id);
+        project.billing = { hourly_rate: service?.hourly_rate ?? null, is_billable: true };
+      }
+      return project;
+    });
+    this.on("POST", "/projects/times", ({ body }) =>
+      requireArray(body.data, "data").map(({ id }) => {
+        const project = this.find(this.projects, id, "Project");
+        const tasks = this.tasks.filter((t) => t.project_id === project.id);
+        return {
+          id: project.id,
+          accumulated_time: this.events.filter((e) => e.project_id === project.id).reduce((s, e) => s + e.duration, 0),
+          estimated_time: tasks.reduce((s, t) => s + (t.estimated_time ?? 0), 0),
+        };
+      }),
+    );
+    this.on("DELETE", "/projects/delete/:id", ({ params, query }) => {
+      const project = this.find(this.projects, params[0], "Project");
+      this.projects = this.projects.filter((p) => p !== project);
+      if (query.delete_all !== "false") {
+        this.tasks = this.tasks.filter((t) => t.project_id !== project.id);
+        this.events = this.events.filter((e) => e.project_id !== project.id);
+      }
+      return project;
+    });
+    this.on("POST", "/projects/merge/:id", ({ params, body }) => {
+      const source = this.find(this.projects, params[0], "Project");
+      const target = this.find(this.projects, body.into, "Project");
+      for (const task of this.tasks) if (task.project_id === source.id) task.project_id = target.id;
+      for (const event of this.events) {
+        if (event.project_id === source.id) Object.assign(event, { project_id: target.id, project: target.name });
+      }
+      this.projects = this.projects.filter((p) => p !== source);
+      return target;
+    });
+    this.on("POST", "/projects/update_preferences/:id", ({ params, body }) => {
+      const project = this.find(this.projects, params[0], "Project");
+      this.assign(project.preferences, body, ["default_view", "is_favorite", "show_closed_tasks"]);
+      return project;
+    });
+
+    // Tasks
+    this.on("GET", "/tasks", ({ query }) => {
+      let tasks = this.tasks;
+      if (query.filter === "TRACKING") tasks = tasks.filter((t) => this.trackings.some((k) => k.task_id === t.id));
+      else if (query.filter === "ARCHIVED") tasks = tasks.filter((t) => t.status === "CLOSED");
+      else if (query.filter !== "ALL") tasks = tasks.filter((t) => t.status === "ACTIVE");
+      if (query.project_id) tasks = tasks.filter((t) => t.project_id === Number(query.project_id));
+      return tasks.map((t) => this.withProject(t));
+    });
+    this.on("POST", "/tasks/share", ({ body }) => {
+      if (!body.name) fail(400, "name is required");
+      if (body.users !== undefined) requireArray(body.users, "users");
+      const task = {
+        id: this.id(),
+        name: body.name,
+        project_id: body.project_id ?? null,
+        status: "ACTIVE",
+        due_date: body.due_date ?? null,
+        estimated_time: body.estimated_time ?? 0,
+        users: body.users ?? (body.user_id ? [{ id: body.user_id }] : [{ id: SESSION_USER_ID }]),
+        user_id: body.user_id ?? SESSION_USER_ID,
+        sort_index: 0,
+      };
+      this.tasks.push(task);
+      return this.withProject(task);
+    });
+    this.on("PUT", "/tasks/update/:id", ({ params, body }) => {
+      const task = this.find(this.tasks, params[0], "Task");
+      if (body.users !== undefined) requireArray(body.users, "users");
+      this.assign(task, body, ["name", "project_id", "due_date", "estimated_time", "users"]);
+      return this.withProject(task);
+    });
+    this.on("PUT", "/tasks/close/:id", ({ params }) => {
+      const task = this.find(this.tasks, params[0], "Task");
+      task.status = "CLOSED";
+      return this.withProject(task);
+    });
+    this.on("PUT", "/tasks/open/:id", ({ params }) => {
+      const task = this.find(this.tasks, params[0], "Task");
+      task.status = "ACTIVE";
+      return this.withProject(task);
+    });
+    this.on("POST", "/tasks/track/:id", ({ params, body }) => {
+      if (!body.date) fail(400, "date is required");
+      let task = this.tasks.find((t) => t.id === Number(params[0]));
+      if (!task) {
+        if (!body.task_name) fail(404, "Task not found");
+        let project = this.projects.find((p) => p.name === body.project_name);
+        if (!project && body.project_name) {
+          project = { id: this.id(), name: body.project_name, status: "ACTIVE", customer_id: null, customer: null, service_id: null, service: null, preferences: {} };
+          this.projects.push(project);
+        }
+        task = { id: this.id(), name: body.task_name, project_id: project?.id ?? null, status: "ACTIVE", due_date: null, estimated_time: 0, users: [{ id: SESSION_USER_ID }], user_id: SESSION_USER_ID, sort_index: 0 };
+        this.tasks.push(task);
+      }
+      const running = this.trackings.find((t) => t.user_id === SESSION_USER_ID);
+      if (running) {
+        if (!body.stop_running_task) fail(502, "There is a task being tracked");
+        this.stopTracking(running, body.date);
+      }
+      this.trackings.push({ user_id: SESSION_USER_ID, task_id: task.id, start: body.date });
+      return this.withProject(task);
+    });
+    this.on("POST", "/tasks/stop/:id", ({ params, body }) => {
+      if (!body.date) fail(400, "date is required");
+      const tracking = this.trackings.find((t) => t.task_id === Number(params[0]));
+      if (!tracking) fail(400, "Task is not being tracked");
+      return this.stopTracking(tracking, body.date);
+    });
+    this.on("POST", "/tasks/search", ({ body }) =>
+      requireArray(body.data, "data").flatMap(({ project_name, task_name }) => {
+        const project = this.projects.find((p) => p.name === project_name);
+        return this.tasks
+          .filter((t) => t.project_id === project?.id && t.name.includes(task_name) && t.status === "ACTIVE")
+          .map((t) => this.withProject(t));
+      }),
+    );
+    this.on("POST", "/tasks/sort", ({ body }) => {
+      for (const { id, sort_index } of requireArray(body.data, "data")) {
+        this.find(this.tasks, id, "Task").sort_index = sort_index;
+      }
+      return true;
+    });
+    this.on("POST", "/tasks/times", ({ body }) =>
+      requireArray(body.data, "data").map(({ id }) => {
+        const task = this.withProject(this.find(this.tasks, id, "Task"));
+        return { id: task.id, accumulated_time: task.accumulated_time, estimated_time: task.estimated_time };
+      }),
+    );
+    this.on("GET", "/tasks/:id", ({ params }) => this.withProject(this.find(this.tasks, params[0], "Task")));
+    this.on("DELETE", "/tasks/delete/:id", ({ params, query }) => {
+      const task = this.find(this.tasks, params[0], "Task");
+      this.tasks = this.tasks.filter((t) => t !== task);
+      if (query.delete_all !== "false") this.events = this.events.filter((e) => e.task_id !== task.id);
+      return task;
+    });
+    this.on("POST", "/account/import/tasks", ({ body }) => {
+      const rows = requireArray(body.data, "data");
+      if (body.preview_mode) return { preview: true, count: rows.length };
+      const created = rows.map((row) => {
+        let project = this.projects.find((p) => p.name === row.project_name);
+        if (!project && row.project_name) {
+          project = { id: this.id(), name: row.project_name, status: "ACTIVE", customer_id: null, customer: row.customer_name ?? null, service_id: null, service: row.service_name ?? null, preferences: {} };
+          this.projects.push(project);
+        }
+        const task = { id: this.id(), name: row.task_name, project_id: project?.id ?? null, status: "ACTIVE", due_date: null, estimated_time: 0, users: [{ id: SESSION_USER_ID }], user_id: SESSION_USER_ID, sort_index: 0 };
+        this.tasks.push(task);
+        return task;
+      });
+      return { preview: false, count: created.length };
+    });
+
+    // Event tags (registered before /events/:id so "tags" isn't read as an ID)
+    this.on("GET", "/events/tags", () => this.tags);
+    this.on("GET", "/events/tags/values", ({ query }) => {
+      const values = this.events.flatMap((e) => e.tags).filter((t: Row) => t.name === query.name).map((t: Row) => t.value);
+      return [...new Set(values)];
+    });
+    this.on("GET", "/events/tags/:id", ({ params }) => this.find(this.tags, params[0], "Tag"));
+    this.on("POST", "/events/tags/add", ({ body }) => {
+      if (!body.name) fail(400, "name is required");
+      const tag = { id: this.id(), name: body.name, value: body.value ?? "", type: body.type ?? "TEXT", color: body.color ?? "", notes: body.notes ?? "" };
+      this.tags.push(tag);
+      return tag;
+    });
+    this.on("PUT", "/events/tags/update/:id", ({ params, body }) => {
+      const tag = this.find(this.tags, params[0], "Tag");
+      this.assign(tag, body, ["name", "value", "type", "color", "notes"]);
+      return tag;
+    });
+    this.on("DELETE", "/events/tags/delete/:id", this.remove("tags", "Tag"));
+    this.on("POST", "/events/:id/tags/save", ({ params, body }) => {
+      const event = this.find(this.events, params[0], "Event");
+      if (!body.name) fail(400, "name is required");
+      if (!this.tags.some((t) => t.name === body.name)) {
+        this.tags.push({ id: this.id(), name: body.name, value: body.value ?? "", type: body.type ?? "TEXT", color: body.color ?? "", notes: body.notes ?? "" });
+      }
+      event.tags = [...event.tags.filter((t: Row) => t.name !== body.name), { name: body.name, value: body.value ?? "" }];
+      return event;
+    });
+    this.on("DELETE", "/events/:id/tags/delete", ({ params, query }) => {
+      const event = this.find(this.events, params[0], "Event");
+      event.tags = event.tags.filter((t: Row) => t.name !== query.name);
+      return event;
+    });
+
+    // Events (time entries)
+    this.on("GET", "/events", ({ query }) => {
+      const events = this.filterEvents(query);
+      if (query.order === "desc") events.reverse();
+      const pageSize = Number(query.page_size ?? 50);
+      const page = Number(query.page ?? 0);
+      return events.slice(page * pageSize, (page + 1) * pageSize);
+    });
+    this.on("GET", "/events/min", ({ query }) => {
+      let events = this.filterEvents(query);
+      if (query.billed === "BILLED") events = events.filter((e) => e.billed);
+      if (query.billed === "UNBILLED") events = events.filter((e) => !e.billed);
+      const rows: Row[] = events.map((e) => ({
+        id: e.id,
+        user_id: e.user_id,
+        task_id: e.task_id,
+        project_id: e.project_id,
+        customer_id: e.customer_id,
+        service_id: e.service_id,
+        start: e.start,
+        end: e.end,
+        duration: e.duration,
+        billed: e.billed,
+      }));
+      if (query.include_timeoffs === "true") {
+        const users = query.filter === "USER" ? [Number(query.id)] : this.users.map((u) => u.id);
+        rows.push(
+          ...this.timeoffs.filter(
+            (t) => users.includes(t.user_id) && (!query.from || t.date >= query.from) && (!query.to || t.date <= query.to),
+          ),
+        );
+      }
+      return rows;
+    });
+    this.on("GET", "/events/count", ({ query }) => ({ count: this.filterEvents(query).length }));
+    this.on("GET", "/events/summary", ({ query }) => {
+      const users: number[] | undefined = query.users ? JSON.parse(query.users).map((u: Row) => u.id) : undefined;
+      const totals = new Map<string, Row>();
+      for (const event of this.filterEvents({ filter: "COMPANY", from: query.from, to: query.to })) {
+        if (users && !users.includes(event.user_id)) continue;
+        const key = `${event.user_id}|${dayOf(event.start)}`;
+        const row = totals.get(key) ?? { user_id: event.user_id, date: dayOf(event.start), worked_hours: 0 };
+        row.worked_hours += event.duration / 3600;
+        totals.set(key, row);
+      }
+      return [...totals.values()];
+    });
+    this.on("GET", "/events/export", ({ query }) => {
+      if (!query.separator) fail(400, "separator is required");
+      const sep = query.separator === "\\t" ? "\t" : query.separator;
+      const events = query.filter ? this.filterEvents(query) : this.events;
+      const lines = [["id", "user", "project", "task", "start", "end", "duration", "notes"].join(sep)];
+      for (const e of events) lines.push([e.id, e.user, e.project, e.task, e.start, e.end, e.duration, e.notes].join(sep));
+      return { raw: lines.join("\n") + "\n", contentType: "text/csv" };
+    });
+    this.on("POST", "/events/add", ({ body }) => {
+      if (!body.start || !body.end) fail(400, "start and end are required");
+      if (body.duration === undefined || !body.user_id) fail(400, "duration and user_id are required");
+      const event = this.makeEvent(body);
+      this.events.push(event);
+      return event;
+    });
+    this.on("PUT", "/events/billed", ({ body }) => this.setBilled(body, true));
+    this.on("PUT", "/events/not_billed", ({ body }) => this.setBilled(body, false));
+    this.on("PUT", "/events/update/:id", ({ params, body }) => {
+      const event = this.find(this.events, params[0], "Event");
+      if (!body.end) fail(400, "end is required");
+      const merged = { ...event, ...body, duration: undefined };
+      // Moving to another task moves the entry to that task's project too.
+      if (body.task_id !== undefined && body.project_id === undefined) merged.project_id = undefined;
+      Object.assign(event, this.makeEvent(merged), { tags: event.tags, billed: event.billed });
+      return event;
+    });
+    this.on("DELETE", "/events/delete/:id", this.remove("events", "Event"));
+    this.on("GET", "/events/:id", ({ params }) => this.find(this.events, params[0], "Event"));
+
+    // Customers
+    this.on("GET", "/customers", ({ query }) => this.byStatus(this.customers, query.filter));
+    this.on("POST", "/customers/add", ({ body }) => {
+      if (!body.name) fail(400, "name is required");
+      if (this.customers.some((c) => c.name === body.name)) fail(400, "Customer name already exists");
+      const customer = { id: this.id(), name: body.name, status: "ACTIVE", notes: body.notes ?? "", contact_name: body.contact_name ?? "", contact_email: body.contact_email ?? "" };
+      this.customers.push(customer);
+      return customer;
+    });
+    this.on("PUT", "/customers/update/:id", ({ params, body }) => {
+      const customer = this.find(this.customers, params[0], "Customer");
+      if (!body.name) fail(400, "name is required");
+      this.assign(customer, body, ["name", "notes", "contact_name", "contact_email"]);
+      return customer;
+    });
+    this.on("PUT", "/customers/close/:id", this.setStatus("customers", "Customer", "ARCHIVED"));
+    this.on("PUT", "/customers/open/:id", this.setStatus("customers", "Customer", "ACTIVE"));
+    this.on("DELETE", "/customers/delete/:id", ({ params }) => {
+      const customer = this.find(this.customers, params[0], "Customer");
+      this.customers = this.customers.filter((c) => c !== customer);
+      for (const project of this.projects) {
+        if (project.customer_id === customer.id) Object.assign(project, { customer_id: null, customer: null });
+      }
+      return customer;
+    });
+    this.on("GET", "/customers/:id", ({ params }) => this.find(this.customers, params[0], "Customer"));
+
+    // Services
+    this.on("GET", "/services", ({ query }) => this.byStatus(this.services, query.filter));
+    this.on("POST", "/services/add", ({ body }) => {
+      if (!body.name) fail(400, "name is required");
+      const service = { id: this.id(), name: body.name, status: "ACTIVE", is_archived: false, hourly_rate: null };
+      this.services.push(service);
+      return service;
+    });
+    this.on("PUT", "/services/update/:id", ({ params, body }) => {
+      const service = this.find(this.services, params[0], "Service");
+      this.assign(service, body, ["name", "is_archived"]);
+      if (body.is_archived !== undefined) service.status = body.is_archived ? "ARCHIVED" : "ACTIVE";
+      return service;
+    });
+    this.on("PUT", "/services/close/:id", this.setStatus("services", "Service", "ARCHIVED"));
+    this.on("PUT", "/services/open/:id", this.setStatus("services", "Service", "ACTIVE"));
+    this.on("DELETE", "/services/delete/:id", this.remove("services", "Service"));
+    this.on("GET", "/services/:id", ({ params }) => this.find(this.services, params[0], "Service"));
+
+    // User groups (registered before /users/:id so "groups" isn't read as an ID)
+    this.on("GET", "/users/groups", ({ query }) => this.byStatus(this.groups, query.filter));
+    this.on("POST", "/users/groups/add", ({ body }) => {
+      if (!body.name) fail(400, "name is required");
+      if (!body.supervisor_id) fail(400, "supervisor_id is required");
+      if (requireArray(body.users, "users").length === 0) fail(400, "users is required");
+      const group = { id: this.id(), name: body.name, supervisor_id: body.supervisor_id, users: body.users.map((u: Row) => ({ id: u.id })), status: body.status ?? "ACTIVE", notes: body.notes ?? "" };
+      this.groups.push(group);
+      return group;
+    });
+    this.on("PUT", "/users/groups/update/:id", ({ params, body }) => {
+      const group = this.find(this.groups, params[0], "Group");
+      this.assign(group, body, ["name", "notes", "status", "supervisor_id"]);
+      for (const member of body.users ?? []) {
+        if (member.action === "REMOVE") group.users = group.users.filter((u: Row) => u.id !== member.id);
+        else if (!group.users.some((u: Row) => u.id === member.id)) group.users.push({ id: member.id });
+      }
+      return group;
+    });
+    this.on("DELETE", "/users/groups/delete/:id", this.remove("groups", "Group"));
+    this.on("GET", "/users/groups/:id", ({ params }) => this.find(this.groups, params[0], "Group"));
+
+    // Users
+    this.on("GET", "/users", ({ query }) => {
+      const users = this.byStatus(this.users, query.filter);
+      if (query.include_teams !== "true") return users;
+      return users.map((u) => ({ ...u, teams: this.teams.map((t) => t.account_id) }));
+    });
+    this.on("POST", "/users/add", ({ body }) => {
+      if (!body.name || !body.role) fail(400, "name and role are required");
+      const user = { id: this.id(), name: body.name, surname: body.surname ?? "", email: body.email ?? "", role: body.role, status: body.email ? "INVITED" : "ACTIVE", hourly_rate: body.hourly_rate ?? null, permissions: {}, employee: {}, projects: [] };
+      this.users.push(user);
+      return user;
+    });
+    this.on("POST", "/users/invite", () => fail(400, "Method /users/invite doesn't exist"));
+    this.on("POST", "/users/resend_invite", ({ body }) => {
+      if (!this.users.some((u) => u.email === body.email)) fail(404, "User not found");
+      return true;
+    });
+    this.on("POST", "/users/icalendar/reset_token", () => ({ token: `ical-${this.id()}` }));
+    this.on("POST", "/users/update/:id", ({ params, body }) => {
+      const user = this.find(this.users, params[0], "User");
+      this.assign(user, body, ["name", "surname"]);
+      return user;
+    });
+    this.on("PUT", "/users/close/:id", this.setStatus("users", "User", "ARCHIVED"));
+    this.on("PUT", "/users/open/:id", this.setStatus("users", "User", "ACTIVE"));
+    this.on("POST", "/users/update_permissions/:id", ({ params, body }) => {
+      const user = this.find(this.users, params[0], "User");
+      Object.assign(user.permissions, body);
+      return user;
+    });
+    this.on("POST", "/users/:id/employee/update", ({ params, body }) => {
+      const user = this.find(this.users, params[0], "User");
+      Object.assign(user.employee, body);
+      return user;
+    });
+    this.on("POST", "/users/:id/assign_projects", ({ params, body }) => {
+      const user = this.find(this.users, params[0], "User");
+      for (const { id } of requireArray(body.data, "data")) {
+        if (!user.projects.includes(id)) user.projects.push(id);
+      }
+      return user;
+    });
+    this.on("POST", "/users/:id/remove_projects", ({ params, body }) => {
+      const user = this.find(this.users, params[0], "User");
+      const ids = requireArray(body.data, "data").map((p) => p.id);
+      user.projects = user.projects.filter((id: number) => !ids.includes(id));
+      return user;
+    });
+    this.on("GET", "/users/:id/tasks/tracking", ({ params }) =>
+      this.trackings
+        .filter((t) => t.user_id === Number(params[0]))
+        .map((t) => this.withProject(this.find(this.tasks, t.task_id, "Task"))),
+    );
+    this.on("GET", "/users/:id/tasks", ({ params, query }) => {
+      const userId = Number(params[0]);
+      this.find(this.users, userId, "User");
+      let tasks = this.tasks.filter((t) => t.users.some((u: Row) => u.id === userId));
+      if (query.filter === "TRACKING") tasks = tasks.filter((t) => this.trackings.some((k) => k.task_id === t.id && k.user_id === userId));
+      else if (query.filter === "ARCHIVED") tasks = tasks.filter((t) => t.status === "CLOSED");
+      else if (query.filter !== "ALL") tasks = tasks.filter((t) => t.status === "ACTIVE");
+      const grouped = new Map<number | null, Row>();
+      for (const task of tasks.map((t) => this.withProject(t))) {
+        const group = grouped.get(task.project_id) ?? { project_id: task.project_id, project: task.project, tasks: [] };
+        group.tasks.push(task);
+        grouped.set(task.project_id, group);
+      }
+      return [...grouped.values()];
+    });
+    this.on("GET", "/users/:id/trackables", ({ params, query }) => {
+      const user = this.find(this.users, params[0], "User");
+      let projects = this.projects.filter((p) => user.projects.includes(p.id));
+      if (query.project_id) projects = projects.filter((p) => p.id === Number(query.project_id));
+      if (query.only_favorites === "true") projects = projects.filter((p) => p.preferences.is_favorite);
+      return projects.map((p) => ({
+        ...p,
+        tasks: query.include_tasks === "true" ? this.tasks.filter((t) => t.project_id === p.id) : undefined,
+      }));
+    });
+    this.on("GET", "/users/:id/projects", ({ params }) => {
+      const user = this.find(this.users, params[0], "User");
+      return this.projects.filter((p) => user.projects.includes(p.id));
+    });
+    this.on("GET", "/users/:id", ({ params }) => this.find(this.users, params[0], "User"));
+
+    // Teams
+    this.on("GET", "/teams", () => this.teams);
+    this.on("POST", "/teams/switch", ({ body }) => {
+      const team = this.teams.find((t) => t.account_id === body.account_id);
+      if (!team) fail(404, "Team not found");
+      return team;
+    });
+    this.on("POST", "/teams/update/:id", ({ params, body }) => {
+      const team = this.teams.find((t) => t.account_id === Number(params[0]));
+      if (!team) fail(404, "Team not found");
+      Object.assign(team.permissions, body);
+      return team;
+    });
+
+    // Webhooks
+    this.on("GET", "/webhooks", ({ query }) => {
+      if (!query.filter || query.filter === "ALL") return this.webhooks;
+      const wanted = query.filter === "DISABLED" ? "DISABLED" : "ENABLED";
+      return this.webhooks.filter((w) => w.status === wanted);
+    });
+    this.on("PUT", "/webhooks/enable/:id", this.setStatus("webhooks", "Webhook", "ENABLED"));
+    this.on("PUT", "/webhooks/disable/:id", this.setStatus("webhooks", "Webhook", "DISABLED"));
+    this.on("POST", "/webhooks/reset_token/:id", ({ params }) => {
+      const webhook = this.find(this.webhooks, params[0], "Webhook");
+      webhook.token = `tok-${this.id()}`;
+      return webhook;
+    });
+    this.on("GET", "/webhooks/:id", ({ params }) => this.find(this.webhooks, params[0], "Webhook"));
+    this.on("DELETE", "/webhooks/:id", this.remove("webhooks", "Webhook"));
+
+    // Notifications
+    this.on("GET", "/notifications", ({ query }) => {
+      const field = query.filter === "PROJECT" ? "project_id" : "user_id";
+      return this.notifications.filter(
+        (n) => n[field] === Number(query.id) && (query.include_read === "true" || !n.read),
+      );
+    });
+    this.on("PUT", "/notifications/read/:id", ({ params }) => {
+      const notification = this.find(this.notifications, params[0], "Notification");
+      notification.read = true;
+      return notification;
+    });
+    this.on("POST", "/notifications/read", ({ body }) => {
+      for (const { id } of requireArray(body.data, "data")) this.find(this.notifications, id, "Notification").read = true;
+      return true;
+    });
+
+    // Reports
+    this.on("GET", "/reports/users/:id", ({ params, query }) => {
+      const user = this.find(this.users, params[0], "User");
+      const events = this.filterEvents({ filter: "USER", id: String(user.id), from: query.from, to: query.to });
+      const byProject = new Map<string, number>();
+      for (const e of events) byProject.set(e.project, (byProject.get(e.project) ?? 0) + e.duration / 3600);
+      return {
+        user_id: user.id,
+        from: query.from,
+        to: query.to,
+        worked_hours: events.reduce((s, e) => s + e.duration, 0) / 3600,
+        projects: [...byProject].map(([name, worked_hours]) => ({ name, worked_hours })),
+      };
+    });
+  }
+
+  private setBilled(body: Row, billed: boolean) {
+    // The legacy billing handler reads `data` as a String and parses it itself.
+    if (typeof body.data !== "string") fail(500, "Internal error: data must be a JSON string");
+    const ids: number[] = JSON.parse(body.data).map((e: Row) => e.id);
+    for (const id of ids) this.find(this.events, id, "Event").billed = billed;
+    return true;
+  }
+
+  private stopTracking(tracking: Row, date: string): Row {
+    this.trackings = this.trackings.filter((t) => t !== tracking);
+    const event = this.makeEvent({ user_id: tracking.user_id, task_id: tracking.task_id, start: tracking.start, end: date });
+    this.events.push(event);
+    return event;
+  }
+}
+
+function isReply(value: unknown): value is Reply {
+  return typeof value === "object" && value !== null && "raw" in value;
+}
@@ -0,0 +1,81 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { RegisterOptions } from "../src/registration.js";
+import { ACCOUNT_ID, APP_PASSWORD, FakeTrackingTime } from "./fake-server.js";
+
+export interface ToolCall<T = unknown> {
+  isError: boolean;
+  text: string;
+  /**
+   * Parsed JSON body, or undefined when the tool returned plain text. `T` is
+   * the shape the test expects; it isn't checked.
+   */
+  json: T;
+}
+
+export interface Harness {
+  fake: FakeTrackingTime;
+  client: Client;
+  call<T = unknown>(name: string, args?: Record<string, unknown>): Promise<ToolCall<T>>;
+  close(): Promise<void>;
+}
+
+/**
+ * Start a fake TrackingTime server and connect an MCP client to a server
+ * with the tools selected by `options` registered against it.
+ *
+ * The API client reads its configuration once at import time, so `env` only
+ * takes effect for the first harness started in a test file.
+ */
+export async function startHarness(
+  env: Record<string, string> = {},
+  options: RegisterOptions = {},
+): Promise<Harness> {
+  const fake = new FakeTrackingTime();
+  const baseUrl = await fake.listen();
+
+  Object.assign(process.env, {
+    TT_APP_PASSWORD: APP_PASSWORD,
+    TT_ACCOUNT_ID: ACCOUNT_ID,
+    TT_BASE_URL: baseUrl,
+    TT_MAX_RETRIES: "0",
+    TT_RATE_LIMIT: "0",
+    TT_MAX_CONCURRENCY: "0",
+    // Keep a developer's own ~/.trackingtime-mcp/settings.json out of the tests.
+    TT_SETTINGS_PATH: join(tmpdir(), "trackingtime-mcp-test-no-settings.json"),
+    ...env,
+  });
+
+  const { registerTools } = await import("../src/tools/index.js");
+  const server = new McpServer({ name: "trackingtime-mcp-test", version: "0.0.0" });
+  registerTools(server, options);
+
+  const client = new Client({ name: "test-client", version: "0.0.0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+  return {
+    fake,
+    client,
+    async call<T>(name: string, args: Record<string, unknown> = {}) {
+      const result = await client.callTool({ name, arguments: args });
+      const content = result.content as { type: string; text: string }[];
+      const text = content.map((c) => c.text).join("\n");
+      let json: unknown;
+      try {
+        json = JSON.parse(text);
+      } catch {
+        json = undefined;
+      }
+      return { isError: Boolean(result.isError), text, json: json as T };
+    },
+    async close() {
+      await client.close();
+      await server.close();
+      await fake.close();
+    },
+  };
+}
@@ -0,0 +1,180 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { startHarness, type Harness } from "./helpers.js";
+
+const dir = mkdtempSync(join(tmpdir(), "tt-journal-"));
+const journalPath = join(dir, "journal.jsonl");
+interface UndoResult {
+  undone: { id: string; tool: string; calls: unknown[]; approximate?: string }[];
+  stopped_at?: { tool: string };
+}
+
+interface JournalRow {
+  id: string;
+  tool: string;
+  undo: string;
+}
+
+let h: Harness;
+
+before(async () => {
+  h = await startHarness({}, { journalPath });
+});
+
+after(async () => {
+  await h.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  h.fake.reset();
+  rmSync(journalPath, { force: true });
+});
+
+describe("undo journal", () => {
+  it("snapshots before an update and restores the old values", async () => {
+    await h.call("tt_update_time_entry", { id: 500, end: "2026-10-05 13:00:00", notes: "Renamed" });
+    const [line] = readFileSync(journalPath, "utf8").trim().split("\n").map((l) => JSON.parse(l));
+    assert.equal(line.tool, "tt_update_time_entry");
+    assert.equal(line.before.notes, "Homepage concepts");
+
+    const res = await h.call("tt_undo");
+    assert.equal(res.isError, false, res.text);
+    const event = h.fake.events.find((e) => e.id === 500)!;
+    assert.equal(event.notes, "Homepage concepts");
+    assert.equal(event.end, "2026-10-05 12:00:00");
+  });
+
+  it("only writes API fields back when undoing an update", async () => {
+    await h.call("tt_update_time_entry", { id: 500, end: "2026-10-05 13:00:00", notes: "Renamed", overlap_check: "warn" });
+    const res = await h.call("tt_undo");
+    assert.equal(res.isError, false, res.text);
+    const [, restore] = h.fake.requestsTo("/events/update/500", "PUT");
+    assert.deepEqual(restore.body, { end: "2026-10-05 12:00:00", notes: "Homepage concepts" });
+  });
+
+  it("records a partial undo and resumes after the calls that ran", async () => {
+    const range = { user_id: 1, from: "2026-10-05", to: "2026-10-11", target_from: "2026-10-12" };
+    const copied = await h.call<{ created_ids: number[] }>("tt_copy_time_entries", range);
+    const [first, second] = copied.json.created_ids;
+    h.fake.faults.push({ match: new RegExp(`^/events/delete/${second}$`), count: 1, reply: { error: { status: 500, message: "Down" } } });
+
+    const failed = await h.call("tt_undo");
+    assert.equal(failed.isError, true);
+    assert.match(failed.text, /failed after 1 of \d+ calls.*run tt_undo again/i);
+    const [entry] = (await h.call<JournalRow[]>("tt_list_journal")).json;
+    assert.match(entry.undo, /partially undone: 1 of/);
+
+    const resumed = await h.call("tt_undo");
+    assert.equal(resumed.isError, false, resumed.text);
+    assert.equal(h.fake.requestsTo(`/events/delete/${first}`).length, 1);
+    assert.ok(!h.fake.events.some((e) => copied.json.created_ids.includes(e.id)));
+  });
+
+  it("undoes the last N operations newest first", async () => {
+    await h.call("tt_update_task", { id: 100, name: "Step one" });
+    await h.call("tt_update_task", { id: 100, name: "Step two" });
+    await h.call("tt_close_task", { id: 100 });
+
+    const res = await h.call<UndoResult>("tt_undo", { count: 3 });
+    assert.deepEqual(
+      res.json.undone.map((u) => u.tool),
+      ["tt_close_task", "tt_update_task", "tt_update_task"],
+    );
+    const task = h.fake.tasks.find((t) => t.id === 100)!;
+    assert.equal(task.name, "Design mockups");
+    assert.equal(task.status, "ACTIVE");
+  });
+
+  it("deletes what a create made", async () => {
+    const created = await h.call<{ id: number }>("tt_create_customer", { name: "Initech" });
+    await h.call("tt_undo");
+    assert.ok(!h.fake.customers.some((c) => c.id === created.json.id));
+  });
+
+  it("re-creates deleted entries and flags them as approximate", async () => {
+    await h.call("tt_delete_time_entry", { id: 502 });
+    const res = await h.call<UndoResult>("tt_undo");
+    assert.match(res.json.undone[0].approximate ?? "", /new ID/);
+    const copy = h.fake.events.find((e) => e.notes === "Morning queue");
+    assert.ok(copy && copy.id !== 502);
+    assert.equal(copy.duration, 5400);
+  });
+
+  it("undoes a specific entry and skips it afterwards", async () => {
+    await h.call("tt_archive_project", { id: 11 });
+    await h.call("tt_update_project", { id: 10, name: "Relaunch" });
+    const listed = await h.call<JournalRow[]>("tt_list_journal");
+    const archive = listed.json.find((e) => e.tool === "tt_archive_project")!;
+
+    await h.call("tt_undo", { entry_id: archive.id });
+    assert.equal(h.fake.projects.find((p) => p.id === 11)!.status, "ACTIVE");
+    assert.equal(h.fake.projects.find((p) => p.id === 10)!.name, "Relaunch");
+
+    const again = await h.call("tt_undo", { entry_id: archive.id });
+    assert.equal(again.isError, true);
+    assert.equal((await h.call<JournalRow[]>("tt_list_journal")).json.length, 1);
+  });
+
+  it("only reverts billing flags the call actually changed", async () => {
+    await h.call("tt_mark_billed", { entry_ids: [502, 503] });
+    await h.call("tt_undo");
+    assert.equal(h.fake.events.find((e) => e.id === 502)!.billed, false);
+    assert.equal(h.fake.events.find((e) => e.id === 503)!.billed, true);
+  });
+
+  it("stops at operations without an inverse", async () => {
+    await h.call("tt_update_tag", { id: 40, color: "#ff0000" });
+    await h.call("tt_mark_notification_read", { id: 70 });
+    const res = await h.call<UndoResult>("tt_undo", { count: 2 });
+    assert.deepEqual(res.json.undone, []);
+    assert.equal(res.json.stopped_at?.tool, "tt_mark_notification_read");
+    assert.equal(h.fake.tags.find((t) => t.id === 40)!.color, "#ff0000");
+  });
+
+  it("dry runs without calling the API", async () => {
+    await h.call("tt_reactivate_user", { id: 3 });
+    const res = await h.call<UndoResult>("tt_undo", { dry_run: true });
+    assert.deepEqual(res.json.undone[0].calls, [{ method: "PUT", endpoint: "/users/close/3" }]);
+    assert.equal(h.fake.users.find((u) => u.id === 3)!.status, "ACTIVE");
+  });
+
+  it("does not journal timesheet previews", async () => {
+    const grid = [{ day: "fri", hours: 2, task_id: 100 }];
+    await h.call("tt_fill_timesheet", { user_id: 1, week: "2026-W41", grid });
+    await h.call("tt_update_task", { id: 100, name: "Renamed" });
+    assert.equal((await h.call<JournalRow[]>("tt_list_journal")).json.length, 1);
+
+    const res = await h.call<UndoResult>("tt_undo", { count: 2 });
+    assert.deepEqual(
+      res.json.undone.map((u) => u.tool),
+      ["tt_update_task"],
+    );
+    assert.equal(h.fake.tasks.find((t) => t.id === 100)!.name, "Design mockups");
+  });
+
+  it("does not journal copy dry runs", async () => {
+    const range = { user_id: 1, from: "2026-10-05", to: "2026-10-11", target_from: "2026-10-12" };
+    await h.call("tt_copy_time_entries", { ...range, dry_run: true });
+    assert.equal((await h.call<JournalRow[]>("tt_list_journal")).json.length, 0);
+
+    const copied = await h.call<{ created_ids: number[] }>("tt_copy_time_entries", range);
+    const res = await h.call<UndoResult>("tt_undo", { count: 2 });
+    assert.deepEqual(
+      res.json.undone.map((u) => u.tool),
+      ["tt_copy_time_entries"],
+    );
+    assert.ok(!h.fake.events.some((e) => copied.json.created_ids.includes(e.id)));
+  });
+
+  it("does not journal failed calls or reads", async () => {
+    await h.call("tt_get_project", { id: 10 });
+    await h.call("tt_update_task", { id: 9999, name: "Nope" });
+    const res = await h.call("tt_undo");
+    assert.equal(res.isError, true);
+    assert.match(res.text, /Nothing to undo/);
+  });
+});
@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  DEFAULT_JOURNAL_PATH,
+  gateRegistrations,
+  loadRegisterOptions,
+  matchesGlob,
+  parseMode,
+  type RegisterOptions,
+  type ToolRegistrar,
+} from "../src/registration.js";
+import { startHarness } from "./helpers.js";
+
+async function listTools(options: RegisterOptions) {
+  const harness = await startHarness({}, options);
+  try {
+    const { tools } = await harness.client.listTools();
+    return tools;
+  } finally {
+    await harness.close();
+  }
+}
+
+describe("TT_MODE", () => {
+  it("parses modes case-insensitively and defaults to full", () => {
+    assert.equal(parseMode(undefined), "full");
+    assert.equal(parseMode("ReadOnly"), "readonly");
+    assert.throws(() => parseMode("everything"), /Invalid TT_MODE/);
+  });
+
+  it("readonly registers only read-only tools", async () => {
+    const tools = await listTools({ mode: "readonly" });
+    assert.ok(tools.length > 0);
+    assert.ok(tools.every((t) => t.annotations?.readOnlyHint === true));
+    assert.ok(!tools.some((t) => t.name === "tt_add_time_entry"));
+  });
+
+  it("safe drops destructive tools but keeps writes", async () => {
+    const names = (await listTools({ mode: "safe" })).map((t) => t.name);
+    for (const name of ["tt_delete_project", "tt_merge_projects", "tt_delete_customer", "tt_delete_time_entry"]) {
+      assert.ok(!names.includes(name), `${name} should not be registered`);
+    }
+    assert.ok(names.includes("tt_add_time_entry"));
+  });
+
+  it("full registers everything", async () => {
+    const full = await listTools({ mode: "full" });
+    const safe = await listTools({ mode: "safe" });
+    assert.ok(full.length > safe.length);
+    assert.ok(full.some((t) => t.annotations?.destructiveHint === true));
+  });
+});
+
+describe("toolsets and allow/deny globs", () => {
+  it("registers only the selected toolsets", async () => {
+    const names = (await listTools({ toolsets: ["timer", "reports"] })).map((t) => t.name).sort();
+    assert.deepEqual(names, [
+      "tt_check_working_time",
+      "tt_customer_report",
+      "tt_daily_digest",
+      "tt_find_stale_timers",
+      "tt_fix_stale_timers",
+      "tt_get_user_report",
+      "tt_resume_last_timer",
+      "tt_start_timer",
+      "tt_stop_timer",
+      "tt_switch_timer",
+      "tt_team_utilization",
+      "tt_timer_status",
+    ]);
+  });
+
+  it("applies allow and deny globs on top of toolsets and mode", async () => {
+    const names = (
+      await listTools({ mode: "readonly", toolsets: ["projects"], allow: ["tt_get_*", "tt_list_*"], deny: ["*_ids"] })
+    ).map((t) => t.name);
+    assert.deepEqual(names.sort(), ["tt_get_project", "tt_get_project_times", "tt_get_project_users", "tt_list_projects"]);
+  });
+
+  it("never hands rejected tools to the server", () => {
+    const registered: string[] = [];
+    const server: ToolRegistrar = {
+      registerTool(name) {
+        registered.push(name);
+      },
+    };
+    const gated = gateRegistrations(server, (name) => name !== "tt_delete_project");
+    const handler = async () => ({ content: [] });
+    gated.registerTool("tt_delete_project", { inputSchema: {} }, handler);
+    gated.registerTool("tt_get_project", { inputSchema: {} }, handler);
+    assert.deepEqual(registered, ["tt_get_project"]);
+  });
+
+  it("matches globs against the whole tool name", () => {
+    assert.ok(matchesGlob("tt_delete_project", "tt_delete_*"));
+    assert.ok(matchesGlob("tt_get_tag", "tt_get_ta?"));
+    assert.ok(!matchesGlob("tt_get_project_users", "tt_get_project"));
+  });
+
+  it("reads env vars and lets CLI flags override them", () => {
+    const options = loadRegisterOptions(
+      { TT_MODE: "readonly", TT_TOOLSETS: "projects,tasks", TT_TOOLS_DENY: "tt_search_*" },
+      ["--toolsets=timer", "--mode", "safe"],
+    );
+    assert.deepEqual(options, {
+      mode: "safe",
+      toolsets: ["timer"],
+      allow: undefined,
+      deny: ["tt_search_*"],
+      confirmDestructive: false,
+      journalPath: DEFAULT_JOURNAL_PATH,
+    });
+  });
+
+  it("reads the journal path and turns the journal off with 'off'", () => {
+    assert.equal(loadRegisterOptions({ TT_JOURNAL_PATH: "/tmp/j.jsonl" }, []).journalPath, "/tmp/j.jsonl");
+    assert.equal(loadRegisterOptions({ TT_JOURNAL_PATH: "/tmp/j.jsonl" }, ["--journal=off"]).journalPath, undefined);
+  });
+
+  it("reads TT_CONFIRM_DESTRUCTIVE and the bare --confirm-destructive flag", () => {
+    assert.equal(loadRegisterOptions({ TT_CONFIRM_DESTRUCTIVE: "true" }, []).confirmDestructive, true);
+    assert.equal(loadRegisterOptions({}, ["--confirm-destructive"]).confirmDestructive, true);
+    assert.equal(
+      loadRegisterOptions({ TT_CONFIRM_DESTRUCTIVE: "1" }, ["--confirm-destructive=false"]).confirmDestructive,
+      false,
+    );
+    assert.throws(() => loadRegisterOptions({ TT_CONFIRM_DESTRUCTIVE: "maybe" }, []), /Invalid TT_CONFIRM_DESTRUCTIVE/);
+  });
+
+  it("parses a value given to --confirm-destructive", () => {
+    const confirm = (env: NodeJS.ProcessEnv, argv: string[]) => loadRegisterOptions(env, argv).confirmDestructive;
+    assert.equal(confirm({ TT_CONFIRM_DESTRUCTIVE: "true" }, ["--confirm-destructive", "false"]), false);
+    assert.equal(confirm({}, ["--confirm-destructive", "off", "--mode", "safe"]), false);
+    assert.equal(confirm({}, ["--confirm-destructive", "--mode", "safe"]), true);
+    assert.equal(confirm({}, ["--confirm-destructive", "yes"]), true);
+    assert.throws(() => confirm({}, ["--confirm-destructive", "maybe"]), /Invalid --confirm-destructive/);
+  });
+
+  it("treats 'all' as every toolset and rejects unknown names", () => {
+    assert.equal(loadRegisterOptions({ TT_TOOLSETS: "all" }, []).toolsets, undefined);
+    assert.throws(() => loadRegisterOptions({ TT_TOOLSETS: "projects,billing" }, []), /Unknown toolset "billing"/);
+  });
+});
@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { startHarness, type Harness } from "./helpers.js";
+
+let h: Harness;
+let clearDirectory: () => void;
+
+before(async () => {
+  h = await startHarness();
+  // Imported after the harness so the API client sees the fake server's env.
+  ({ clearDirectory } = await import("../src/resolver.js"));
+});
+
+after(async () => {
+  await h.close();
+});
+
+beforeEach(() => {
+  h.fake.reset();
+  clearDirectory();
+});
+
+describe("name resolution", () => {
+  it("resolves users, projects and tasks by name", async () => {
+    const res = await h.call("tt_add_time_entry", {
+      duration: 3600,
+      user_id: "ada lovelace",
+      project_id: "website redesign",
+      task_id: "Design",
+      start: "2026-10-09 09:00:00",
+      end: "2026-10-09 10:00:00",
+    });
+    assert.equal(res.isError, false, res.text);
+    const body = h.fake.requestsTo("/events/add", "POST")[0].body;
+    assert.deepEqual([body.user_id, body.project_id, body.task_id], [1, 10, 100]);
+  });
+
+  it("matches case- and accent-insensitively, by email, word prefixes and small typos", async () => {
+    h.fake.users[1].surname = "Höpper";
+    for (const [name, id] of [
+      ["GRACE HOPPER", 2],
+      ["alan@example.com", 3],
+      ["Ada", 1],
+    ] as const) {
+      const res = await h.call("tt_get_user_projects", { user_id: name });
+      assert.equal(res.isError, false, res.text);
+      assert.equal(h.fake.requests.at(-1)!.path, `/users/${id}/projects`);
+    }
+    await h.call("tt_list_tasks", { project_id: "supp ret" });
+    assert.equal(h.fake.requests.at(-1)!.query.project_id, "11");
+    await h.call("tt_list_tasks", { project_id: "Webiste Redesing" });
+    assert.equal(h.fake.requests.at(-1)!.query.project_id, "10");
+  });
+
+  it("reports ambiguous names with candidates instead of guessing", async () => {
+    h.fake.tasks.push({ ...h.fake.tasks[0], id: 104, name: "Design review", project_id: 11 });
+    const res = await h.call("tt_update_time_entry", { id: 500, end: "2026-10-05 12:00:00", task_id: "design" });
+    assert.equal(res.isError, true);
+    assert.match(res.text, /Ambiguous task "design": did you mean/);
+    assert.match(res.text, /"Design mockups" \(id 100, Website Redesign\)/);
+    assert.match(res.text, /"Design review" \(id 104, Support Retainer\)/);
+    assert.equal(h.fake.requestsTo("/events/update/500").length, 0);
+
+    const scoped = await h.call("tt_update_time_entry", {
+      id: 500,
+      end: "2026-10-05 12:00:00",
+      project_id: "Support Retainer",
+      task_id: "design",
+    });
+    assert.equal(scoped.isError, false, scoped.text);
+    assert.equal(h.fake.events.find((e) => e.id === 500)!.task_id, 104);
+  });
+
+  it("suggests close names when nothing matches", async () => {
+    const res = await h.call("tt_list_tasks", { project_id: "Intranet Old Site" });
+    assert.equal(res.isError, true);
+    assert.match(res.text, /No project matches "Intranet Old Site"/);
+
+    const none = await h.call("tt_list_tasks", { project_id: "Payroll" });
+    assert.match(none.text, /No project matches "Payroll"\.$/);
+  });
+
+  it("refreshes the cached directory once on a miss", async () => {
+    await h.call("tt_list_tasks", { project_id: "Website Redesign" });
+    h.fake.projects.push({ ...h.fake.projects[0], id: 13, name: "Brand Refresh" });
+    const res = await h.call("tt_list_tasks", { project_id: "Brand Refresh" });
+    assert.equal(res.isError, false, res.text);
+    assert.equal(h.fake.requestsTo("/projects", "GET").length, 2);
+  });
+
+  it("resolves time-entry filter ids by the filter's entity kind", async () => {
+    const res = await h.call<{ id: number }[]>("tt_list_time_entries", {
+      filter: "USER",
+      id: "Grace",
+      from: "2026-10-01",
+      to: "2026-10-31",
+    });
+    assert.deepEqual(res.json.map((e) => e.id), [502, 503]);
+
+    const company = await h.call("tt_count_time_entries", { filter: "COMPANY", id: "Grace", from: "2026-10-01", to: "2026-10-31" });
+    assert.equal(company.isError, true);
+  });
+
+  it("accepts names in project lists and passes numeric strings through", async () => {
+    await h.call("tt_assign_user_projects", { user_id: "Grace Hopper", project_ids: ["Support Retainer", "12"] });
+    assert.deepEqual(h.fake.users[1].projects, [10, 11, 12]);
+  });
+});
@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { addRoundedColumns, policyFor, roundDuration } from "../src/rounding.js";
+
+describe("roundDuration", () => {
+  it("rounds up, down or to the nearest increment", () => {
+    assert.equal(roundDuration(61, { mode: "up", increment_minutes: 6 }), 360);
+    assert.equal(roundDuration(3000, { mode: "up", increment_minutes: 15 }), 3600);
+    assert.equal(roundDuration(3000, { mode: "down", increment_minutes: 15 }), 2700);
+    assert.equal(roundDuration(1349, { mode: "nearest", increment_minutes: 15 }), 900);
+    assert.equal(roundDuration(1350, { mode: "nearest", increment_minutes: 15 }), 1800);
+  });
+
+  it("applies the minimum to anything but zero", () => {
+    const policy = { mode: "down" as const, increment_minutes: 15, minimum_minutes: 30 };
+    assert.equal(roundDuration(60, policy), 1800);
+    assert.equal(roundDuration(0, policy), 0);
+    assert.equal(roundDuration(5400, policy), 5400);
+  });
+});
+
+describe("policyFor", () => {
+  const up = { mode: "up" as const, increment_minutes: 15 };
+  const nearest = { mode: "nearest" as const, increment_minutes: 6 };
+  const down = { mode: "down" as const, increment_minutes: 60 };
+  const config = { default: down, customers: { "Acme Corp": nearest }, projects: { "10": up } };
+
+  it("prefers the project, then the customer, then the default", () => {
+    assert.equal(policyFor(config, { project_id: 10, customer: "Acme Corp" }), up);
+    assert.equal(policyFor(config, { project_id: 11, customer: "acme corp" }), nearest);
+    assert.equal(policyFor(config, { project_id: 12, customer: "Globex" }), down);
+    assert.equal(policyFor({ projects: { "10": up } }, { project_id: 12 }), undefined);
+  });
+});
+
+describe("addRoundedColumns", () => {
+  const config = { default: { mode: "up" as const, increment_minutes: 15 } };
+
+  it("appends rounded columns, keeping quoted fields intact", () => {
+    const csv = 'id,project,duration,notes\r\n1,Web,600,"Call, then\r\nfollow-up"\r\n2,Web,0:50,\r\n';
+    assert.equal(
+      addRoundedColumns(csv, ",", config),
+      'id,project,duration,notes,rounded_duration,rounded_hours\r\n1,Web,600,"Call, then\r\nfollow-up",900,0.25\r\n' +
+        "2,Web,0:50,,3600,1\r\n",
+    );
+  });
+
+  it("uses the matching event's duration and project when given", () => {
+    const events = new Map([[7, { id: 7, duration: 1000, start: "2026-10-05 09:00:00", project_id: 10 }]]);
+    const out = addRoundedColumns("id;duration\n7;999\n8;oops\n", ";", { projects: { "10": config.default } }, events);
+    assert.equal(out, "id;duration;rounded_duration;rounded_hours\n7;999;1800;0.5\n8;oops;;\n");
+  });
+});
@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { QueueTimeoutError, RequestThrottle } from "../src/throttle.js";
+
+describe("RequestThrottle", () => {
+  it("caps the number of requests in flight", async () => {
+    const throttle = new RequestThrottle({ ratePerSecond: 0, burst: 0, maxConcurrency: 2 });
+    let active = 0;
+    let peak = 0;
+
+    await Promise.all(
+      Array.from({ length: 6 }, async () => {
+        const slot = await throttle.acquire(1000);
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        active--;
+        slot.release();
+      }),
+    );
+
+    assert.equal(peak, 2);
+  });
+
+  it("spaces requests out once the burst is spent", async () => {
+    const throttle = new RequestThrottle({ ratePerSecond: 50, burst: 1, maxConcurrency: 0 });
+    const waits: number[] = [];
+    for (let i = 0; i < 3; i++) {
+      const slot = await throttle.acquire(1000);
+      waits.push(slot.waitedMs);
+      slot.release();
+    }
+
+    assert.ok(waits[0] < 5);
+    assert.ok(waits[1] >= 15 && waits[2] >= 15, `waits: ${waits}`);
+  });
+
+  it("rejects with the queue wait when the deadline passes", async () => {
+    const throttle = new RequestThrottle({ ratePerSecond: 0, burst: 0, maxConcurrency: 1 });
+    const held = await throttle.acquire(1000);
+
+    await assert.rejects(throttle.acquire(30), (err) => {
+      assert.ok(err instanceof QueueTimeoutError);
+      assert.ok(err.waitedMs >= 25);
+      return true;
+    });
+
+    held.release();
+    const next = await throttle.acquire(100);
+    next.release();
+  });
+});
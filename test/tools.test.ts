@@ -0,0 +1,1375 @@
+import assert from "node:assert/strict";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, afterEach, before, beforeEach, describe, it } from "node:test";
+import type { FakeTrackingTime } from "./fake-server.js";
+import { parseDate, parseDateTime } from "../src/dates.js";
+import { startHarness, type Harness, type ToolCall } from "./helpers.js";
+
+const FROM = "2026-10-01";
+const TO = "2026-10-31";
+
+interface ToolCase {
+  args: Record<string, unknown>;
+  setup?: (fake: FakeTrackingTime) => void;
+  /** Extra arguments that come from other tool calls, e.g. an ID a previous step returned. */
+  prepare?: () => Promise<Record<string, unknown>>;
+  check?: (result: ToolCall, fake: FakeTrackingTime) => void;
+}
+
+/** A case check that reads the tool's JSON result as `T`. */
+function withJson<T>(check: (json: T, fake: FakeTrackingTime) => void): ToolCase["check"] {
+  return (result, fake) => check(result.json as T, fake);
+}
+
+type TaskIds = { task_id: number }[];
+
+interface DigestResult {
+  worked: { total_hours: number; tasks: { task: string; entries: number; hours: number; notes: string[] }[] };
+  tracking: TaskIds;
+  overdue: { task_id: number; days_until_due: number }[];
+  due_today: { task_id: number; project: string; estimated_hours: number }[];
+  notifications: unknown;
+}
+
+/** One smoke case per registered tool, run against freshly seeded data. */
+const cases: Record<string, ToolCase> = {
+  // Projects
+  tt_list_projects: {
+    args: { filter: "ALL" },
+    check: withJson<unknown[]>((json) => assert.equal(json.length, 3)),
+  },
+  tt_list_project_ids: { args: {}, check: ({ json }) => assert.deepEqual(json, [10, 11]) },
+  tt_search_projects: { args: { keyword: "Website" } },
+  tt_create_project: {
+    args: { name: "Mobile App", customer_name: "Acme Corp" },
+    check: (_, fake) => assert.equal(fake.projects.at(-1)?.customer_id, 20),
+  },
+  tt_update_project: {
+    args: { id: 10, name: "Website Relaunch" },
+    check: (_, fake) => assert.equal(fake.projects[0].name, "Website Relaunch"),
+  },
+  tt_update_project_preferences: { args: { id: 10, is_favorite: true } },
+  tt_get_project: { args: { id: 10, include_tasks: true, include_billing: true } },
+  tt_get_project_times: { args: { project_ids: [10, 11] } },
+  tt_project_budget_status: {
+    args: { project_id: "Website Redesign", until: "2026-10-11" },
+    check: withJson<{ estimate_hours: number; actual_hours: number; percent_consumed: number }>((json) =>
+      assert.deepEqual([json.estimate_hours, json.actual_hours, json.percent_consumed], [50, 13, 26]),
+    ),
+  },
+  tt_get_project_users: { args: { id: 10 } },
+  tt_archive_project: {
+    args: { id: 10 },
+    check: (_, fake) => assert.equal(fake.projects[0].status, "ARCHIVED"),
+  },
+  tt_reopen_project: {
+    args: { id: 12 },
+    check: (_, fake) => assert.equal(fake.projects[2].status, "ACTIVE"),
+  },
+  tt_delete_project: {
+    args: { id: 12 },
+    check: (_, fake) => assert.ok(!fake.projects.some((p) => p.id === 12)),
+  },
+  tt_merge_projects: {
+    args: { source_id: 11, target_id: 10 },
+    check: (_, fake) => assert.equal(fake.tasks.find((t) => t.id === 102)?.project_id, 10),
+  },
+
+  // Tasks
+  tt_list_tasks: { args: { project_id: 10 }, check: withJson<unknown[]>((json) => assert.equal(json.length, 2)) },
+  tt_create_task: { args: { name: "Write copy", project_id: 10, estimated_time: 3, users: [{ id: 2 }] } },
+  tt_update_task: {
+    args: { id: 100, users: [{ id: 2 }] },
+    check: (_, fake) => assert.deepEqual(fake.tasks[0].users, [{ id: 2 }]),
+  },
+  tt_get_task: { args: { id: 100 } },
+  tt_list_due_tasks: {
+    args: {},
+    setup: (fake) => {
+      fake.tasks[0].due_date = parseDate("2 days ago");
+      fake.tasks[1].due_date = parseDate("today");
+    },
+    check: withJson<{ counts: unknown; overdue: Record<string, unknown>[] }>((json) => {
+      assert.deepEqual(json.counts, { overdue: 1, due_today: 1, due_this_week: 0, due_later: 0, no_due_date: 1 });
+      const [mockups] = json.overdue;
+      assert.deepEqual(
+        [mockups.task_id, mockups.days_until_due, mockups.customer, mockups.assignees, mockups.tracked_hours, mockups.remaining_hours],
+        [100, -2, "Acme Corp", [{ id: 1, name: "Ada Lovelace" }], 3, 7],
+      );
+    }),
+  },
+  tt_get_task_times: { args: { task_ids: [100, 101] } },
+  tt_search_tasks: { args: { data: [{ project_name: "Website Redesign", task_name: "Design" }] } },
+  tt_sort_tasks: { args: { data: [{ id: 100, sort_index: 5 }] } },
+  tt_import_tasks: { args: { data: [{ task_name: "Imported", project_name: "Website Redesign" }] } },
+  tt_close_task: { args: { id: 100 }, check: (_, fake) => assert.equal(fake.tasks[0].status, "CLOSED") },
+  tt_reopen_task: { args: { id: 103 }, check: (_, fake) => assert.equal(fake.tasks[3].status, "ACTIVE") },
+  tt_delete_task: {
+    args: { id: 102, delete_all: false },
+    check: (_, fake) => assert.ok(fake.events.some((e) => e.task_id === 102)),
+  },
+
+  // Timer
+  tt_start_timer: { args: { id: 100, date: "2026-10-19 09:00:00" } },
+  tt_stop_timer: {
+    args: { id: 100, date: "2026-10-19 10:00:00" },
+    setup: (fake) => fake.trackings.push({ user_id: 1, task_id: 100, start: "2026-10-19 09:00:00" }),
+    check: withJson<{ duration: number }>((json) => assert.equal(json.duration, 3600)),
+  },
+  tt_timer_status: { args: {}, check: withJson<{ tracking: boolean }>((json) => assert.equal(json.tracking, false)) },
+  tt_resume_last_timer: {
+    args: {},
+    setup: (fake) =>
+      fake.events.push(
+        fake.makeEvent({ user_id: 1, task_id: 101, start: parseDateTime("3 hours ago"), end: parseDateTime("2 hours ago") }),
+      ),
+    check: (_, fake) => assert.deepEqual(fake.trackings.map((t) => t.task_id), [101]),
+  },
+  tt_switch_timer: {
+    args: { task_id: "Build frontend" },
+    setup: (fake) => fake.trackings.push({ user_id: 1, task_id: 100, start: "2026-10-19 09:00:00" }),
+    check: withJson<{ stopped: TaskIds }>((json, fake) => {
+      assert.equal(json.stopped[0].task_id, 100);
+      assert.deepEqual(fake.trackings.map((t) => t.task_id), [101]);
+    }),
+  },
+  tt_find_stale_timers: {
+    args: {},
+    setup: (fake) => fake.trackings.push({ user_id: 2, task_id: 102, start: "2026-10-06 08:00:00" }),
+    check: withJson<{ stale: TaskIds }>((json) => assert.deepEqual(json.stale.map((t) => t.task_id), [102])),
+  },
+  tt_fix_stale_timers: {
+    args: {},
+    setup: (fake) => fake.trackings.push({ user_id: 2, task_id: 102, start: "2026-10-06 08:00:00" }),
+    check: withJson<{ stopped: TaskIds }>((json) => assert.deepEqual(json.stopped.map((t) => t.task_id), [102])),
+  },
+
+  // Time entries
+  tt_list_time_entries: {
+    args: { filter: "USER", id: 1, from: FROM, to: TO },
+    check: withJson<unknown[]>((json) => assert.equal(json.length, 2)),
+  },
+  tt_list_time_entries_min: {
+    args: { filter: "COMPANY", from: FROM, to: TO, billed: "UNBILLED", include_timeoffs: true },
+  },
+  tt_count_time_entries: { args: { filter: "COMPANY", from: FROM, to: TO } },
+  tt_audit_time_entries: {
+    args: { from: FROM, to: TO },
+    check: withJson<{ scanned: number }>((json) => assert.equal(json.scanned, 4)),
+  },
+  tt_add_time_entry: {
+    args: {
+      duration: 3600,
+      user_id: 1,
+      start: "2026-10-06 09:00:00",
+      end: "2026-10-06 10:00:00",
+      task_id: 100,
+      notes: "Review",
+    },
+  },
+  tt_get_time_entry: { args: { id: 500 } },
+  tt_update_time_entry: { args: { id: 500, end: "2026-10-05 12:30:00", notes: "Updated" } },
+  tt_delete_time_entry: { args: { id: 500 } },
+  tt_get_events_summary: { args: { from: FROM, to: TO, users: [{ id: 1 }] } },
+  tt_export_time_entries: {
+    args: { separator: ",", filter: "COMPANY", from: FROM, to: TO },
+    check: ({ text }) => assert.match(text, /^id,user,project/),
+  },
+  tt_mark_billed: { args: { entry_ids: [500] } },
+  tt_mark_not_billed: { args: { entry_ids: [503] } },
+
+  // Timesheets
+  tt_get_timesheet: {
+    args: { user_id: 1, week: "2026-W41" },
+    check: withJson<{ total_hours: number }>((json) => assert.equal(json.total_hours, 7)),
+  },
+  tt_copy_time_entries: {
+    args: { user_id: 1, from: "2026-10-05", to: "2026-10-11", target_from: "2026-10-12" },
+    check: withJson<{ created_ids: number[] }>((json, fake) => {
+      assert.equal(json.created_ids.length, 2);
+      assert.equal(fake.events.at(-1)?.start, "2026-10-12 13:00:00");
+    }),
+  },
+  tt_fill_timesheet: {
+    args: { user_id: 1, week: "2026-W41", grid: [{ day: "fri", hours: 2, task_id: 100 }], commit: true },
+    check: withJson<{ created: unknown[] }>((json, fake) => {
+      assert.equal(json.created.length, 1);
+      assert.equal(fake.events.at(-1)?.start, "2026-10-09 09:00:00");
+    }),
+  },
+
+  // Invoices
+  tt_generate_invoice_draft: {
+    args: { customer_id: "Acme Corp", from: FROM, to: TO },
+    check: withJson<{ event_ids: number[]; totals: { amount: number } }>((json) => {
+      assert.deepEqual(json.event_ids, [500, 501]);
+      assert.equal(json.totals.amount, 700);
+    }),
+  },
+  tt_finalize_invoice: {
+    args: {},
+    prepare: async () => {
+      const { json } = await harness.call<{ draft_id: string }>("tt_generate_invoice_draft", {
+        customer_id: 21,
+        from: FROM,
+        to: TO,
+      });
+      return { draft_id: json.draft_id };
+    },
+    check: withJson<{ event_ids: number[] }>((json, fake) => {
+      assert.deepEqual(json.event_ids, [502]);
+      assert.ok(fake.events.find((e) => e.id === 502)?.billed);
+    }),
+  },
+
+  // Event tags
+  tt_list_tags: { args: {} },
+  tt_get_tag: { args: { id: 40 } },
+  tt_list_tag_values: { args: { name: "phase" } },
+  tt_create_tag: { args: { name: "sprint", value: "1" } },
+  tt_update_tag: { args: { id: 40, color: "#ffffff" } },
+  tt_delete_tag: { args: { id: 41 } },
+  tt_save_event_tag: {
+    args: { event_id: 500, name: "phase", value: "build" },
+    check: (_, fake) => assert.deepEqual(fake.events[0].tags, [{ name: "phase", value: "build" }]),
+  },
+  tt_delete_event_tag: {
+    args: { event_id: 500, name: "phase" },
+    setup: (fake) => fake.events[0].tags.push({ name: "phase", value: "build" }),
+    check: (_, fake) => assert.deepEqual(fake.events[0].tags, []),
+  },
+
+  // Users
+  tt_list_users: { args: { include_teams: true } },
+  tt_get_user: { args: { id: 1, include_billing: true } },
+  tt_create_user: { args: { name: "Katherine", role: "REGULAR", email: "kj@example.com" } },
+  tt_update_user: { args: { id: 2, surname: "Hopper-Smith" } },
+  tt_update_user_permissions: { args: { user_id: 2, can_edit_time_entries: true } },
+  tt_update_employee: { args: { user_id: 2, job_title: "Engineer" } },
+  tt_resend_invite: { args: { email: "grace@example.com" } },
+  tt_reset_icalendar_token: { args: {} },
+  tt_get_user_tasks: { args: { user_id: 1 } },
+  tt_get_user_tracking: { args: { user_id: 1 } },
+  tt_get_user_trackables: { args: { user_id: 1, include_tasks: true } },
+  tt_get_user_projects: { args: { user_id: 1 } },
+  tt_assign_user_projects: {
+    args: { user_id: 2, project_ids: [11] },
+    check: (_, fake) => assert.deepEqual(fake.users[1].projects, [10, 11]),
+  },
+  tt_remove_user_projects: {
+    args: { user_id: 1, project_ids: [11] },
+    check: (_, fake) => assert.deepEqual(fake.users[0].projects, [10]),
+  },
+  tt_archive_user: { args: { id: 2 }, check: (_, fake) => assert.equal(fake.users[1].status, "ARCHIVED") },
+  tt_reactivate_user: { args: { id: 3 }, check: (_, fake) => assert.equal(fake.users[2].status, "ACTIVE") },
+
+  // User groups
+  tt_list_user_groups: { args: {} },
+  tt_get_user_group: { args: { id: 50 } },
+  tt_create_user_group: {
+    args: { name: "Support", supervisor_id: 2, users: [{ id: 2, action: "ADD" }] },
+  },
+  tt_update_user_group: { args: { id: 50, users: [{ id: 2, action: "REMOVE" }] } },
+  tt_delete_user_group: { args: { id: 50 } },
+
+  // Customers
+  tt_list_customers: { args: {} },
+  tt_get_customer: { args: { id: 20 } },
+  tt_create_customer: { args: { name: "Initech", contact_email: "bill@initech.test" } },
+  tt_update_customer: { args: { id: 20, name: "Acme Corp", notes: "Key account" } },
+  tt_delete_customer: {
+    args: { id: 21 },
+    check: (_, fake) => assert.equal(fake.projects[1].customer_id, null),
+  },
+  tt_archive_customer: { args: { id: 20 }, check: (_, fake) => assert.equal(fake.customers[0].status, "ARCHIVED") },
+  tt_reactivate_customer: {
+    args: { id: 20 },
+    setup: (fake) => (fake.customers[0].status = "ARCHIVED"),
+    check: (_, fake) => assert.equal(fake.customers[0].status, "ACTIVE"),
+  },
+
+  // Services
+  tt_list_services: { args: { include_billing: true } },
+  tt_get_service: { args: { id: 30 } },
+  tt_create_service: { args: { name: "Design" } },
+  tt_update_service: { args: { id: 30, name: "Engineering" } },
+  tt_archive_service: { args: { id: 30 } },
+  tt_reactivate_service: { args: { id: 30 } },
+  tt_delete_service: { args: { id: 31 } },
+
+  // Teams
+  tt_list_teams: { args: {} },
+  tt_switch_team: { args: { account_id: 2000 } },
+  tt_update_team_permissions: { args: { id: 1000, can_view_others: true } },
+
+  // Reports
+  tt_get_user_report: { args: { user_id: 1, from: FROM, to: TO } },
+  tt_check_working_time: {
+    args: { from: FROM, to: TO },
+    check: withJson<{ violations: unknown[]; absences: unknown[] }>((json) => {
+      assert.deepEqual(json.violations, []);
+      assert.deepEqual(json.absences, [{ user_id: 2, date: "2026-10-08", hours: 8, reason: "Vacation" }]);
+    }),
+  },
+  tt_customer_report: {
+    args: { customer_id: "Acme Corp", from: FROM, to: TO },
+    check: ({ text }) => {
+      assert.match(text, /^# Activity report — Acme Corp\n/);
+      assert.match(text, /\| Website Redesign \| Build frontend \| 10\.00 \|/);
+      assert.match(text, /- 2026-10-05 · 3\.00 h — Ada Lovelace — Homepage concepts/);
+    },
+  },
+  tt_team_utilization: {
+    args: { from: "2026-10-05", to: "2026-10-09", group_id: "Engineering" },
+    check: withJson<{ users: { user: string; capacity_hours: number; utilization_percent: number }[] }>((json) =>
+      assert.deepEqual(
+        json.users.map((u) => [u.user, u.capacity_hours, u.utilization_percent]),
+        [
+          ["Grace Hopper", 40, 18.8],
+          ["Ada Lovelace", 40, 17.5],
+        ],
+      ),
+    ),
+  },
+  tt_daily_digest: {
+    args: {},
+    setup: (fake) => {
+      fake.tasks[0].due_date = parseDate("3 days ago");
+      fake.tasks[1].due_date = parseDate("today");
+      fake.events.push(
+        fake.makeEvent({ user_id: 1, task_id: 101, start: parseDateTime("yesterday 09:00"), end: parseDateTime("yesterday 10:30"), notes: "Nav bar" }),
+      );
+    },
+    check: withJson<DigestResult>((json) =>
+      assert.deepEqual(
+        [json.worked.total_hours, json.worked.tasks[0].notes, json.overdue.map((t) => [t.task_id, t.days_until_due])],
+        [1.5, ["Nav bar"], [[100, -3]]],
+      ),
+    ),
+  },
+
+  // Notifications
+  tt_list_notifications: {
+    args: { filter: "USER", id: 1 },
+    check: withJson<unknown[]>((json) => assert.equal(json.length, 1)),
+  },
+  tt_mark_notification_read: { args: { id: 70 } },
+  tt_mark_notifications_read: { args: { notification_ids: [70, 71] } },
+
+  // Webhooks
+  tt_list_webhooks: { args: {} },
+  tt_get_webhook: { args: { id: 60 } },
+  tt_enable_webhook: { args: { id: 60 } },
+  tt_disable_webhook: { args: { id: 60 } },
+  tt_reset_webhook_token: { args: { id: 60 } },
+  tt_delete_webhook: { args: { id: 60 } },
+};
+
+let harness: Harness;
+const settingsDir = mkdtempSync(join(tmpdir(), "tt-settings-"));
+const settingsPath = join(settingsDir, "settings.json");
+
+before(async () => {
+  harness = await startHarness({
+    TT_USER_ID: "ada@example.com",
+    TT_SETTINGS_PATH: settingsPath,
+    TT_REPORTS_DIR: join(settingsDir, "reports"),
+  });
+});
+
+after(async () => {
+  await harness.close();
+  rmSync(settingsDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  harness.fake.reset();
+});
+
+describe("registered tools", () => {
+  it("has a test case for every registered tool", async () => {
+    const { tools } = await harness.client.listTools();
+    const names = tools.map((t) => t.name).sort();
+    assert.deepEqual(names, Object.keys(cases).sort());
+  });
+
+  for (const [name, { args, setup, prepare, check }] of Object.entries(cases)) {
+    it(name, async () => {
+      setup?.(harness.fake);
+      const result = await harness.call(name, { ...args, ...(await prepare?.()) });
+      assert.equal(result.isError, false, result.text);
+      check?.(result, harness.fake);
+    });
+  }
+});
+
+describe("TrackingTime API quirks", () => {
+  it("sends /events/billed data as a JSON string", async () => {
+    await harness.call("tt_mark_billed", { entry_ids: [500, 501] });
+    const [request] = harness.fake.requestsTo("/events/billed", "PUT");
+    assert.equal(request.body.data, JSON.stringify([{ id: 500 }, { id: 501 }]));
+    assert.ok(harness.fake.events.filter((e) => [500, 501].includes(e.id)).every((e) => e.billed));
+  });
+
+  it("sends array fields on JSON endpoints as raw arrays", async () => {
+    await harness.call("tt_get_project_times", { project_ids: [10] });
+    await harness.call("tt_assign_user_projects", { user_id: 2, project_ids: [11] });
+    assert.deepEqual(harness.fake.requestsTo("/projects/times")[0].body.data, [{ id: 10 }]);
+    assert.deepEqual(harness.fake.requestsTo("/users/2/assign_projects")[0].body.data, [{ id: 11 }]);
+  });
+
+  it("archives and reactivates with PUT", async () => {
+    await harness.call("tt_archive_customer", { id: 20 });
+    await harness.call("tt_reactivate_user", { id: 3 });
+    assert.equal(harness.fake.requestsTo("/customers/close/20", "PUT").length, 1);
+    assert.equal(harness.fake.requestsTo("/users/open/3", "PUT").length, 1);
+  });
+
+  it("reports the 502 timer-running error with a hint", async () => {
+    harness.fake.trackings.push({ user_id: 1, task_id: 101, start: "2026-10-19 08:00:00" });
+    const result = await harness.call("tt_start_timer", { id: 100, date: "2026-10-19 09:00:00" });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /\(502\).*stop_running_task=true/);
+  });
+
+  it("surfaces HTML error pages as non-JSON errors", async () => {
+    harness.fake.faults.push({
+      match: /^\/projects$/,
+      count: 1,
+      reply: { status: 503, raw: "<html>Service Unavailable</html>", contentType: "text/html" },
+    });
+    const result = await harness.call("tt_list_projects");
+    assert.equal(result.isError, true);
+    assert.match(result.text, /HTTP 503 with non-JSON response/);
+  });
+});
+
+describe("date parameters", () => {
+  it("rejects malformed dates before calling the API", async () => {
+    const result = await harness.call("tt_list_time_entries", { filter: "COMPANY", from: "05/10/2026", to: TO });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /Invalid date "05\/10\/2026"/);
+    assert.equal(harness.fake.requestsTo("/events").length, 0);
+  });
+
+  it("expands periods and normalizes ISO 8601 datetimes", async () => {
+    await harness.call("tt_count_time_entries", { filter: "COMPANY", from: "2026-10-05T09:00:00Z", to: "2026-10-07" });
+    assert.deepEqual(harness.fake.requestsTo("/events/count")[0].query, {
+      filter: "COMPANY",
+      from: "2026-10-05",
+      to: "2026-10-07",
+    });
+    await harness.call("tt_add_time_entry", { duration: 1800, user_id: 1, start: "2026-10-09 9:00", end: "2026-10-09 9:30am" });
+    const body = harness.fake.requestsTo("/events/add")[0].body;
+    assert.equal(body.start, "2026-10-09 09:00:00");
+    assert.equal(body.end, "2026-10-09 09:30:00");
+  });
+
+  it("defaults timer timestamps to now", async () => {
+    await harness.call("tt_start_timer", { id: 100 });
+    const { date } = harness.fake.requestsTo("/tasks/track/100")[0].body;
+    assert.match(date, /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/);
+  });
+});
+
+describe("durations", () => {
+  it("accepts durations with units", async () => {
+    await harness.call("tt_add_time_entry", {
+      duration: "1h30m",
+      user_id: 1,
+      start: "2026-10-09 09:00:00",
+      end: "2026-10-09 10:30:00",
+    });
+    await harness.call("tt_create_task", { name: "Audit", estimated_time: "90m" });
+    assert.equal(harness.fake.requestsTo("/events/add")[0].body.duration, 5400);
+    assert.equal(harness.fake.requestsTo("/tasks/share")[0].body.estimated_time, 1.5);
+  });
+
+  it("adds HH:MM and decimal-hour companions to output", async () => {
+    const { json } = await harness.call<Record<string, unknown>>("tt_get_time_entry", { id: 502 });
+    assert.equal(json.duration, 5400);
+    assert.equal(json.duration_hhmm, "1:30");
+    assert.equal(json.duration_hours, 1.5);
+  });
+});
+
+describe("all_pages", () => {
+  interface Aggregate {
+    entries: number;
+    duration: number;
+    duration_hhmm: string;
+  }
+
+  interface AllPages {
+    expected: number;
+    fetched: number;
+    pages: number;
+    entries?: { id: number }[];
+    aggregates: {
+      total: Aggregate;
+      by_user: { user_id: number }[];
+      by_day: { date: string }[];
+      by_task: { task_id: number }[];
+    };
+  }
+
+  it("walks every page, skips duplicates and aggregates", async () => {
+    for (let i = 0; i < 4; i++) {
+      harness.fake.events.push(
+        harness.fake.makeEvent({ user_id: 1, task_id: 100, start: `2026-10-09 0${i}:00:00`, end: `2026-10-09 0${i}:30:00` }),
+      );
+    }
+    const { json } = await harness.call<AllPages>("tt_list_time_entries", {
+      filter: "COMPANY",
+      from: FROM,
+      to: TO,
+      all_pages: true,
+      page_size: 3,
+    });
+    assert.equal(json.expected, 8);
+    assert.equal(json.fetched, 8);
+    assert.equal(json.pages, 3);
+    assert.equal(json.entries?.length, 8);
+    assert.equal(new Set(json.entries?.map((e) => e.id)).size, 8);
+    assert.equal(json.aggregates.total.entries, 8);
+    assert.equal(json.aggregates.by_user[0].user_id, 1);
+    assert.deepEqual(
+      json.aggregates.by_day.map((d) => d.date),
+      ["2026-10-05", "2026-10-06", "2026-10-07", "2026-10-09"],
+    );
+    assert.equal(harness.fake.requestsTo("/events/count").length, 1);
+  });
+
+  it("returns only aggregates when asked", async () => {
+    const { json } = await harness.call<AllPages>("tt_list_time_entries", {
+      filter: "USER",
+      id: "Grace",
+      from: FROM,
+      to: TO,
+      all_pages: true,
+      aggregates_only: true,
+    });
+    assert.equal(json.entries, undefined);
+    assert.equal(json.aggregates.total.entries, 2);
+    assert.equal(json.aggregates.total.duration, 27000);
+    assert.equal(json.aggregates.total.duration_hhmm, "7:30");
+    assert.deepEqual(
+      json.aggregates.by_task.map((t) => t.task_id),
+      [101, 102],
+    );
+  });
+});
+
+describe("timesheets", () => {
+  it("builds a project × task × weekday grid with totals and flags", async () => {
+    const { json } = await harness.call<{
+      week: string;
+      user: string;
+      rows: { task: string; hours: number[] }[];
+      days: { hours: number }[];
+      total_hours: number;
+      expected_hours: number;
+      under_target: string[];
+    }>("tt_get_timesheet", { user_id: "Grace", week: "2026-10-07", expected_hours: 6 });
+    assert.equal(json.week, "2026-W41");
+    assert.equal(json.user, "Grace Hopper");
+    assert.deepEqual(
+      json.rows.map((r) => [r.task, r.hours]),
+      [
+        ["Ticket triage", [0, 1.5, 0, 0, 0, 0, 0]],
+        ["Build frontend", [0, 0, 6, 0, 0, 0, 0]],
+      ],
+    );
+    assert.deepEqual(
+      json.days.map((d) => d.hours),
+      [0, 1.5, 6, 0, 0, 0, 0],
+    );
+    assert.equal(json.total_hours, 7.5);
+    assert.equal(json.expected_hours, 30);
+    assert.deepEqual(json.under_target, ["2026-10-05", "2026-10-06", "2026-10-08", "2026-10-09"]);
+  });
+
+  it("renders Markdown", async () => {
+    const { text } = await harness.call("tt_get_timesheet", { user_id: 1, week: "2026-W41", format: "markdown" });
+    assert.match(text, /^## Timesheet 2026-W41 — Ada Lovelace/);
+    assert.match(text, /\| Website Redesign \| Design mockups \| 3:00 \| {2}\|/);
+    assert.match(text, /\| \*\*Total\*\* \| \| \*\*7:00\*\* ⚠ \| \*\*0:00\*\* ⚠/);
+    assert.match(text, /Under target: Mon 2026-10-05 \(7:00 of 8:00\), Tue 2026-10-06 \(0:00 of 8:00\)/);
+  });
+});
+
+describe("filling timesheets", () => {
+  const grid = [
+    { day: "mon", hours: 2, task_id: "Design mockups" },
+    { day: "monday", hours: "2h", project_id: "Support Retainer", notes: "Calls" },
+    { day: "2026-10-06", hours: 1.5, task_id: 101 },
+    { day: "tue", hours: "1h", task_id: 102 },
+  ];
+
+  it("previews non-overlapping blocks and skips cells that already have time", async () => {
+    const { json } = await harness.call<{
+      committed: boolean;
+      calls: { body: Record<string, unknown> }[];
+      skipped: unknown[];
+    }>("tt_fill_timesheet", { user_id: "Ada", week: "2026-W41", grid });
+    assert.equal(json.committed, false);
+    assert.deepEqual(
+      json.calls.map((c) => [c.body.start, c.body.end]),
+      [
+        // Monday 09:00–12:00 and 13:00–17:00 are taken, so the 2h block lands after them.
+        ["2026-10-05 17:00:00", "2026-10-05 19:00:00"],
+        ["2026-10-06 09:00:00", "2026-10-06 10:30:00"],
+        ["2026-10-06 10:30:00", "2026-10-06 11:30:00"],
+      ],
+    );
+    const { duration_hhmm, duration_hours: _hours, ...body } = json.calls[0].body;
+    assert.equal(duration_hhmm, "2:00");
+    assert.deepEqual(body, {
+      duration: 7200,
+      user_id: 1,
+      start: "2026-10-05 17:00:00",
+      end: "2026-10-05 19:00:00",
+      project_id: 11,
+      notes: "Calls",
+    });
+    assert.deepEqual(json.skipped, [
+      { cell: 0, date: "2026-10-05", reason: "Already has time for this task", existing_ids: [500] },
+    ]);
+    assert.equal(harness.fake.requestsTo("/events/add").length, 0);
+  });
+
+  it("creates the entries on commit, starting at day_start", async () => {
+    const { json } = await harness.call<{ created: { start: string }[] }>("tt_fill_timesheet", {
+      user_id: 1,
+      week: "2026-W41",
+      grid: grid.slice(2),
+      day_start: "08:30",
+      commit: true,
+    });
+    assert.deepEqual(
+      json.created.map((c) => c.start),
+      ["2026-10-06 08:30:00", "2026-10-06 10:00:00"],
+    );
+    assert.equal(harness.fake.requestsTo("/events/add").length, 2);
+  });
+
+  it("rejects cells without a task or project and days outside the week", async () => {
+    const missing = await harness.call("tt_fill_timesheet", { user_id: 1, grid: [{ day: "mon", hours: 1 }] });
+    assert.match(missing.text, /grid\[0\] needs a task_id or project_id/);
+    const outside = await harness.call("tt_fill_timesheet", {
+      user_id: 1,
+      week: "2026-W41",
+      grid: [{ day: "2026-10-12", hours: 1, task_id: 100 }],
+    });
+    assert.match(outside.text, /Invalid day "2026-10-12"/);
+  });
+});
+
+describe("copying time entries", () => {
+  it("previews clones on the same weekdays and skips days that already have time", async () => {
+    harness.fake.events.push(
+      harness.fake.makeEvent({ user_id: 2, task_id: 102, start: "2026-10-14 09:00:00", end: "2026-10-14 10:00:00" }),
+    );
+    const { json } = await harness.call<{
+      shift_days: number;
+      target: unknown;
+      entries: { source_id: number; start: string; end: string }[];
+      skipped: unknown[];
+    }>("tt_copy_time_entries", {
+      user_id: "Grace",
+      from: "2026-10-05",
+      to: "2026-10-11",
+      target_from: "2026-10-12",
+      dry_run: true,
+    });
+    assert.equal(json.shift_days, 7);
+    assert.deepEqual(json.target, { from: "2026-10-12", to: "2026-10-18" });
+    assert.deepEqual(
+      json.entries.map((e) => [e.source_id, e.start, e.end]),
+      [[502, "2026-10-13 09:00:00", "2026-10-13 10:30:00"]],
+    );
+    assert.deepEqual(json.skipped, [{ source_id: 503, date: "2026-10-14", reason: "Day already has time" }]);
+    assert.equal(harness.fake.requestsTo("/events/add").length, 0);
+  });
+
+  it("creates the clones with tags and optionally without notes", async () => {
+    harness.fake.events[2].tags = [{ name: "phase", value: "discovery" }];
+    const { json } = await harness.call<{ created_ids: number[]; tags_copied: number }>("tt_copy_time_entries", {
+      user_id: 2,
+      from: "2026-10-05",
+      to: "2026-10-11",
+      target_from: "2026-10-12",
+      notes: "clear",
+    });
+    assert.equal(json.created_ids.length, 2);
+    assert.equal(json.tags_copied, 1);
+    const clone = harness.fake.events.find((e) => e.id === json.created_ids[0]);
+    assert.equal(clone?.notes, "");
+    assert.equal(clone?.task_id, 102);
+    assert.deepEqual(clone?.tags, [{ name: "phase", value: "discovery" }]);
+  });
+
+  it("requires the target to start on the same weekday", async () => {
+    const { isError, text } = await harness.call("tt_copy_time_entries", {
+      user_id: 2,
+      from: "2026-10-05",
+      to: "2026-10-11",
+      target_from: "2026-10-13",
+    });
+    assert.ok(isError);
+    assert.match(text, /same weekday as from \(2026-10-05\)/);
+  });
+});
+
+describe("auditing time entries", () => {
+  const add = (start: string, end: string) =>
+    harness.fake.events.push(harness.fake.makeEvent({ user_id: 1, task_id: 100, start, end }));
+
+  it("reports overlaps, long, empty and overnight entries and gaps", async () => {
+    add("2026-10-05 11:00:00", "2026-10-05 12:30:00");
+    add("2026-10-08 08:00:00", "2026-10-08 20:00:00");
+    add("2026-10-09 10:00:00", "2026-10-09 10:00:00");
+    add("2026-10-09 23:00:00", "2026-10-10 01:00:00");
+    type Ids = { id: number }[];
+    const { json } = await harness.call<{
+      overlaps: unknown[];
+      long_entries: Ids;
+      zero_length: Ids;
+      spans_midnight: Ids;
+      gaps: { from: string; to: string }[];
+      issues: number;
+    }>("tt_audit_time_entries", { user_id: "Ada", from: FROM, to: TO, max_gap: "20m" });
+    const [overlap, long, empty, overnight] = harness.fake.events.slice(-4).map((e) => e.id);
+    assert.deepEqual(json.overlaps, [
+      { user_id: 1, date: "2026-10-05", entry_ids: [500, overlap], overlap_seconds: 3600 },
+    ]);
+    assert.deepEqual(json.long_entries.map((e) => e.id), [long]);
+    assert.deepEqual(json.zero_length.map((e) => e.id), [empty]);
+    assert.deepEqual(json.spans_midnight.map((e) => e.id), [overnight]);
+    // 12:30–13:00 is the only gap on Monday once the overlapping entry fills 12:00–12:30.
+    assert.deepEqual(
+      json.gaps.map((g) => [g.from, g.to]),
+      [
+        ["2026-10-05 12:30:00", "2026-10-05 13:00:00"],
+        ["2026-10-09 10:00:00", "2026-10-09 23:00:00"],
+      ],
+    );
+    assert.equal(json.issues, 6);
+  });
+
+  it("warns about or refuses overlapping writes", async () => {
+    const entry = { duration: "1h", user_id: 1, start: "2026-10-05 11:30:00", end: "2026-10-05 12:30:00" };
+    const refused = await harness.call("tt_add_time_entry", { ...entry, overlap_check: "strict" });
+    assert.ok(refused.isError);
+    assert.match(refused.text, /overlaps entries 500 \(2026-10-05 09:00–12:00, Design mockups\)/);
+    assert.equal(harness.fake.requestsTo("/events/add").length, 0);
+
+    const warned = await harness.call<{ warnings: string[] }>("tt_add_time_entry", { ...entry, overlap_check: "warn" });
+    assert.ok(!warned.isError);
+    assert.match(warned.json.warnings[0], /Overlaps entries 500/);
+
+    const moved = await harness.call("tt_update_time_entry", {
+      id: 501,
+      start: "2026-10-05 14:00:00",
+      end: "2026-10-05 17:00:00",
+      overlap_check: "strict",
+    });
+    assert.ok(!moved.isError, moved.text);
+  });
+
+  it("uses TT_OVERLAP_CHECK as the default", async () => {
+    process.env.TT_OVERLAP_CHECK = "strict";
+    try {
+      const { isError } = await harness.call("tt_update_time_entry", {
+        id: 501,
+        start: "2026-10-05 11:00:00",
+        end: "2026-10-05 17:00:00",
+      });
+      assert.ok(isError);
+    } finally {
+      delete process.env.TT_OVERLAP_CHECK;
+    }
+  });
+});
+
+describe("stale timers", () => {
+  type Fixed = { stopped: { task_id: number; stopped_at: string; basis: string }[] };
+
+  beforeEach(() => {
+    harness.fake.trackings.push(
+      { user_id: 2, task_id: 102, start: "2026-10-06 08:00:00" },
+      { user_id: 1, task_id: 100, start: parseDateTime("10 minutes ago") },
+    );
+  });
+
+  it("lists only timers running longer than the threshold", async () => {
+    const { json } = await harness.call<{ checked_users: number; stale: { user: string; elapsed: number }[] }>(
+      "tt_find_stale_timers",
+      { min_running: "2h" },
+    );
+    assert.equal(json.checked_users, 2);
+    assert.equal(json.stale.length, 1);
+    assert.equal(json.stale[0].user, "Grace Hopper");
+    assert.ok(json.stale[0].elapsed > 86400);
+    assert.equal(harness.fake.requestsTo("/tasks/stop/102").length, 0);
+  });
+
+  it("stops stale timers at end of day or the user's last activity", async () => {
+    const { json } = await harness.call<Fixed>("tt_fix_stale_timers", { end_of_day: "17:30" });
+    assert.deepEqual(
+      json.stopped.map((t) => [t.task_id, t.stopped_at, t.basis]),
+      [[102, "2026-10-06 17:30:00", "end_of_day"]],
+    );
+    assert.equal(harness.fake.requestsTo("/tasks/stop/102")[0].body.date, "2026-10-06 17:30:00");
+    assert.equal(harness.fake.trackings.length, 1);
+
+    harness.fake.trackings.push({ user_id: 2, task_id: 101, start: "2026-10-07 08:00:00" });
+    const last = await harness.call<Fixed>("tt_fix_stale_timers", { stop_at: "last_activity" });
+    // Grace's latest entry after 08:00 on the 7th ends at 16:00 that day.
+    assert.equal(last.json.stopped[0].stopped_at, "2026-10-07 16:00:00");
+    assert.equal(last.json.stopped[0].basis, "last_activity");
+  });
+
+  it("skips timers whose end of day is still ahead", async () => {
+    // Ada's timer started 10 minutes ago, so it is stale but today's 23:59 is still ahead.
+    const { json } = await harness.call<Fixed & { skipped: { task_id: number; reason: string }[] }>(
+      "tt_fix_stale_timers",
+      { min_running: "5m", end_of_day: "23:59" },
+    );
+    assert.deepEqual(
+      json.stopped.map((t) => t.task_id),
+      [102],
+    );
+    assert.deepEqual(
+      json.skipped.map((t) => [t.task_id, t.reason]),
+      [[100, "end_of_day hasn't passed yet on the day it started"]],
+    );
+    assert.equal(harness.fake.requestsTo("/tasks/stop/100").length, 0);
+  });
+});
+
+describe("timer shortcuts", () => {
+  it("reports the running timer with its elapsed time", async () => {
+    harness.fake.trackings.push({ user_id: 1, task_id: 100, start: parseDateTime("90 minutes ago") });
+    const { json } = await harness.call<{ user_id: number; timers: { task: string; elapsed_hhmm: string }[] }>(
+      "tt_timer_status",
+    );
+    assert.equal(json.user_id, 1);
+    assert.equal(json.timers[0].task, "Design mockups");
+    assert.equal(json.timers[0].elapsed_hhmm, "1:30");
+  });
+
+  it("resumes the most recent task, or reports it is already running", async () => {
+    harness.fake.events.push(
+      harness.fake.makeEvent({ user_id: 1, task_id: 100, start: parseDateTime("5 hours ago"), end: parseDateTime("4 hours ago") }),
+      harness.fake.makeEvent({ user_id: 1, task_id: 101, start: parseDateTime("3 hours ago"), end: parseDateTime("2 hours ago") }),
+    );
+    type Resumed = { resumed: boolean; task: { id: number } };
+    const first = await harness.call<Resumed>("tt_resume_last_timer", {});
+    assert.equal(first.json.resumed, true);
+    assert.equal(first.json.task.id, 101);
+    const again = await harness.call<Resumed>("tt_resume_last_timer", {});
+    assert.equal(again.json.resumed, false);
+    assert.equal(harness.fake.requestsTo("/tasks/track/101").length, 1);
+  });
+
+  it("switches timers at a single moment", async () => {
+    harness.fake.trackings.push({ user_id: 1, task_id: 100, start: "2026-10-19 09:00:00" });
+    const { json } = await harness.call<{ switched: boolean }>("tt_switch_timer", {
+      task_id: "triage",
+      date: "2026-10-19 11:00:00",
+    });
+    assert.equal(json.switched, true);
+    assert.equal(harness.fake.requestsTo("/tasks/stop/100")[0].body.date, "2026-10-19 11:00:00");
+    assert.equal(harness.fake.requestsTo("/tasks/track/102")[0].body.date, "2026-10-19 11:00:00");
+    assert.equal(harness.fake.events.at(-1)?.duration, 7200);
+  });
+
+  it("needs TT_USER_ID for your own timer", async () => {
+    const saved = process.env.TT_USER_ID;
+    delete process.env.TT_USER_ID;
+    try {
+      const { isError, text } = await harness.call("tt_switch_timer", { task_id: 100 });
+      assert.ok(isError);
+      assert.match(text, /TT_USER_ID is not set/);
+    } finally {
+      process.env.TT_USER_ID = saved;
+    }
+  });
+});
+
+describe("rounding", () => {
+  beforeEach(() => {
+    writeFileSync(
+      settingsPath,
+      JSON.stringify({
+        rounding: {
+          customers: { Globex: { mode: "nearest", increment_minutes: 6, minimum_minutes: 30 } },
+          projects: { "10": { mode: "up", increment_minutes: 15 } },
+        },
+      }),
+    );
+    harness.fake.events.push(
+      harness.fake.makeEvent({ id: 510, user_id: 1, task_id: 100, start: "2026-10-09 09:00:00", end: "2026-10-09 09:50:00" }),
+      harness.fake.makeEvent({ id: 511, user_id: 2, task_id: 102, start: "2026-10-09 09:00:00", end: "2026-10-09 09:10:00" }),
+    );
+  });
+
+  afterEach(() => {
+    rmSync(settingsPath, { force: true });
+  });
+
+  it("reports rounded durations next to the originals", async () => {
+    type Rounded = { duration: number; rounded_duration: number; rounded_duration_hhmm: string };
+    const { json } = await harness.call<{
+      entries: (Rounded & { id: number })[];
+      aggregates: { by_project: (Rounded & { project_id: number })[] };
+    }>("tt_list_time_entries", { filter: "COMPANY", from: FROM, to: TO, all_pages: true });
+    const byId = new Map(json.entries.map((e) => [e.id, e]));
+    const [first, second] = [byId.get(510)!, byId.get(511)!];
+    assert.deepEqual([first.duration, first.rounded_duration], [3000, 3600]);
+    assert.deepEqual([second.duration, second.rounded_duration], [600, 1800]);
+    assert.equal(first.rounded_duration_hhmm, "1:00");
+    const globex = json.aggregates.by_project.find((p) => p.project_id === 11)!;
+    assert.deepEqual([globex.duration, globex.rounded_duration], [6000, 7200]);
+  });
+
+  it("appends rounded columns to exports", async () => {
+    const { text } = await harness.call("tt_export_time_entries", { separator: ";", filter: "COMPANY", from: FROM, to: TO });
+    const lines = text.trim().split("\n");
+    assert.match(lines[0], /;duration;notes;rounded_duration;rounded_hours$/);
+    assert.match(lines.find((l) => l.startsWith("510;"))!, /;3000;;3600;1$/);
+    assert.match(lines.find((l) => l.startsWith("511;"))!, /;600;;1800;0.5$/);
+  });
+
+  it("rounds new entries and stopped timers on request", async () => {
+    type RoundedEntry = { duration: number; end: string; rounding: { original_duration: number } };
+    const added = await harness.call<RoundedEntry>("tt_add_time_entry", {
+      duration: "10m",
+      user_id: 2,
+      start: "2026-10-09 14:00:00",
+      end: "2026-10-09 14:10:00",
+      task_id: 102,
+      round: true,
+    });
+    assert.equal(added.json.duration, 1800);
+    assert.equal(added.json.end, "2026-10-09 14:30:00");
+    assert.equal(added.json.rounding.original_duration, 600);
+
+    harness.fake.trackings.push({ user_id: 1, task_id: 100, start: "2026-10-19 09:00:00" });
+    const stopped = await harness.call<RoundedEntry>("tt_stop_timer", { id: 100, date: "2026-10-19 09:50:00", round: true });
+    assert.equal(stopped.json.end, "2026-10-19 10:00:00");
+    assert.equal(stopped.json.rounding.original_duration, 3000);
+  });
+
+  it("leaves entries alone without a policy", async () => {
+    rmSync(settingsPath);
+    const { json } = await harness.call<{ duration: number; warnings: string[] }>("tt_add_time_entry", {
+      duration: 600,
+      user_id: 2,
+      start: "2026-10-09 14:00:00",
+      end: "2026-10-09 14:10:00",
+      task_id: 102,
+      round: true,
+    });
+    assert.equal(json.duration, 600);
+    assert.match(json.warnings[0], /No rounding policy/);
+    const list = await harness.call<{ rounded_duration?: number }[]>("tt_list_time_entries", {
+      filter: "USER",
+      id: 2,
+      from: FROM,
+      to: TO,
+    });
+    assert.equal(list.json[0].rounded_duration, undefined);
+  });
+});
+
+describe("invoices", () => {
+  interface Draft {
+    draft_id: string;
+    lines: Record<string, unknown>[];
+    event_ids: number[];
+    currency: string;
+    totals: { amount: number; billable_hours: number };
+  }
+
+  afterEach(() => {
+    rmSync(settingsPath, { force: true });
+  });
+
+  it("prices lines from the local rate table, falling back to TrackingTime's billing rates", async () => {
+    writeFileSync(
+      settingsPath,
+      JSON.stringify({
+        rates: { currency: "EUR", services: { Development: 120 } },
+        rounding: { projects: { "Website Redesign": { mode: "up", increment_minutes: 60 } } },
+      }),
+    );
+    harness.fake.events.push(
+      harness.fake.makeEvent({ id: 520, user_id: 1, task_id: 100, start: "2026-10-09 09:00:00", end: "2026-10-09 09:20:00" }),
+    );
+    const { json } = await harness.call<Draft>("tt_generate_invoice_draft", { customer_id: "acme", from: FROM, to: TO });
+    const design = json.lines.find((l) => l.task_id === 100)!;
+    assert.deepEqual(
+      [design.entries, design.hours, design.billable_hours, design.rate, design.rate_source, design.amount],
+      [2, 3.33, 4, 120, "service", 480],
+    );
+    assert.deepEqual(json.event_ids, [500, 501, 520]);
+    assert.equal(json.currency, "EUR");
+    assert.equal(json.totals.amount, 960);
+    assert.equal(harness.fake.requestsTo("/projects/10").length, 0);
+
+    const raw = await harness.call<Draft>("tt_generate_invoice_draft", {
+      customer_id: "acme",
+      from: FROM,
+      to: TO,
+      use_rounding: false,
+    });
+    assert.equal(raw.json.totals.billable_hours, 7.33);
+  });
+
+  it("renders Markdown and CSV", async () => {
+    const md = await harness.call("tt_generate_invoice_draft", { customer_id: 20, from: FROM, to: TO, format: "markdown" });
+    assert.match(md.text, /^## Invoice draft — Acme Corp, 2026-10-01 – 2026-10-31/);
+    assert.match(md.text, /\| Website Redesign \| Development \| Design mockups \| 3\.00 \| 100\.00 \| 300\.00 \|/);
+    assert.match(md.text, /\| \*\*Total\*\* \| \| \| \*\*7\.00\*\* \| \| \*\*700\.00\*\* \|/);
+    assert.match(md.text, /Covers 2 entries: 500, 501\./);
+
+    const csv = await harness.call("tt_generate_invoice_draft", { customer_id: 20, from: FROM, to: TO, format: "csv" });
+    const lines = csv.text.split("\n");
+    assert.equal(lines[0], "project,service,task,entries,hours,billable_hours,rate,amount,event_ids");
+    assert.equal(lines[1], "Website Redesign,Development,Build frontend,1,4,4,100,400,501");
+    assert.equal(lines[3], "Total,,,2,7,7,,700,");
+    assert.match(csv.text, /covers events 500, 501; run tt_finalize_invoice/);
+  });
+
+  it("bills exactly the drafted entries once", async () => {
+    const { json: draft } = await harness.call<Draft>("tt_generate_invoice_draft", { customer_id: 20, from: FROM, to: TO });
+    harness.fake.events.push(
+      harness.fake.makeEvent({ id: 521, user_id: 1, task_id: 100, start: "2026-10-09 09:00:00", end: "2026-10-09 10:00:00" }),
+    );
+    const first = await harness.call<{ billed: number }>("tt_finalize_invoice", { draft_id: draft.draft_id });
+    assert.equal(first.json.billed, 2);
+    assert.equal(harness.fake.requestsTo("/events/billed", "PUT")[0].body.data, JSON.stringify([{ id: 500 }, { id: 501 }]));
+    assert.equal(harness.fake.events.find((e) => e.id === 521)?.billed, false);
+
+    const again = await harness.call("tt_finalize_invoice", { draft_id: draft.draft_id });
+    assert.ok(again.isError);
+    assert.match(again.text, /already finalized/);
+    const unknown = await harness.call("tt_finalize_invoice", { draft_id: "nope" });
+    assert.match(unknown.text, /Unknown invoice draft "nope"/);
+  });
+});
+
+describe("project budgets", () => {
+  afterEach(() => {
+    rmSync(settingsPath, { force: true });
+  });
+
+  it("projects the hour and money budgets forward at the recent burn rate", async () => {
+    writeFileSync(settingsPath, JSON.stringify({ budgets: { projects: { "10": { hours: 30, amount: 2000 } } } }));
+    const { json } = await harness.call<Record<string, unknown>>("tt_project_budget_status", {
+      project_id: 10,
+      weeks: 1,
+      until: "2026-10-11",
+    });
+    assert.deepEqual(json.burn_rate, {
+      weeks: 1,
+      from: "2026-10-05",
+      to: "2026-10-11",
+      hours_per_week: 13,
+      amount_per_week: 1300,
+    });
+    assert.deepEqual(
+      [json.budget_hours, json.remaining_hours, json.percent_consumed, json.rate, json.actual_amount, json.percent_amount_consumed],
+      [30, 17, 43.3, 100, 1300, 65],
+    );
+    // 700 left at 1300 a week runs out before 17 hours at 13 a week.
+    assert.deepEqual([json.projected_overrun_date, json.projected_overrun_by, json.over_budget], ["2026-10-15", "amount", false]);
+  });
+
+  it("lists tasks past their estimates and flags overruns", async () => {
+    harness.fake.events.push(
+      harness.fake.makeEvent({ user_id: 1, task_id: 100, start: "2026-10-09 09:00:00", end: "2026-10-09 17:00:00" }),
+    );
+    writeFileSync(settingsPath, JSON.stringify({ budgets: { projects: { "Website Redesign": { hours: 20 } } } }));
+    const { json } = await harness.call<Record<string, unknown>>("tt_project_budget_status", {
+      project_id: 10,
+      until: "2026-10-11",
+    });
+    assert.equal(json.over_budget, true);
+    assert.equal(json.projected_overrun_date, null);
+    assert.deepEqual(json.tasks_over_estimate, [
+      { task_id: 100, task: "Design mockups", estimated_hours: 10, actual_hours: 11, over_hours: 1, percent_consumed: 110 },
+    ]);
+  });
+
+  it("fetches task times in batches of 100 tasks", async () => {
+    const template = harness.fake.tasks[0];
+    for (let i = 0; i < 150; i++) harness.fake.tasks.push({ ...template, id: 1000 + i, name: `Chore ${i}` });
+    const { isError, text } = await harness.call("tt_project_budget_status", { project_id: 10, until: "2026-10-11" });
+    assert.equal(isError, false, text);
+    assert.deepEqual(
+      harness.fake.requestsTo("/tasks/times").map((r) => r.body.data.length),
+      [100, 52],
+    );
+  });
+
+  it("covers every active project with a budget or estimates", async () => {
+    writeFileSync(settingsPath, JSON.stringify({ budgets: { projects: { "Support Retainer": { hours: 10 } } } }));
+    const { json } = await harness.call<{ as_of: string; projects: { project: string; percent_consumed: number }[] }>(
+      "tt_project_budget_status",
+      { until: "2026-10-11" },
+    );
+    assert.equal(json.as_of, "2026-10-11");
+    assert.deepEqual(
+      json.projects.map((p) => [p.project, p.percent_consumed]),
+      [
+        ["Website Redesign", 26],
+        ["Support Retainer", 15],
+      ],
+    );
+  });
+});
+
+describe("team utilization", () => {
+  interface Utilization {
+    billable_basis: string;
+    over_utilized: unknown[];
+    under_utilized: unknown[];
+    users: { user_id: number; capacity_hours: number; billable_hours: number; non_billable_hours: number }[];
+    totals: { capacity_hours: number; tracked_hours: number; utilization_percent: number };
+  }
+
+  afterEach(() => {
+    rmSync(settingsPath, { force: true });
+  });
+
+  it("prorates capacity and ranks over- and under-utilized staff", async () => {
+    writeFileSync(settingsPath, JSON.stringify({ capacity: { default_weekly_hours: 8, users: { "2": 20 } } }));
+    const { json } = await harness.call<Utilization>("tt_team_utilization", {
+      from: "2026-10-05",
+      to: "2026-10-09",
+      over_percent: 80,
+    });
+    assert.equal(json.billable_basis, "billed");
+    assert.deepEqual(json.over_utilized, [{ user_id: 1, user: "Ada Lovelace", utilization_percent: 87.5 }]);
+    assert.deepEqual(json.under_utilized, [{ user_id: 2, user: "Grace Hopper", utilization_percent: 37.5 }]);
+    const grace = json.users.find((u) => u.user_id === 2)!;
+    assert.deepEqual([grace.capacity_hours, grace.billable_hours, grace.non_billable_hours], [20, 6, 1.5]);
+    assert.deepEqual([json.totals.capacity_hours, json.totals.tracked_hours, json.totals.utilization_percent], [28, 14.5, 51.8]);
+  });
+
+  it("counts time on billable services when the list is set", async () => {
+    writeFileSync(settingsPath, JSON.stringify({ billable_services: ["development"] }));
+    const { json } = await harness.call<Utilization>("tt_team_utilization", { from: "2026-10-05", to: "2026-10-09" });
+    assert.equal(json.billable_basis, "services");
+    assert.deepEqual(
+      json.users.map((u) => [u.user_id, u.billable_hours]),
+      [
+        [2, 6],
+        [1, 7],
+      ],
+    );
+
+    rmSync(settingsPath);
+    const missing = await harness.call("tt_team_utilization", { from: "2026-10-05", to: "2026-10-09", billable_by: "services" });
+    assert.equal(missing.isError, true);
+    assert.match(missing.text, /billable_services/);
+  });
+});
+
+describe("working time", () => {
+  interface WorkingTime {
+    users_checked: number;
+    absences: unknown[];
+    by_rule: Record<string, number>;
+    violations: {
+      rule: string;
+      user_id: number;
+      date: string;
+      to?: string;
+      hours?: number;
+      days?: number;
+      rest_hours?: number;
+      absence?: string;
+      event_ids: number[];
+    }[];
+  }
+
+  const log = (user_id: number, task_id: number, start: string, end: string) => {
+    const event = harness.fake.makeEvent({ user_id, task_id, start, end });
+    harness.fake.events.push(event);
+    return event.id as number;
+  };
+
+  it("reports long days, short rests, and work on weekends, holidays and days off", async () => {
+    const late = log(1, 101, "2026-10-05 18:00:00", "2026-10-05 22:00:00");
+    const early = log(1, 101, "2026-10-06 06:00:00", "2026-10-06 09:00:00");
+    const dayOff = log(2, 102, "2026-10-08 09:00:00", "2026-10-08 11:00:00");
+    const saturday = log(2, 102, "2026-10-10 10:00:00", "2026-10-10 11:00:00");
+    const { json } = await harness.call<WorkingTime>("tt_check_working_time", { from: FROM, to: TO, holidays: ["2026-10-06"] });
+    assert.deepEqual(
+      json.violations.map((v) => [v.rule, v.user_id, v.date, v.event_ids]),
+      [
+        ["max_daily_hours", 1, "2026-10-05", [500, 501, late]],
+        ["min_rest_hours", 1, "2026-10-06", [late, early]],
+        ["holiday_work", 1, "2026-10-06", [early]],
+        ["holiday_work", 2, "2026-10-06", [502]],
+        ["work_during_absence", 2, "2026-10-08", [dayOff]],
+        ["weekend_work", 2, "2026-10-10", [saturday]],
+      ],
+    );
+    assert.deepEqual([json.violations[0].hours, json.violations[1].rest_hours], [11, 8]);
+    assert.equal(json.violations[4].absence, "Vacation");
+    assert.equal(json.by_rule.max_daily_hours, 1);
+  });
+
+  it("checks weekly hours and consecutive days for one user", async () => {
+    const thursday = log(2, 102, "2026-10-08 09:00:00", "2026-10-08 11:00:00");
+    const { json } = await harness.call<WorkingTime>("tt_check_working_time", {
+      from: FROM,
+      to: TO,
+      user_id: "Grace",
+      max_weekly_hours: 9,
+      max_consecutive_days: 2,
+      include_timeoffs: false,
+    });
+    assert.equal(json.users_checked, 1);
+    assert.deepEqual(json.absences, []);
+    assert.deepEqual(
+      json.violations.map((v) => [v.rule, v.date, v.to, v.hours ?? v.days, v.event_ids]),
+      [
+        ["max_weekly_hours", "2026-10-05", "2026-10-11", 9.5, [502, 503, thursday]],
+        ["max_consecutive_days", "2026-10-06", "2026-10-08", 3, [502, 503, thursday]],
+      ],
+    );
+  });
+});
+
+describe("customer reports", () => {
+  afterEach(() => {
+    rmSync(settingsPath, { force: true });
+  });
+
+  it("renders escaped HTML without staff names or internal tags", async () => {
+    const [mockups, layout] = harness.fake.events;
+    mockups.tags = [
+      { name: "phase", value: "discovery" },
+      { name: "billable", value: "yes" },
+    ];
+    layout.notes = "Layout <grid> & spacing";
+    const { text } = await harness.call("tt_customer_report", {
+      customer_id: 20,
+      from: FROM,
+      to: TO,
+      format: "html",
+      hide_staff: true,
+      hide_tags: ["Phase"],
+    });
+    assert.match(text, /^<!DOCTYPE html>/);
+    assert.match(text, /Layout &lt;grid&gt; &amp; spacing/);
+    assert.match(text, /\[billable: yes\]/);
+    assert.doesNotMatch(text, /discovery|Ada|Grace/);
+  });
+
+  it("writes rounded hours to a new file in the reports directory", async () => {
+    harness.fake.events.push(
+      harness.fake.makeEvent({ user_id: 1, task_id: 100, start: "2026-10-12 09:00:00", end: "2026-10-12 09:25:00" }),
+    );
+    writeFileSync(settingsPath, JSON.stringify({ rounding: { default: { mode: "up", increment_minutes: 60 } } }));
+    const path = join(settingsDir, "reports", "acme", "2026-10.md");
+    const args = { customer_id: "Acme Corp", from: FROM, to: TO, use_rounding: true, output_path: "acme/2026-10.md" };
+    const { json } = await harness.call<{ path: string; format: string; totals: unknown }>("tt_customer_report", args);
+    assert.deepEqual([json.path, json.format, json.totals], [path, "markdown", { entries: 4, hours: 14 }]);
+    const written = readFileSync(path, "utf8");
+    assert.match(written, /### Design mockups — 4\.00 h/);
+    assert.match(written, /- 2026-10-12 · 1\.00 h — Ada Lovelace\n/);
+    assert.match(written, /Hours are rounded/);
+
+    const again = await harness.call("tt_customer_report", args);
+    assert.equal(again.isError, true);
+    assert.match(again.text, /already exists/);
+  });
+
+  it("refuses to write outside the reports directory", async () => {
+    for (const output_path of ["../acme.md", join(settingsDir, "acme.md")]) {
+      const { isError, text } = await harness.call("tt_customer_report", {
+        customer_id: 20,
+        from: FROM,
+        to: TO,
+        output_path,
+      });
+      assert.equal(isError, true);
+      assert.match(text, /inside the reports directory/);
+    }
+    assert.ok(!existsSync(join(settingsDir, "acme.md")));
+  });
+});
+
+describe("daily digest", () => {
+  it("sums a day per task and adds the running timer, due tasks and unread notifications", async () => {
+    harness.fake.tasks[0].due_date = parseDate("today");
+    harness.fake.events.push(
+      harness.fake.makeEvent({ user_id: 1, task_id: 101, start: "2026-10-05 17:00:00", end: "2026-10-05 17:30:00", notes: "Layout  grid" }),
+      harness.fake.makeEvent({ user_id: 1, task_id: 101, start: "2026-10-05 18:00:00", end: "2026-10-05 18:30:00", notes: "Breakpoints" }),
+    );
+    harness.fake.trackings.push({ user_id: 1, task_id: 101, start: parseDateTime("1 hour ago") });
+    const { json } = await harness.call<DigestResult>("tt_daily_digest", {
+      user_id: "Ada",
+      date: "2026-10-05",
+      notification_limit: 0,
+    });
+    assert.deepEqual(
+      json.worked.tasks.map((t) => [t.task, t.entries, t.hours, t.notes]),
+      [
+        ["Build frontend", 3, 5, ["Layout grid", "Breakpoints"]],
+        ["Design mockups", 1, 3, ["Homepage concepts"]],
+      ],
+    );
+    assert.deepEqual(json.tracking.map((t) => t.task_id), [101]);
+    assert.deepEqual(json.due_today.map((t) => [t.task_id, t.project, t.estimated_hours]), [[100, "Website Redesign", 10]]);
+    assert.deepEqual(json.notifications, { unread: 1, items: [] });
+  });
+});
+
+describe("due tasks", () => {
+  type DueTask = { task_id: number; service: string };
+  type DueTasks = { counts: Record<string, number> } & Record<
+    "overdue" | "due_today" | "due_this_week" | "due_later" | "no_due_date",
+    DueTask[]
+  >;
+
+  it("filters by assignee group, customer and service", async () => {
+    const byCustomer = await harness.call<DueTasks>("tt_list_due_tasks", { customer_id: "Globex" });
+    assert.deepEqual(byCustomer.json.no_due_date.map((t) => [t.task_id, t.service]), [[102, "Support"]]);
+    assert.deepEqual(byCustomer.json.overdue, []);
+
+    const byGroup = await harness.call<DueTasks>("tt_list_due_tasks", {
+      group_id: "Engineering",
+      service_id: "Development",
+      sort_by: "project",
+    });
+    const listed = Object.values(byGroup.json.counts).reduce((sum, n) => sum + n, 0);
+    assert.equal(listed, 2);
+
+    const grace = await harness.call<DueTasks>("tt_list_due_tasks", { user_id: "Grace", include_undated: false });
+    const buckets = ["overdue", "due_today", "due_this_week", "due_later"] as const;
+    const tasks = buckets.flatMap((b) => grace.json[b]);
+    assert.deepEqual(tasks.map((t) => t.task_id), [101]);
+  });
+
+  it("fetches tracked times in batches of 100 tasks", async () => {
+    const template = harness.fake.tasks[0];
+    for (let i = 0; i < 150; i++) harness.fake.tasks.push({ ...template, id: 1000 + i, name: `Chore ${i}` });
+    const { json } = await harness.call<DueTasks>("tt_list_due_tasks", {});
+    const listed = Object.values(json.counts).reduce((sum, n) => sum + n, 0);
+    assert.ok(listed > 150);
+    assert.deepEqual(
+      harness.fake.requestsTo("/tasks/times").map((r) => r.body.data.length),
+      [100, listed - 100],
+    );
+  });
+});